@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileUpload } from './FileUpload';
+import { MergePolicy, SQLTestCase } from '@/types/validation';
+import { MERGE_POLICY_LABELS } from '@/lib/merge';
+
+type UploadMode = 'merge' | 'replace';
+
+interface AdditionalDataUploadProps {
+  onMerge: (data: SQLTestCase[], policy: MergePolicy, fileName?: string) => void;
+  onReplace: (data: SQLTestCase[], fileName?: string) => void;
+  onError: (error: string) => void;
+}
+
+export const AdditionalDataUpload: React.FC<AdditionalDataUploadProps> = ({ onMerge, onReplace, onError }) => {
+  const [mode, setMode] = useState<UploadMode>('merge');
+  const [policy, setPolicy] = useState<MergePolicy>('keep-existing');
+
+  const handleDataLoad = (data: SQLTestCase[], fileName?: string) => {
+    if (mode === 'merge') onMerge(data, policy, fileName);
+    else onReplace(data, fileName);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Upload Additional Data</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Mode</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as UploadMode)}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="merge">Append & merge</SelectItem>
+                <SelectItem value="replace">Replace current data</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {mode === 'merge' && (
+            <div className="space-y-1">
+              <Label className="text-xs">On duplicate id</Label>
+              <Select value={policy} onValueChange={(value) => setPolicy(value as MergePolicy)}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MERGE_POLICY_LABELS) as MergePolicy[]).map(option => (
+                    <SelectItem key={option} value={option}>{MERGE_POLICY_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        <FileUpload onDataLoad={handleDataLoad} onError={onError} />
+      </CardContent>
+    </Card>
+  );
+};
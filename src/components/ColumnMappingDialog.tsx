@@ -0,0 +1,202 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Columns3, AlertTriangle, Bookmark } from 'lucide-react';
+import { ColumnMapping, ColumnMappingPreset, SQLTestCase } from '@/types/validation';
+import { FIELD_LABELS } from '@/lib/fields';
+import { REQUIRED_FIELDS } from '@/lib/schema';
+import {
+  TARGET_FIELDS,
+  deleteMappingPreset,
+  getMappingPreset,
+  mappingFromPreset,
+  saveMappingPreset,
+  suggestColumnMapping
+} from '@/lib/column-mapping';
+import { useToast } from '@/hooks/use-toast';
+
+export interface ColumnMappingRequest {
+  fileName: string;
+  headers: string[];
+  sampleRow: Record<string, unknown>;
+}
+
+interface ColumnMappingDialogProps {
+  request: ColumnMappingRequest | null;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+// Radix Select does not allow an empty value, so "ignore" gets a sentinel
+const IGNORE = '__ignore__';
+
+export const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({ request, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [preset, setPreset] = useState<ColumnMappingPreset | undefined>();
+  const [savePreset, setSavePreset] = useState(true);
+  const [presetName, setPresetName] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!request) return;
+    const saved = getMappingPreset(request.headers);
+    setPreset(saved);
+    setMapping(saved ? mappingFromPreset(request.headers, saved) : suggestColumnMapping(request.headers));
+    setPresetName(saved?.name ?? request.fileName);
+  }, [request]);
+
+  const mappedFields = useMemo(
+    () => Object.values(mapping).filter((field): field is keyof SQLTestCase => field !== null),
+    [mapping]
+  );
+  const duplicateFields = mappedFields.filter((field, index) => mappedFields.indexOf(field) !== index);
+  const unmappedRequired = REQUIRED_FIELDS.filter(field => !mappedFields.includes(field));
+
+  if (!request) return null;
+
+  // The import goes ahead even when the preset cannot be stored
+  const handleConfirm = () => {
+    if (savePreset && !saveMappingPreset(presetName.trim() || request.fileName, request.headers, mapping)) {
+      toast({
+        title: 'Mapping preset not saved',
+        description: 'Browser storage is full or unavailable. Files with these columns will need to be mapped again.',
+        variant: 'destructive',
+      });
+    }
+    onConfirm(mapping);
+  };
+
+  const handleForgetPreset = () => {
+    if (!preset) return;
+    deleteMappingPreset(preset.signature);
+    setPreset(undefined);
+    setMapping(suggestColumnMapping(request.headers));
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Columns3 className="h-5 w-5" />
+            Map Columns: {request.fileName}
+          </DialogTitle>
+          <DialogDescription>
+            Match the columns in this file to dashboard fields. Suggestions are based on column names.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {preset && (
+            <Alert>
+              <Bookmark className="h-4 w-4" />
+              <AlertDescription className="flex items-center justify-between gap-2">
+                <span>Using saved preset "{preset.name}" for these headers.</span>
+                <Button variant="ghost" size="sm" onClick={handleForgetPreset}>Forget preset</Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {unmappedRequired.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Required fields without a column: {unmappedRequired.map(field => FIELD_LABELS[field]).join(', ')}.
+                Rows will be rejected in the import report unless these are mapped.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="overflow-x-auto max-h-96 border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Column in File</TableHead>
+                  <TableHead>Sample Value</TableHead>
+                  <TableHead>Maps To</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {request.headers.map(header => {
+                  const field = mapping[header] ?? null;
+                  const isDuplicate = field !== null && duplicateFields.includes(field);
+                  return (
+                    <TableRow key={header}>
+                      <TableCell className="font-mono text-xs">{header}</TableCell>
+                      <TableCell className="font-mono text-xs max-w-48 truncate text-muted-foreground">
+                        {String(request.sampleRow[header] ?? '')}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={field ?? IGNORE}
+                          onValueChange={(value) => setMapping(prev => ({
+                            ...prev,
+                            [header]: value === IGNORE ? null : value as keyof SQLTestCase
+                          }))}
+                        >
+                          <SelectTrigger className={`w-56 ${isDuplicate ? 'border-error' : ''}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={IGNORE}>Ignore column</SelectItem>
+                            {TARGET_FIELDS.map(target => (
+                              <SelectItem key={target} value={target}>
+                                {FIELD_LABELS[target]}{REQUIRED_FIELDS.includes(target) ? ' *' : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          {duplicateFields.length > 0 && (
+            <p className="text-sm text-error">
+              Each field can only be mapped once: {[...new Set(duplicateFields)].map(field => FIELD_LABELS[field]).join(', ')}
+            </p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="save-mapping-preset"
+                checked={savePreset}
+                onCheckedChange={(checked) => setSavePreset(checked === true)}
+              />
+              <Label htmlFor="save-mapping-preset" className="text-sm">Save as preset for files with these headers</Label>
+            </div>
+            {savePreset && (
+              <Input
+                className="w-56"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="Preset name"
+              />
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleConfirm} disabled={duplicateFields.length > 0}>Apply Mapping</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
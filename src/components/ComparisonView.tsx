@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { GitCompare, Eye, X, TrendingDown, TrendingUp } from 'lucide-react';
+import { ComparisonStatus, RunComparison, SQLTestCase } from '@/types/validation';
+import { formatDelta, getMetricLabel } from '@/lib/comparison';
+
+interface ComparisonViewProps {
+  comparison: RunComparison;
+  onRowClick: (testCase: SQLTestCase) => void;
+  onClearBaseline: () => void;
+}
+
+const STATUS_STYLES: Record<ComparisonStatus, string> = {
+  regression: 'bg-error text-error-foreground',
+  improvement: 'bg-success text-success-foreground',
+  unchanged: 'bg-muted text-muted-foreground',
+  added: 'bg-info text-info-foreground',
+  removed: 'bg-warning text-warning-foreground',
+};
+
+const STATUS_LABELS: Record<ComparisonStatus, string> = {
+  regression: 'Regression',
+  improvement: 'Improvement',
+  unchanged: 'Unchanged',
+  added: 'Added',
+  removed: 'Removed',
+};
+
+const getDeltaColor = (delta: number | undefined): string => {
+  if (delta === undefined || Math.abs(delta) < 0.0005) return 'text-muted-foreground';
+  return delta > 0 ? 'text-success' : 'text-error';
+};
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ comparison, onRowClick, onClearBaseline }) => {
+  const [statusFilter, setStatusFilter] = useState<'all' | ComparisonStatus>('all');
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<ComparisonStatus, number> = {
+      regression: 0, improvement: 0, unchanged: 0, added: 0, removed: 0
+    };
+    comparison.cases.forEach(c => counts[c.status]++);
+    return counts;
+  }, [comparison]);
+
+  // Largest semantic drops first so regressions surface at the top
+  const visibleCases = useMemo(() =>
+    comparison.cases
+      .filter(c => statusFilter === 'all' || c.status === statusFilter)
+      .sort((a, b) => (a.deltas.computed_semantic ?? 0) - (b.deltas.computed_semantic ?? 0)),
+    [comparison, statusFilter]
+  );
+
+  const multipleRuns = useMemo(() => new Set(comparison.cases.map(c => c.runId)).size > 1, [comparison]);
+
+  const { flips } = comparison;
+  const FlipCell = ({ value, tone }: { value: number; tone: 'good' | 'bad' | 'neutral' }) => (
+    <div
+      className={`h-14 flex items-center justify-center text-lg font-semibold border rounded-md ${
+        tone === 'bad' ? 'bg-error/15 text-error border-error/30'
+          : tone === 'good' ? 'bg-success/15 text-success border-success/30'
+          : 'bg-muted/40'
+      }`}
+    >
+      {value}
+    </div>
+  );
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <GitCompare className="h-5 w-5" />
+          Run Comparison
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={onClearBaseline}>
+          <X className="h-4 w-4 mr-1" />
+          Remove Baseline
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Pass-flip matrix */}
+          <div>
+            <h3 className="font-semibold text-sm mb-3">Pass/Fail Flips (baseline → candidate)</h3>
+            <div className="grid grid-cols-[auto_1fr_1fr] gap-2 items-center text-sm">
+              <div />
+              <div className="text-center text-muted-foreground">Candidate Pass</div>
+              <div className="text-center text-muted-foreground">Candidate Fail</div>
+              <div className="text-muted-foreground">Baseline Pass</div>
+              <FlipCell value={flips.passToPass} tone="neutral" />
+              <FlipCell value={flips.passToFail} tone="bad" />
+              <div className="text-muted-foreground">Baseline Fail</div>
+              <FlipCell value={flips.failToPass} tone="good" />
+              <FlipCell value={flips.failToFail} tone="neutral" />
+            </div>
+          </div>
+
+          {/* Status counts */}
+          <div className="space-y-2 text-sm">
+            <h3 className="font-semibold mb-3">Cases</h3>
+            {(Object.keys(STATUS_LABELS) as ComparisonStatus[]).map(status => (
+              <div key={status} className="flex justify-between">
+                <span>{STATUS_LABELS[status]}</span>
+                <span className="font-medium">{statusCounts[status]}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Aggregated deltas */}
+          <div className="space-y-2 text-sm">
+            <h3 className="font-semibold mb-3">Average Deltas</h3>
+            {comparison.comparedMetrics.slice(0, 8).map(metric => (
+              <div key={metric} className="flex justify-between">
+                <span>{getMetricLabel(metric)}</span>
+                <span className={`font-mono ${getDeltaColor(comparison.averageDeltas[metric])}`}>
+                  {formatDelta(comparison.averageDeltas[metric])}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Per-case table */}
+        <div className="flex items-center gap-4">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'all' | ComparisonStatus)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Cases</SelectItem>
+              {(Object.keys(STATUS_LABELS) as ComparisonStatus[]).map(status => (
+                <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="text-sm text-muted-foreground">
+            Showing {visibleCases.length} of {comparison.cases.length} cases
+          </div>
+        </div>
+
+        <div className="overflow-x-auto max-h-[32rem]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>ID</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Baseline</TableHead>
+                <TableHead>Candidate</TableHead>
+                {comparison.comparedMetrics.map(metric => (
+                  <TableHead key={metric} className="whitespace-nowrap">Δ {getMetricLabel(metric)}</TableHead>
+                ))}
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleCases.map(c => (
+                <TableRow key={c.key}>
+                  <TableCell className="font-mono text-sm">
+                    {multipleRuns && c.runId && <span className="text-muted-foreground">{c.runId} · </span>}
+                    {c.id}
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={STATUS_STYLES[c.status]}>
+                      {c.status === 'regression' && <TrendingDown className="w-3 h-3 mr-1" />}
+                      {c.status === 'improvement' && <TrendingUp className="w-3 h-3 mr-1" />}
+                      {STATUS_LABELS[c.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{c.baselinePassed === undefined ? '—' : c.baselinePassed ? 'PASS' : 'FAIL'}</TableCell>
+                  <TableCell>{c.candidatePassed === undefined ? '—' : c.candidatePassed ? 'PASS' : 'FAIL'}</TableCell>
+                  {comparison.comparedMetrics.map(metric => (
+                    <TableCell key={metric} className={`font-mono text-xs ${getDeltaColor(c.deltas[metric])}`}>
+                      {formatDelta(c.deltas[metric])}
+                    </TableCell>
+                  ))}
+                  <TableCell>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onRowClick(c.candidate ?? c.baseline)}
+                      className="h-8"
+                    >
+                      <Eye className="w-4 h-4 mr-1" />
+                      View
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,10 +1,15 @@
-import React, { useState, useMemo } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Toggle } from '@/components/ui/toggle';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { 
   ChevronDown, 
   ChevronUp, 
@@ -14,35 +19,177 @@ import {
   CheckCircle2,
   XCircle,
   ArrowUp,
-  ArrowDown
+  ArrowDown,
+  HelpCircle
 } from 'lucide-react';
-import { SQLTestCase, FilterState, SortState } from '@/types/validation';
+import { SQLTestCase, FilterState, SortState, ScoringProfile, SqlFormatSettings, TableLayout, TestCaseScore } from '@/types/validation';
+import { getPassRate, getSemanticScore, scoreTestCase } from '@/lib/scoring';
+import { FIELD_LABELS } from '@/lib/fields';
+import { formatRunLabel, getRowKey, groupByRun, hasMultipleRuns } from '@/lib/run-tags';
+import { MIN_COLUMN_WIDTH, moveColumn } from '@/lib/table-layouts';
+import { toggleSortColumn } from '@/lib/sorting';
+import { SEARCHABLE_FIELDS, SEARCH_SCOPES, compileSearch, findMatchRanges } from '@/lib/search';
+import { formatSql } from '@/lib/sql-format';
+import { FilterBuilder } from './FilterBuilder';
+import { TableLayoutMenu } from './TableLayoutMenu';
+import { SortMenu } from './SortMenu';
+import { SqlFormatMenu } from './SqlFormatMenu';
+import { HighlightedText } from './HighlightedText';
+
+type RunGroup = ReturnType<typeof groupByRun>[number];
+
+// One virtualized line of the table body: a run header, a result row or its expanded details
+type TableItem =
+  | { type: 'group'; key: string; group: RunGroup }
+  | { type: 'row'; key: string; row: SQLTestCase }
+  | { type: 'detail'; key: string; row: SQLTestCase };
+
+// Initial guesses only; rendered lines are measured
+const ESTIMATED_HEIGHTS: Record<TableItem['type'], number> = {
+  group: 41,
+  row: 53,
+  detail: 240,
+};
+
+// Expand button and ID stay visible while scrolling sideways
+const STICKY_EXPAND = 'sticky left-0 z-10 w-12 min-w-12 bg-card';
+const STICKY_ID = 'sticky left-12 z-10 bg-card';
+
+// Decimal places shown for numeric columns
+const DECIMALS: Partial<Record<keyof SQLTestCase, number>> = {
+  syntax_score: 2,
+  codebert_intent_score: 3,
+  codebert_sqlsim_score: 3,
+  flane5_intent_score: 3,
+  flane5_sqlsim_score: 3,
+  ngram1_precision: 4,
+  ngram1_recall: 4,
+  ngram1_f1: 4,
+  ngram2_precision: 4,
+  ngram2_recall: 4,
+  ngram2_f1: 4,
+  edit_similarity: 4,
+  structural_similarity: 4,
+  vocab_unknown_ratio: 4,
+  precision: 4,
+  recall: 4,
+  f1_score: 4,
+  execution_accuracy: 4,
+};
+
+const SQL_FEATURE_COLUMNS: (keyof SQLTestCase)[] = [
+  'has_limit',
+  'has_offset',
+  'has_result_type',
+  'has_cte',
+  'has_order_by',
+  'has_group_by',
+  'has_join',
+];
+
+const TEXT_COLUMNS: (keyof SQLTestCase)[] = ['user_prompt', 'expected_sql', 'generated_sql'];
 
 interface DataTableProps {
   data: SQLTestCase[];
+  // Filtered and sorted rows, computed by the dashboard so exports see the same view
+  rows: SQLTestCase[];
+  profile: ScoringProfile;
+  filters: FilterState;
+  sortState: SortState;
+  onFiltersChange: (filters: FilterState) => void;
+  onSortChange: (sortState: SortState) => void;
+  // Enables sorting by the semantic delta against the baseline run
+  hasBaseline: boolean;
   onRowClick: (testCase: SQLTestCase) => void;
+  layouts: TableLayout[];
+  activeLayout: TableLayout;
+  // Columns and widths currently on screen
+  layout: TableLayout;
+  layoutModified: boolean;
+  onSelectLayout: (id: string) => void;
+  onLayoutChange: (changes: Partial<Pick<TableLayout, 'columns' | 'widths'>>) => void;
+  onSaveLayout: (name?: string) => void;
+  onDeleteLayout: (id: string) => void;
+  sqlFormat: SqlFormatSettings;
+  onSqlFormatChange: (changes: Partial<SqlFormatSettings>) => void;
 }
 
-export const DataTable: React.FC<DataTableProps> = ({ data, onRowClick }) => {
-  const [filters, setFilters] = useState<FilterState>({
-    searchTerm: '',
-    passFailFilter: 'all',
-    scoreRange: [0, 1],
-    selectedMetrics: []
-  });
+export const DataTable: React.FC<DataTableProps> = ({
+  data,
+  rows,
+  profile,
+  filters,
+  sortState,
+  onFiltersChange,
+  onSortChange,
+  hasBaseline,
+  onRowClick,
+  layouts,
+  activeLayout,
+  layout,
+  layoutModified,
+  onSelectLayout,
+  onLayoutChange,
+  onSaveLayout,
+  onDeleteLayout,
+  sqlFormat,
+  onSqlFormatChange
+}) => {
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+  const [groupRuns, setGroupRuns] = useState(false);
+  const [draggedColumn, setDraggedColumn] = useState<keyof SQLTestCase | null>(null);
+  const [dropTarget, setDropTarget] = useState<keyof SQLTestCase | null>(null);
+  const columns = layout.columns;
+  const search = useMemo(
+    () => compileSearch(filters.searchTerm, filters.searchMode ?? 'text'),
+    [filters.searchTerm, filters.searchMode]
+  );
+
+  const scrollRef = useRef<HTMLDivElement>(null);
 
-  const [sortState, setSortState] = useState<SortState>({
-    column: 'id',
-    direction: 'asc'
+  const multipleRuns = useMemo(() => hasMultipleRuns(data), [data]);
+  // When grouping, rows are reordered run by run (keeping the sort order within each run),
+  // each run under its own header line
+  const items = useMemo(() => {
+    const result: TableItem[] = [];
+    const pushRows = (groupRows: SQLTestCase[]) => groupRows.forEach(row => {
+      const key = getRowKey(row);
+      result.push({ type: 'row', key, row });
+      if (expandedRows.has(key)) result.push({ type: 'detail', key: `${key}\u0000detail`, row });
+    });
+    if (groupRuns && multipleRuns) {
+      groupByRun(rows).forEach(group => {
+        result.push({ type: 'group', key: `group\u0000${group.runId}`, group });
+        pushRows(group.rows);
+      });
+    } else {
+      pushRows(rows);
+    }
+    return result;
+  }, [groupRuns, multipleRuns, rows, expandedRows]);
+
+  // Only the lines in view are rendered, so tens of thousands of rows stay responsive
+  const virtualizer = useVirtualizer({
+    count: items.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: index => ESTIMATED_HEIGHTS[items[index].type],
+    getItemKey: index => items[index].key,
+    overscan: 10,
   });
+  const virtualItems = virtualizer.getVirtualItems();
+  const paddingTop = virtualItems.length > 0 ? virtualItems[0].start : 0;
+  const paddingBottom = virtualItems.length > 0
+    ? virtualizer.getTotalSize() - virtualItems[virtualItems.length - 1].end
+    : 0;
 
-  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+  // A new filter or sort starts from the top. Rows also change when scores are recomputed or
+  // columns filled in (profile edits, SQL analysis, execution checks); those keep the position.
+  useEffect(() => {
+    virtualizer.scrollToOffset(0);
+  }, [filters, sortState, virtualizer]);
 
-  const handleSort = (column: keyof SQLTestCase) => {
-    setSortState(prev => ({
-      column,
-      direction: prev.column === column && prev.direction === 'asc' ? 'desc' : 'asc'
-    }));
+  const handleSort = (column: keyof SQLTestCase, additive: boolean) => {
+    onSortChange(toggleSortColumn(sortState, column, additive));
   };
 
   const toggleRowExpansion = (id: string) => {
@@ -57,73 +204,103 @@ export const DataTable: React.FC<DataTableProps> = ({ data, onRowClick }) => {
     });
   };
 
-  const filteredAndSortedData = useMemo(() => {
-    let filtered = data.filter(row => {
-      // Search filter
-      if (filters.searchTerm) {
-        const searchLower = filters.searchTerm.toLowerCase();
-        if (!(
-          row.id.toLowerCase().includes(searchLower) ||
-          row.user_prompt.toLowerCase().includes(searchLower) ||
-          row.true_label.toLowerCase().includes(searchLower)
-        )) {
-          return false;
-        }
-      }
-
-      // Pass/Fail filter
-      if (filters.passFailFilter !== 'all') {
-        if (filters.passFailFilter === 'pass') {
-          // All rows are passing in the UI
-          return true;
-        }
-        if (filters.passFailFilter === 'fail') {
-          // No rows are failing in the UI
-          return false;
-        }
-      }
+  const SortIcon = ({ column }: { column: keyof SQLTestCase }) => {
+    const index = sortState.keys.findIndex(key => key.column === column);
+    if (index === -1) return null;
+    return (
+      <>
+        {sortState.keys[index].direction === 'asc' ? 
+          <ArrowUp className="w-4 h-4 ml-1" /> : 
+          <ArrowDown className="w-4 h-4 ml-1" />}
+        {sortState.keys.length > 1 && <span className="text-xs text-muted-foreground">{index + 1}</span>}
+      </>
+    );
+  };
 
-      // Score range filter
-      if (row.semantic_score < filters.scoreRange[0] || row.semantic_score > filters.scoreRange[1]) {
-        return false;
-      }
+  const columnStyle = (column: keyof SQLTestCase): React.CSSProperties | undefined => {
+    const width = layout.widths[column];
+    return width ? { width, minWidth: width, maxWidth: width } : undefined;
+  };
 
-      return true;
+  // Dragging a header's right edge sets that column's width
+  const startResize = (column: keyof SQLTestCase, e: React.MouseEvent<HTMLElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = e.currentTarget.parentElement.getBoundingClientRect().width;
+    const widths = layout.widths;
+    const handleMove = (event: MouseEvent) => onLayoutChange({
+      widths: { ...widths, [column]: Math.max(MIN_COLUMN_WIDTH, Math.round(startWidth + event.clientX - startX)) }
     });
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
 
-    // Sort
-    filtered.sort((a, b) => {
-      const aVal = a[sortState.column];
-      const bVal = b[sortState.column];
-      
-      if (typeof aVal === 'string' && typeof bVal === 'string') {
-        return sortState.direction === 'asc' 
-          ? aVal.localeCompare(bVal)
-          : bVal.localeCompare(aVal);
-      }
-      
-      if (typeof aVal === 'number' && typeof bVal === 'number') {
-        return sortState.direction === 'asc' ? aVal - bVal : bVal - aVal;
-      }
-      
-      if (typeof aVal === 'boolean' && typeof bVal === 'boolean') {
-        return sortState.direction === 'asc' 
-          ? (aVal ? 1 : 0) - (bVal ? 1 : 0)
-          : (bVal ? 1 : 0) - (aVal ? 1 : 0);
-      }
-
-      return 0;
-    });
+  const handleColumnDrop = (target: keyof SQLTestCase) => {
+    if (draggedColumn) onLayoutChange({ columns: moveColumn(columns, draggedColumn, target) });
+    setDraggedColumn(null);
+    setDropTarget(null);
+  };
 
-    return filtered;
-  }, [data, filters, sortState]);
+  // A render function rather than a component: a component defined here would remount
+  // on every render and cancel a header drag in progress
+  const renderSortableHead = (column: keyof SQLTestCase) => (
+    <TableHead
+      key={column}
+      className={`relative cursor-pointer select-none whitespace-nowrap bg-card ${column === 'id' ? `${STICKY_ID} z-30` : ''} ${
+        dropTarget === column && draggedColumn !== column ? 'border-l-2 border-primary' : ''
+      } ${draggedColumn === column ? 'opacity-50' : ''}`}
+      style={columnStyle(column)}
+      onClick={(e) => handleSort(column, e.shiftKey)}
+      draggable={column !== 'id'}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        setDraggedColumn(column);
+      }}
+      onDragOver={(e) => {
+        if (!draggedColumn || column === 'id') return;
+        e.preventDefault();
+        setDropTarget(column);
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        handleColumnDrop(column);
+      }}
+      onDragEnd={() => {
+        setDraggedColumn(null);
+        setDropTarget(null);
+      }}
+    >
+      <span className="inline-flex items-center">
+        {FIELD_LABELS[column]}
+        <SortIcon column={column} />
+      </span>
+      <span
+        className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-primary/40"
+        onMouseDown={(e) => startResize(column, e)}
+        onClick={(e) => e.stopPropagation()}
+        aria-hidden
+      />
+    </TableHead>
+  );
 
-  const SortIcon = ({ column }: { column: keyof SQLTestCase }) => {
-    if (sortState.column !== column) return null;
-    return sortState.direction === 'asc' ? 
-      <ArrowUp className="w-4 h-4 ml-1" /> : 
-      <ArrowDown className="w-4 h-4 ml-1" />;
-  };
+  const MatchBadge = ({ passed }: { passed: boolean }) => (
+    passed ? (
+      <Badge variant="default" className="bg-success text-success-foreground">
+        <CheckCircle2 className="w-3 h-3 mr-1" />
+        PASS
+      </Badge>
+    ) : (
+      <Badge variant="destructive">
+        <XCircle className="w-3 h-3 mr-1" />
+        FAIL
+      </Badge>
+    )
+  );
 
   const getScoreColor = (score: number): string => {
     if (score >= 0.9) return 'text-metric-excellent';
@@ -136,6 +313,50 @@ export const DataTable: React.FC<DataTableProps> = ({ data, onRowClick }) => {
     return text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
   };
 
+  // Marks search matches in text a search term applies to
+  const highlight = (text: string, column: keyof SQLTestCase, maxLength?: number): React.ReactNode => {
+    if (search.terms.length === 0) return maxLength ? truncateText(text, maxLength) : text;
+    return <HighlightedText text={text} ranges={findMatchRanges(text, search, column)} maxLength={maxLength} />;
+  };
+
+  // SQL as shown in cells and detail rows; search still matches the stored text
+  const displaySql = (sql: string) => (sqlFormat.formatDisplay ? formatSql(sql, sqlFormat.dialect) : sql);
+
+  const renderCellContent = (row: SQLTestCase, column: keyof SQLTestCase, score: TestCaseScore): React.ReactNode => {
+    if (TEXT_COLUMNS.includes(column)) {
+      const value = String(row[column] ?? '');
+      const text = column === 'user_prompt' ? value : displaySql(value);
+      return <div className="truncate" title={text}>{highlight(text, column, 80)}</div>;
+    }
+    if (SQL_FEATURE_COLUMNS.includes(column)) return row[column] ? 'Yes' : 'No';
+    switch (column) {
+      case 'semantic_score':
+        return getSemanticScore(row, profile)?.toFixed(2) ?? '0.00';
+      case 'unknown_tokens': {
+        const tokens = Array.isArray(row.unknown_tokens) ? row.unknown_tokens.join(';') : '';
+        return <div className="truncate" title={tokens}>{highlight(tokens, column, 40)}</div>;
+      }
+      case 'generated_sql_parses':
+        if (row.generated_sql_parses === undefined) return null;
+        return row.generated_sql_parses ? 'Yes' : <span className="text-error font-medium">No</span>;
+      case 'codebert_match':
+        return <MatchBadge passed={score.codebertPass} />;
+      case 'flane5_match':
+        return <MatchBadge passed={score.flane5Pass} />;
+    }
+    const value = row[column];
+    if (typeof value === 'string' && SEARCHABLE_FIELDS.includes(column)) return highlight(value, column);
+    if (DECIMALS[column] !== undefined) return typeof value === 'number' ? value.toFixed(DECIMALS[column]) : null;
+    return value as React.ReactNode;
+  };
+
+  const cellClassName = (column: keyof SQLTestCase): string => {
+    if (column === 'id') return `${STICKY_ID} font-mono text-sm group-hover:bg-muted`;
+    if (column === 'run_id' || column === 'model_label') return 'whitespace-nowrap';
+    if (TEXT_COLUMNS.includes(column)) return 'max-w-xs';
+    return '';
+  };
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -146,22 +367,49 @@ export const DataTable: React.FC<DataTableProps> = ({ data, onRowClick }) => {
         
         {/* Filters */}
         <div className="flex flex-wrap gap-4 mt-4">
-          <div className="flex items-center gap-2">
-            <Search className="h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search by ID, prompt, or label..."
-              value={filters.searchTerm}
-              onChange={(e) => setFilters(prev => ({ ...prev, searchTerm: e.target.value }))}
-              className="w-64"
-            />
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Search className="h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder='Search, e.g. gen:"LEFT JOIN" label:aggregation'
+                value={filters.searchTerm}
+                onChange={(e) => onFiltersChange({ ...filters, searchTerm: e.target.value })}
+                className={`w-80 ${search.error ? 'border-error' : ''}`}
+              />
+              <Toggle
+                size="sm"
+                variant="outline"
+                pressed={filters.searchMode === 'regex'}
+                onPressedChange={(pressed) => onFiltersChange({ ...filters, searchMode: pressed ? 'regex' : 'text' })}
+                aria-label="Regular expression search"
+                title="Treat search terms as regular expressions"
+                className="font-mono"
+              >
+                .*
+              </Toggle>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <HelpCircle className="h-4 w-4 text-muted-foreground cursor-help" />
+                </TooltipTrigger>
+                <TooltipContent className="max-w-sm text-xs space-y-1">
+                  <p>Terms are combined with AND and matched case-insensitively. Quote phrases: "GROUP BY".</p>
+                  <p>
+                    Scope a term with a prefix: {Object.keys(SEARCH_SCOPES).map(scope => `${scope}:`).join(' ')}.
+                    Unscoped terms search the ID, prompt, label, both SQL queries, unknown tokens and run.
+                  </p>
+                  <p>Prefix a term with - to exclude matches, e.g. -gen:LIMIT.</p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            {search.error && <p className="text-xs text-error pl-6">{search.error}</p>}
           </div>
           
           <Select 
             value={filters.passFailFilter} 
-            onValueChange={(value) => setFilters(prev => ({ 
-              ...prev, 
+            onValueChange={(value) => onFiltersChange({ 
+              ...filters, 
               passFailFilter: value as 'all' | 'pass' | 'fail' 
-            }))}
+            })}
           >
             <SelectTrigger className="w-40">
               <SelectValue placeholder="Filter by result" />
@@ -173,165 +421,95 @@ export const DataTable: React.FC<DataTableProps> = ({ data, onRowClick }) => {
             </SelectContent>
           </Select>
           
+          <SortMenu sortState={sortState} hasBaseline={hasBaseline} onChange={onSortChange} />
+
+          <TableLayoutMenu
+            layouts={layouts}
+            activeLayout={activeLayout}
+            tableLayout={layout}
+            isModified={layoutModified}
+            onSelect={onSelectLayout}
+            onChange={onLayoutChange}
+            onSave={onSaveLayout}
+            onDelete={onDeleteLayout}
+          />
+
+          <SqlFormatMenu settings={sqlFormat} onChange={onSqlFormatChange} />
+
+          {multipleRuns && (
+            <div className="flex items-center gap-2">
+              <Switch id="group-by-run" checked={groupRuns} onCheckedChange={setGroupRuns} />
+              <Label htmlFor="group-by-run" className="text-sm">Group by run</Label>
+            </div>
+          )}
+
           <div className="text-sm text-muted-foreground flex items-center">
-            Showing {filteredAndSortedData.length} of {data.length} results
+            Showing {rows.length} of {data.length} results
           </div>
         </div>
+
+        {/* Advanced filters */}
+        <div className="mt-3">
+          <FilterBuilder
+            groups={filters.groups}
+            groupCombinator={filters.groupCombinator}
+            onChange={(groups, groupCombinator) => onFiltersChange({ ...filters, groups, groupCombinator })}
+          />
+        </div>
       </CardHeader>
       
       <CardContent>
-        <div className="overflow-x-auto">
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead></TableHead>
-                <TableHead>ID</TableHead>
-                <TableHead>User Prompt</TableHead>
-                <TableHead>Expected SQL</TableHead>
-                <TableHead>Generated SQL</TableHead>
-                <TableHead>Syntax Score</TableHead>
-                <TableHead>Semantic Score</TableHead>
-                <TableHead>Has Limit</TableHead>
-                <TableHead>Has Offset</TableHead>
-                <TableHead>Has Result Type</TableHead>
-                <TableHead>Has CTE</TableHead>
-                <TableHead>Has Order By</TableHead>
-                <TableHead>Has Group By</TableHead>
-                <TableHead>Has Join</TableHead>
-                <TableHead>CodeBERT Intent Score</TableHead>
-                <TableHead>CodeBERT SQLSim Score</TableHead>
-                <TableHead>FLANE5 Intent Score</TableHead>
-                <TableHead>FLANE5 SQLSim Score</TableHead>
-                <TableHead>NGram1 Precision</TableHead>
-                <TableHead>NGram1 Recall</TableHead>
-                <TableHead>NGram1 F1</TableHead>
-                <TableHead>NGram2 Precision</TableHead>
-                <TableHead>NGram2 Recall</TableHead>
-                <TableHead>NGram2 F1</TableHead>
-                <TableHead>Edit Similarity</TableHead>
-                <TableHead>Vocab Unknown Count</TableHead>
-                <TableHead>Vocab Unknown Ratio</TableHead>
-                <TableHead>Unknown Tokens</TableHead>
-                <TableHead>Precision</TableHead>
-                <TableHead>Recall</TableHead>
-                <TableHead>F1 Score</TableHead>
-                <TableHead>CodeBERT Match</TableHead>
-                <TableHead>FLANE5 Match</TableHead>
-                <TableHead>True Label</TableHead>
-                <TableHead>Execution Accuracy</TableHead>
-                <TableHead></TableHead>
+        {/* A plain <table>: the shadcn Table wrapper is its own scroll box and would break the sticky header */}
+        <div ref={scrollRef} className="max-h-[70vh] overflow-auto border rounded-md">
+          <table className="w-full caption-bottom text-sm">
+            <TableHeader className="sticky top-0 z-20 bg-card shadow-sm">
+              <TableRow className="hover:bg-transparent">
+                <TableHead className={`${STICKY_EXPAND} z-30`}></TableHead>
+                {columns.map(renderSortableHead)}
+                <TableHead className="bg-card"></TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredAndSortedData.map((row) => (
-                <React.Fragment key={row.id}>
-                  <TableRow className="hover:bg-muted/50 cursor-pointer">
-                    <TableCell>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => toggleRowExpansion(row.id)}
-                        className="p-0 h-6 w-6"
-                      >
-                        {expandedRows.has(row.id) ? 
-                          <ChevronUp className="h-4 w-4" /> : 
-                          <ChevronDown className="h-4 w-4" />
-                        }
-                      </Button>
-                    </TableCell>
-                    <TableCell className="font-mono text-sm">{row.id}</TableCell>
-                    <TableCell className="max-w-xs">
-                      <div className="truncate" title={row.user_prompt}>
-                        {truncateText(row.user_prompt, 80)}
-                      </div>
-                    </TableCell>
-                    <TableCell className="max-w-xs">
-                      <div className="truncate" title={row.expected_sql}>
-                        {truncateText(row.expected_sql, 80)}
-                      </div>
-                    </TableCell>
-                    <TableCell className="max-w-xs">
-                      <div className="truncate" title={row.generated_sql}>
-                        {truncateText(row.generated_sql, 80)}
-                      </div>
-                    </TableCell>
-                    <TableCell>{row.syntax_score?.toFixed(2)}</TableCell>
-                    <TableCell>{
-                      (typeof row.codebert_intent_score === 'number' && typeof row.codebert_sqlsim_score === 'number' && typeof row.flane5_intent_score === 'number' && typeof row.flane5_sqlsim_score === 'number')
-                        ? Math.max(
-                            (row.codebert_intent_score * 0.5 + row.codebert_sqlsim_score * 0.5),
-                            (row.flane5_intent_score * 0.5 + row.flane5_sqlsim_score * 0.5)
-                          ).toFixed(2)
-                        : '0.00'
-                    }</TableCell>
-                    <TableCell>{row.has_limit ? 'Yes' : 'No'}</TableCell>
-                    <TableCell>{row.has_offset ? 'Yes' : 'No'}</TableCell>
-                    <TableCell>{row.has_result_type ? 'Yes' : 'No'}</TableCell>
-                    <TableCell>{row.has_cte ? 'Yes' : 'No'}</TableCell>
-                    <TableCell>{row.has_order_by ? 'Yes' : 'No'}</TableCell>
-                    <TableCell>{row.has_group_by ? 'Yes' : 'No'}</TableCell>
-                    <TableCell>{row.has_join ? 'Yes' : 'No'}</TableCell>
-                    <TableCell>{row.codebert_intent_score?.toFixed(3)}</TableCell>
-                    <TableCell>{row.codebert_sqlsim_score?.toFixed(3)}</TableCell>
-                    <TableCell>{row.flane5_intent_score?.toFixed(3)}</TableCell>
-                    <TableCell>{row.flane5_sqlsim_score?.toFixed(3)}</TableCell>
-                    <TableCell>{row.ngram1_precision?.toFixed(4)}</TableCell>
-                    <TableCell>{row.ngram1_recall?.toFixed(4)}</TableCell>
-                    <TableCell>{row.ngram1_f1?.toFixed(4)}</TableCell>
-                    <TableCell>{row.ngram2_precision?.toFixed(4)}</TableCell>
-                    <TableCell>{row.ngram2_recall?.toFixed(4)}</TableCell>
-                    <TableCell>{row.ngram2_f1?.toFixed(4)}</TableCell>
-                    <TableCell>{row.edit_similarity?.toFixed(4)}</TableCell>
-                    <TableCell>{row.vocab_unknown_count}</TableCell>
-                    <TableCell>{row.vocab_unknown_ratio?.toFixed(4)}</TableCell>
-                    <TableCell>
-                      <div className="truncate" title={Array.isArray(row.unknown_tokens) ? row.unknown_tokens.join(';') : ''}>
-                        {Array.isArray(row.unknown_tokens) ? truncateText(row.unknown_tokens.join(';'), 40) : ''}
-                      </div>
-                    </TableCell>
-                    <TableCell>{row.precision?.toFixed(4)}</TableCell>
-                    <TableCell>{row.recall?.toFixed(4)}</TableCell>
-                    <TableCell>{row.f1_score?.toFixed(4)}</TableCell>
-                    <TableCell>
-                      <Badge variant="default" className="bg-success text-success-foreground">
-                        <CheckCircle2 className="w-3 h-3 mr-1" />
-                        PASS
-                      </Badge>
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant="default" className="bg-success text-success-foreground">
-                        <CheckCircle2 className="w-3 h-3 mr-1" />
-                        PASS
-                      </Badge>
-                    </TableCell>
-                    <TableCell>{row.true_label}</TableCell>
-                    <TableCell>{row.execution_accuracy?.toFixed(4)}</TableCell>
-                    <TableCell>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => onRowClick(row)}
-                        className="h-8"
-                      >
-                        <Eye className="w-4 h-4 mr-1" />
-                        View
-                      </Button>
-                    </TableCell>
-                  </TableRow>
-                  {expandedRows.has(row.id) && (
-                    <TableRow>
-                      <TableCell colSpan={38} className="bg-muted/30 p-4">
-                        <div className="space-y-3">
+              {paddingTop > 0 && <tr style={{ height: paddingTop }} />}
+              {virtualItems.map(virtualItem => {
+                const item = items[virtualItem.index];
+                const row = item.type === 'group' ? undefined : item.row;
+
+                if (item.type === 'group') {
+                  return (
+                    <TableRow
+                      key={item.key}
+                      data-index={virtualItem.index}
+                      ref={virtualizer.measureElement}
+                      className="bg-muted/50 hover:bg-muted/50"
+                    >
+                      <TableCell colSpan={columns.length + 2} className="font-semibold text-sm">
+                        <span className="sticky left-4">
+                          {formatRunLabel(item.group.runId, item.group.modelLabel)}
+                          <span className="ml-3 font-normal text-muted-foreground">
+                            {item.group.rows.length} cases · {getPassRate(item.group.rows, profile).toFixed(1)}% pass
+                          </span>
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  );
+                }
+
+                if (item.type === 'detail') {
+                  return (
+                    <TableRow key={item.key} data-index={virtualItem.index} ref={virtualizer.measureElement}>
+                      <TableCell colSpan={columns.length + 2} className="bg-muted/30 p-4">
+                        <div className="sticky left-4 max-w-[calc(100vw-8rem)] space-y-3">
                           <div>
                             <h4 className="font-semibold text-sm mb-1">Expected SQL:</h4>
-                            <code className="bg-background p-2 rounded text-xs block overflow-x-auto">
-                              {row.expected_sql}
+                            <code className={`bg-background p-2 rounded text-xs block overflow-x-auto ${sqlFormat.formatDisplay ? 'whitespace-pre' : ''}`}>
+                              {highlight(displaySql(row.expected_sql), 'expected_sql')}
                             </code>
                           </div>
                           <div>
                             <h4 className="font-semibold text-sm mb-1">Generated SQL:</h4>
-                            <code className="bg-background p-2 rounded text-xs block overflow-x-auto">
-                              {row.generated_sql}
+                            <code className={`bg-background p-2 rounded text-xs block overflow-x-auto ${sqlFormat.formatDisplay ? 'whitespace-pre' : ''}`}>
+                              {highlight(displaySql(row.generated_sql), 'generated_sql')}
                             </code>
                           </div>
                           <div className="flex gap-4 text-sm flex-wrap">
@@ -349,13 +527,61 @@ export const DataTable: React.FC<DataTableProps> = ({ data, onRowClick }) => {
                         </div>
                       </TableCell>
                     </TableRow>
-                  )}
-                </React.Fragment>
-              ))}
+                  );
+                }
+
+                const score = scoreTestCase(row, profile);
+                return (
+                  <TableRow
+                    key={item.key}
+                    data-index={virtualItem.index}
+                    ref={virtualizer.measureElement}
+                    className="group hover:bg-muted/50 cursor-pointer"
+                  >
+                    <TableCell className={`${STICKY_EXPAND} group-hover:bg-muted`}>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => toggleRowExpansion(item.key)}
+                        className="p-0 h-6 w-6"
+                      >
+                        {expandedRows.has(item.key) ? 
+                          <ChevronUp className="h-4 w-4" /> : 
+                          <ChevronDown className="h-4 w-4" />
+                        }
+                      </Button>
+                    </TableCell>
+                    {columns.map(column => (
+                      <TableCell
+                        key={column}
+                        className={`${cellClassName(column)} ${layout.widths[column] ? 'overflow-hidden' : ''}`}
+                        style={columnStyle(column)}
+                      >
+                        {renderCellContent(row, column, score)}
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onRowClick(row)}
+                        className="h-8"
+                      >
+                        <Eye className="w-4 h-4 mr-1" />
+                        View
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {paddingBottom > 0 && <tr style={{ height: paddingBottom }} />}
             </TableBody>
-          </Table>
+          </table>
+          {rows.length === 0 && (
+            <p className="p-6 text-center text-sm text-muted-foreground">No test cases match the current filters.</p>
+          )}
         </div>
       </CardContent>
     </Card>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger
+} from '@/components/ui/sheet';
+import { HardDrive, FolderOpen, Trash2, AlertCircle } from 'lucide-react';
+import { StoredDataset } from '@/types/validation';
+
+interface DatasetSidebarProps {
+  datasets: StoredDataset[];
+  activeDatasetId?: string;
+  error: string | null;
+  onOpen: (dataset: StoredDataset) => void;
+  onDelete: (dataset: StoredDataset) => void;
+}
+
+export const DatasetSidebar: React.FC<DatasetSidebarProps> = ({
+  datasets,
+  activeDatasetId,
+  error,
+  onOpen,
+  onDelete
+}) => (
+  <Sheet>
+    <SheetTrigger asChild>
+      <Button variant="outline" size="sm">
+        <HardDrive className="h-4 w-4 mr-2" />
+        Datasets
+        {datasets.length > 0 && (
+          <Badge variant="secondary" className="ml-2">{datasets.length}</Badge>
+        )}
+      </Button>
+    </SheetTrigger>
+    <SheetContent side="left" className="w-full sm:max-w-md overflow-y-auto">
+      <SheetHeader>
+        <SheetTitle>Stored Datasets</SheetTitle>
+        <SheetDescription>
+          Every loaded file is kept in this browser so it survives page reloads.
+        </SheetDescription>
+      </SheetHeader>
+
+      <div className="mt-6 space-y-2">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Local storage is unavailable: {error}</AlertDescription>
+          </Alert>
+        )}
+
+        {datasets.length === 0 && !error && (
+          <p className="text-sm text-muted-foreground">No datasets stored yet.</p>
+        )}
+
+        {datasets.map(dataset => (
+          <div
+            key={dataset.id}
+            className={`flex items-center gap-2 rounded-md border p-3 text-sm ${
+              dataset.id === activeDatasetId ? 'border-primary bg-primary/5' : ''
+            }`}
+          >
+            <div className="flex-1 min-w-0">
+              <div className="font-medium truncate">{dataset.name}</div>
+              <div className="text-xs text-muted-foreground">
+                {dataset.rowCount} cases · {new Date(dataset.createdAt).toLocaleString()}
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onOpen(dataset)}
+              disabled={dataset.id === activeDatasetId}
+            >
+              <FolderOpen className="h-4 w-4 mr-1" />
+              Open
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onDelete(dataset)} aria-label={`Delete ${dataset.name}`}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </SheetContent>
+  </Sheet>
+);
@@ -0,0 +1,172 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { DatabaseZap, Play, Upload, X } from 'lucide-react';
+import { ExecutionOptions, ExecutionResult, SQLTestCase } from '@/types/validation';
+import { DEFAULT_EXECUTION_OPTIONS } from '@/lib/result-sets';
+import { getRowKey } from '@/lib/run-tags';
+import { useExecutionWorker } from '@/hooks/use-execution-worker';
+import { ExecutionDatabase } from '@/workers/execution-protocol';
+
+interface ExecutionCheckProps {
+  data: SQLTestCase[];
+  onComplete: (results: Map<string, ExecutionResult>) => void;
+  onError: (error: string) => void;
+}
+
+interface RunSummary {
+  total: number;
+  matched: number;
+  mismatched: number;
+  expectedErrors: number;
+  generatedErrors: number;
+}
+
+const DATABASE_FILE_TYPES = '.sql,.sqlite,.sqlite3,.db';
+
+const summarize = (results: Map<string, ExecutionResult>): RunSummary => {
+  const summary: RunSummary = { total: results.size, matched: 0, mismatched: 0, expectedErrors: 0, generatedErrors: 0 };
+  results.forEach(result => {
+    if (!result.expected.ok) summary.expectedErrors++;
+    else if (!result.generated.ok) summary.generatedErrors++;
+    if (result.match === true) summary.matched++;
+    else if (result.match === false) summary.mismatched++;
+  });
+  return summary;
+};
+
+export const ExecutionCheck: React.FC<ExecutionCheckProps> = ({ data, onComplete, onError }) => {
+  const [database, setDatabase] = useState<ExecutionDatabase | null>(null);
+  const [options, setOptions] = useState<ExecutionOptions>(DEFAULT_EXECUTION_OPTIONS);
+  const [summary, setSummary] = useState<RunSummary | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { progress, run, cancel } = useExecutionWorker();
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setDatabase(file.name.toLowerCase().endsWith('.sql')
+        ? { kind: 'script', name: file.name, script: await file.text() }
+        : { kind: 'file', name: file.name, bytes: await file.arrayBuffer() });
+      setSummary(null);
+    } catch (error) {
+      onError(`Could not read ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleRun = async () => {
+    if (!database) return;
+    const cases = data.map(row => ({
+      key: getRowKey(row),
+      expectedSql: row.expected_sql,
+      generatedSql: row.generated_sql,
+    }));
+    try {
+      const results = await run(database, cases, options);
+      if (!results) return;
+      setSummary(summarize(results));
+      onComplete(results);
+    } catch (error) {
+      onError(`Execution check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const running = progress !== null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <DatabaseZap className="h-5 w-5" />
+          Execution Check
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Attach a schema with seed data, either a SQL script or a SQLite database file, to run every expected
+          and generated query in an in-browser SQLite engine. Matching result sets set Execution Accuracy to 1,
+          others to 0; cases whose expected query fails keep their uploaded value.
+        </p>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Schema &amp; seed data</Label>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={running}>
+                <Upload className="h-4 w-4 mr-2" />
+                {database ? 'Replace' : 'Attach'} database
+              </Button>
+              {database && <span className="text-sm font-mono">{database.name}</span>}
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={DATABASE_FILE_TYPES}
+              className="hidden"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          <div className="flex items-center gap-2 pb-1">
+            <Switch
+              id="execution-order-sensitive"
+              checked={options.orderSensitive}
+              onCheckedChange={(checked) => setOptions(current => ({ ...current, orderSensitive: checked }))}
+            />
+            <Label htmlFor="execution-order-sensitive" className="text-sm font-normal">Row order matters</Label>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="execution-float-tolerance" className="text-xs">Float tolerance</Label>
+            <Input
+              id="execution-float-tolerance"
+              type="number"
+              min={0}
+              step="any"
+              className="h-8 w-32"
+              value={options.floatTolerance}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (Number.isFinite(value) && value >= 0) setOptions(current => ({ ...current, floatTolerance: value }));
+              }}
+            />
+          </div>
+
+          <Button size="sm" onClick={handleRun} disabled={!database || running || data.length === 0}>
+            <Play className="h-4 w-4 mr-2" />
+            Run {data.length} test cases
+          </Button>
+        </div>
+
+        {running && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">Running queries ({Math.round(progress * 100)}%)</span>
+              <Button variant="ghost" size="sm" onClick={cancel}>
+                <X className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
+            <Progress value={progress * 100} className="h-2" />
+          </div>
+        )}
+
+        {summary && !running && (
+          <div className="flex flex-wrap gap-4 text-sm">
+            <span><strong className="text-success">{summary.matched}</strong> matched</span>
+            <span><strong className="text-error">{summary.mismatched}</strong> differ</span>
+            <span><strong>{summary.generatedErrors}</strong> generated queries failed</span>
+            <span><strong>{summary.expectedErrors}</strong> expected queries failed (not scored)</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,264 @@
+import React, { useMemo, useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, ArrowLeftRight } from 'lucide-react';
+import {
+  ExecutionResult,
+  QueryOutcome,
+  QueryResult,
+  ResultRowDiff,
+  ResultRowStatus,
+  ResultSetDiff,
+  ResultValue
+} from '@/types/validation';
+import { diffResultSets, isPositionalAlignment } from '@/lib/result-sets';
+import { cn } from '@/lib/utils';
+
+interface ExecutionResultViewProps {
+  result: ExecutionResult;
+}
+
+// Expected-only rows read as deletions and generated-only rows as insertions, as in the SQL diff
+const ROW_STYLES: Record<ResultRowStatus, string> = {
+  match: '',
+  changed: 'bg-warning/10',
+  missing: 'bg-error/10',
+  extra: 'bg-success/10',
+};
+
+const STATUS_LABELS: Record<ResultRowStatus, string> = {
+  match: 'matched',
+  changed: 'changed',
+  missing: 'missing',
+  extra: 'extra',
+};
+
+const formatValue = (value: ResultValue) => (value === null ? 'NULL' : String(value));
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const MatchBadge: React.FC<{ match: boolean | null }> = ({ match }) => {
+  if (match === null) return <Badge variant="outline">Not scored</Badge>;
+  return match
+    ? <Badge className="bg-success text-success-foreground">Results match</Badge>
+    : <Badge variant="destructive">Results differ</Badge>;
+};
+
+const Callout: React.FC<{ children: React.ReactNode; tone?: 'warning' | 'info' }> = ({ children, tone = 'warning' }) => (
+  <Alert className={tone === 'warning' ? 'border-warning/50 bg-warning/5' : 'border-info/50 bg-info/5'}>
+    {tone === 'warning'
+      ? <AlertTriangle className="h-4 w-4 text-warning" />
+      : <ArrowLeftRight className="h-4 w-4 text-info" />}
+    <AlertDescription>{children}</AlertDescription>
+  </Alert>
+);
+
+interface ResultTableProps {
+  title: string;
+  titleClassName: string;
+  outcome: QueryOutcome;
+  rowDiffs?: ResultRowDiff[];
+  // Columns with no counterpart in the other result
+  unpairedColumns?: Set<number>;
+  // The other result's rows, to show what a changed cell was compared with
+  otherRows?: ResultValue[][];
+  otherColumnOf?: (column: number) => number;
+  onlyDifferences: boolean;
+}
+
+const ResultTable: React.FC<ResultTableProps> = ({
+  title,
+  titleClassName,
+  outcome,
+  rowDiffs,
+  unpairedColumns,
+  otherRows,
+  otherColumnOf,
+  onlyDifferences
+}) => (
+  <div className="space-y-2 min-w-0">
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <span className={`font-semibold ${titleClassName}`}>{title}</span>
+      {outcome.ok && (
+        <span className="text-xs text-muted-foreground">
+          {plural(outcome.result.rowCount, 'row')}
+          {outcome.result.rows.length < outcome.result.rowCount && ` (first ${outcome.result.rows.length} shown)`}
+        </span>
+      )}
+    </div>
+    {'error' in outcome ? (
+      <p className="rounded-md border border-error/50 bg-error/10 p-3 font-mono text-xs text-error break-words">
+        {outcome.error}
+      </p>
+    ) : outcome.result.columns.length === 0 ? (
+      <p className="text-sm text-muted-foreground">The query returned no result set.</p>
+    ) : (
+      <div className="max-h-96 overflow-auto rounded-md border">
+        <Table className="font-mono text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-8 w-10 text-right">#</TableHead>
+              {outcome.result.columns.map((column, index) => (
+                <TableHead
+                  key={index}
+                  className={cn('h-8 whitespace-nowrap', unpairedColumns?.has(index) && 'bg-warning/20')}
+                  title={unpairedColumns?.has(index) ? 'No matching column in the other result' : undefined}
+                >
+                  {column}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {outcome.result.rows.map((row, rowIndex) => {
+              const diff = rowDiffs?.[rowIndex];
+              if (onlyDifferences && diff?.status === 'match') return null;
+              const paired = diff?.pairedIndex !== undefined ? otherRows?.[diff.pairedIndex] : undefined;
+              return (
+                <TableRow
+                  key={rowIndex}
+                  className={cn(diff && ROW_STYLES[diff.status])}
+                  title={diff && diff.status !== 'match' ? STATUS_LABELS[diff.status] : undefined}
+                >
+                  <TableCell className="py-1 text-right text-muted-foreground">{rowIndex + 1}</TableCell>
+                  {row.map((value, index) => {
+                    const changed = diff?.status === 'changed' && diff.cells[index];
+                    const otherColumn = otherColumnOf?.(index) ?? -1;
+                    const otherValue = changed && paired && otherColumn !== -1 ? paired[otherColumn] : undefined;
+                    return (
+                      <TableCell
+                        key={index}
+                        className={cn(
+                          'py-1 whitespace-nowrap',
+                          value === null && 'text-muted-foreground italic',
+                          changed && 'bg-warning/30 font-semibold'
+                        )}
+                        title={otherValue !== undefined ? `Other result: ${formatValue(otherValue)}` : undefined}
+                      >
+                        {formatValue(value)}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    )}
+  </div>
+);
+
+const DiffCallouts: React.FC<{ expected: QueryResult; generated: QueryResult; diff: ResultSetDiff }> = ({
+  expected,
+  generated,
+  diff
+}) => {
+  const rowDelta = generated.rowCount - expected.rowCount;
+  const columnsMatch = expected.columns.length === generated.columns.length;
+  const truncated = expected.rows.length < expected.rowCount || generated.rows.length < generated.rowCount;
+  return (
+    <>
+      {rowDelta !== 0 && (
+        <Callout>
+          <strong>Row count mismatch:</strong> the expected query returns {plural(expected.rowCount, 'row')} and the
+          generated query {plural(generated.rowCount, 'row')} ({Math.abs(rowDelta)} {rowDelta > 0 ? 'more' : 'fewer'}).
+        </Callout>
+      )}
+      {!columnsMatch && (
+        <Callout>
+          <strong>Column count mismatch:</strong> {plural(expected.columns.length, 'expected column')} vs{' '}
+          {plural(generated.columns.length, 'generated column')}. Columns are paired by name where possible;
+          unpaired columns are highlighted.
+        </Callout>
+      )}
+      {columnsMatch && !isPositionalAlignment(diff.columnMap) && (
+        <Callout tone="info">
+          The generated query returns the same columns in a different order; they are compared by name.
+        </Callout>
+      )}
+      {truncated && (
+        <p className="text-xs text-muted-foreground">
+          Only the displayed rows are diffed below; the match above compares the full results.
+        </p>
+      )}
+    </>
+  );
+};
+
+export const ExecutionResultView: React.FC<ExecutionResultViewProps> = ({ result }) => {
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const expected = 'result' in result.expected ? result.expected.result : null;
+  const generated = 'result' in result.generated ? result.generated.result : null;
+  const { options } = result;
+
+  const diff = useMemo(
+    () => (expected && generated ? diffResultSets(expected, generated, options) : null),
+    [expected, generated, options]
+  );
+
+  const unpairedExpected = diff && new Set(diff.columnMap.flatMap((index, i) => (index === -1 ? [i] : [])));
+  const unpairedGenerated = diff && generated && new Set(
+    generated.columns.flatMap((_, j) => (diff.columnMap.includes(j) ? [] : [j]))
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <MatchBadge match={result.match} />
+        {result.match === null && (
+          <span className="text-sm text-muted-foreground">
+            The expected query failed, so there is no reference result to compare against.
+          </span>
+        )}
+        <span className="text-xs text-muted-foreground">
+          Rows compared {options.orderSensitive ? 'in order' : 'in any order'}, numbers within {options.floatTolerance}
+        </span>
+        {diff && (
+          <div className="ml-auto flex items-center gap-2">
+            <Switch id="results-only-differences" checked={onlyDifferences} onCheckedChange={setOnlyDifferences} />
+            <Label htmlFor="results-only-differences" className="text-sm font-normal">Only differences</Label>
+          </div>
+        )}
+      </div>
+
+      {diff && (
+        <>
+          <DiffCallouts expected={expected} generated={generated} diff={diff} />
+          <div className="flex flex-wrap gap-4 text-xs">
+            <span>{plural(diff.counts.match, 'matching row')}</span>
+            <span className="rounded-sm bg-warning/30 px-1">{diff.counts.changed} changed</span>
+            <span className="rounded-sm bg-error/25 px-1">{diff.counts.missing} missing from generated</span>
+            <span className="rounded-sm bg-success/25 px-1">{diff.counts.extra} extra in generated</span>
+          </div>
+        </>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+        <ResultTable
+          title="Expected Result"
+          titleClassName="text-success"
+          outcome={result.expected}
+          rowDiffs={diff?.expectedRows}
+          unpairedColumns={unpairedExpected ?? undefined}
+          otherRows={generated?.rows}
+          otherColumnOf={diff ? (column) => diff.columnMap[column] : undefined}
+          onlyDifferences={onlyDifferences}
+        />
+        <ResultTable
+          title="Generated Result"
+          titleClassName="text-primary"
+          outcome={result.generated}
+          rowDiffs={diff?.generatedRows}
+          unpairedColumns={unpairedGenerated ?? undefined}
+          otherRows={expected?.rows}
+          otherColumnOf={diff ? (column) => diff.columnMap.indexOf(column) : undefined}
+          onlyDifferences={onlyDifferences}
+        />
+      </div>
+    </div>
+  );
+};
@@ -2,40 +2,33 @@ import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Download, FileText, Table } from 'lucide-react';
-import { SQLTestCase } from '@/types/validation';
+import { SQLTestCase, ScoringProfile } from '@/types/validation';
 import Papa from 'papaparse';
+import { getScoreGrade, isPassing, scoreTestCase, summarizeResults } from '@/lib/scoring';
+import { formatRunLabel, summarizeByRun } from '@/lib/run-tags';
 
 interface ExportOptionsProps {
   data: SQLTestCase[];
+  // Rows as currently filtered and sorted in the DataTable
   filteredData: SQLTestCase[];
+  // Visible table columns, in display order; applied to filtered exports
+  columns: (keyof SQLTestCase)[];
+  profile: ScoringProfile;
 }
 
-export const ExportOptions: React.FC<ExportOptionsProps> = ({ data, filteredData }) => {
-  // Helper to get the calculated semantic score for a row
-  const getCalculatedSemanticScore = (row: SQLTestCase) => {
-    if (
-      typeof row.codebert_intent_score === 'number' &&
-      typeof row.codebert_sqlsim_score === 'number' &&
-      typeof row.flane5_intent_score === 'number' &&
-      typeof row.flane5_sqlsim_score === 'number'
-    ) {
-      const codebertScore = row.codebert_intent_score * 0.5 + row.codebert_sqlsim_score * 0.5;
-      const flane5Score = row.flane5_intent_score * 0.5 + row.flane5_sqlsim_score * 0.5;
-      return Math.max(codebertScore, flane5Score);
-    }
-    return 0;
-  };
+export const ExportOptions: React.FC<ExportOptionsProps> = ({ data, filteredData, columns, profile }) => {
+  // When exporting, replace semantic_score with the calculated value and,
+  // if a column set is given, keep only those fields in that order
+  const prepareExportData = (data: SQLTestCase[], exportColumns?: (keyof SQLTestCase)[]) =>
+    data.map(row => {
+      const scored = { ...row, semantic_score: scoreTestCase(row, profile).semanticScore };
+      if (!exportColumns) return scored;
+      return Object.fromEntries(exportColumns.map(column => [column, scored[column]]));
+    });
 
-  // When exporting, replace semantic_score with the calculated value
-  const prepareExportData = (data: SQLTestCase[]) =>
-    data.map(row => ({
-      ...row,
-      semantic_score: getCalculatedSemanticScore(row)
-    }));
-
-  const downloadCSV = (rows: SQLTestCase[], filename: string) => {
-    const exportRows = prepareExportData(rows);
-    const csv = Papa.unparse(exportRows);
+  const downloadCSV = (rows: SQLTestCase[], filename: string, exportColumns?: (keyof SQLTestCase)[]) => {
+    const exportRows = prepareExportData(rows, exportColumns);
+    const csv = Papa.unparse(exportRows, exportColumns ? { columns: exportColumns } : undefined);
     const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
     const link = document.createElement('a');
     link.href = URL.createObjectURL(blob);
@@ -45,8 +38,8 @@ export const ExportOptions: React.FC<ExportOptionsProps> = ({ data, filteredData
     document.body.removeChild(link);
   };
 
-  const downloadJSON = (exportData: SQLTestCase[], filename: string) => {
-    const json = JSON.stringify(exportData, null, 2);
+  const downloadJSON = (exportData: SQLTestCase[], filename: string, exportColumns?: (keyof SQLTestCase)[]) => {
+    const json = JSON.stringify(prepareExportData(exportData, exportColumns), null, 2);
     const blob = new Blob([json], { type: 'application/json;charset=utf-8;' });
     const link = document.createElement('a');
     
@@ -62,34 +55,48 @@ export const ExportOptions: React.FC<ExportOptionsProps> = ({ data, filteredData
   };
 
   const generateSummaryReport = () => {
-    const totalTests = data.length;
-    const passedTests = data.filter(d => (d.codebert_match || d.flane5_match) && d.semantic_score > 0.75).length;
-    const avgSemantic = data.reduce((sum, d) => sum + d.semantic_score, 0) / totalTests;
-    const avgSyntax = data.reduce((sum, d) => sum + d.syntax_score, 0) / totalTests;
-    
+    const summary = summarizeResults(data, profile);
+    const totalTests = summary.totalTests;
+    const scores = data.map(d => scoreTestCase(d, profile));
+    const passedTests = scores.filter(s => s.passed).length;
+    const codebertMatches = scores.filter(s => s.codebertPass).length;
+    const flane5Matches = scores.filter(s => s.flane5Pass).length;
+    const bothMatches = scores.filter(s => s.codebertPass && s.flane5Pass).length;
+    const gradeCount = (grade: string) => scores.filter(s => getScoreGrade(s.semanticScore) === grade).length;
+    const runSummaries = summarizeByRun(data, profile);
+    const runBreakdown = runSummaries.length > 1 ? `
+BY RUN:
+${runSummaries.map(({ runId, modelLabel, summary: run }) =>
+  `- ${formatRunLabel(runId, modelLabel)}: ${run.totalTests} tests, ${run.passRate.toFixed(1)}% pass, ` +
+  `avg semantic ${run.averageSemanticScore.toFixed(3)}, avg syntax ${run.averageSyntaxScore.toFixed(3)}`
+).join('\n')}
+` : '';
+
     const report = `SQL Validation Pipeline Report
 Generated: ${new Date().toISOString()}
+Scoring Profile: ${profile.name} (pass threshold ${profile.passThreshold})
 
 SUMMARY STATISTICS:
 - Total Test Cases: ${totalTests}
-- Overall Pass Rate: ${((passedTests / totalTests) * 100).toFixed(1)}%
-- Average Semantic Score: ${avgSemantic.toFixed(3)}
-- Average Syntax Score: ${avgSyntax.toFixed(3)}
+- Overall Pass Rate: ${summary.passRate.toFixed(1)}%
+- Average Semantic Score: ${summary.averageSemanticScore.toFixed(3)}
+- Average Syntax Score: ${summary.averageSyntaxScore.toFixed(3)}
 
 DETAILED BREAKDOWN:
-- CodeBERT Matches: ${data.filter(d => d.codebert_match).length} (${((data.filter(d => d.codebert_match).length / totalTests) * 100).toFixed(1)}%)
-- FLANE5 Matches: ${data.filter(d => d.flane5_match).length} (${((data.filter(d => d.flane5_match).length / totalTests) * 100).toFixed(1)}%)
-- Both Matches: ${passedTests} (${((passedTests / totalTests) * 100).toFixed(1)}%)
+- Passed: ${passedTests} (${summary.passRate.toFixed(1)}%)
+- CodeBERT Matches: ${codebertMatches} (${summary.codebertPassRate.toFixed(1)}%)
+- FLANE5 Matches: ${flane5Matches} (${summary.flane5PassRate.toFixed(1)}%)
+- Both Matches: ${bothMatches} (${((bothMatches / totalTests) * 100).toFixed(1)}%)
 
 SCORE DISTRIBUTION:
-- Excellent (≥0.9): ${data.filter(d => d.semantic_score >= 0.9).length} tests
-- Good (0.7-0.9): ${data.filter(d => d.semantic_score >= 0.7 && d.semantic_score < 0.9).length} tests
-- Fair (0.5-0.7): ${data.filter(d => d.semantic_score >= 0.5 && d.semantic_score < 0.7).length} tests
-- Poor (<0.5): ${data.filter(d => d.semantic_score < 0.5).length} tests
-
+- Excellent (≥0.9): ${gradeCount('Excellent')} tests
+- Good (0.7-0.9): ${gradeCount('Good')} tests
+- Fair (0.5-0.7): ${gradeCount('Fair')} tests
+- Poor (<0.5): ${gradeCount('Poor')} tests
+${runBreakdown}
 FAILED TESTS:
-${data.filter(d => !((d.codebert_match || d.flane5_match) && d.semantic_score > 0.75)).map(test => 
-  `- ${test.id}: ${test.user_prompt.substring(0, 60)}...`
+${data.filter(d => !isPassing(d, profile)).map(test => 
+  `- ${test.run_id ? `[${test.run_id}] ` : ''}${test.id}: ${test.user_prompt.substring(0, 60)}...`
 ).join('\n')}
 `;
 
@@ -145,11 +152,14 @@ ${data.filter(d => !((d.codebert_match || d.flane5_match) && d.semantic_score >
           {/* Export Filtered Data */}
           <div className="space-y-2">
             <h3 className="font-semibold text-sm">Filtered Data ({filteredData.length} records)</h3>
+            <p className="text-xs text-muted-foreground">
+              Current table view: {columns.length} columns, in sort order
+            </p>
             <div className="flex flex-col gap-2">
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => downloadCSV(filteredData, `sql_validation_filtered_${new Date().toISOString().split('T')[0]}.csv`)}
+                onClick={() => downloadCSV(filteredData, `sql_validation_filtered_${new Date().toISOString().split('T')[0]}.csv`, columns)}
                 className="w-full"
                 disabled={filteredData.length === 0}
               >
@@ -159,7 +169,7 @@ ${data.filter(d => !((d.codebert_match || d.flane5_match) && d.semantic_score >
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => downloadJSON(filteredData, `sql_validation_filtered_${new Date().toISOString().split('T')[0]}.json`)}
+                onClick={() => downloadJSON(filteredData, `sql_validation_filtered_${new Date().toISOString().split('T')[0]}.json`, columns)}
                 className="w-full"
                 disabled={filteredData.length === 0}
               >
@@ -177,7 +187,7 @@ ${data.filter(d => !((d.codebert_match || d.flane5_match) && d.semantic_score >
                 variant="outline"
                 size="sm"
                 onClick={() => {
-                  const failedTests = data.filter(d => !d.codebert_match || !d.flane5_match);
+                  const failedTests = data.filter(d => !isPassing(d, profile));
                   downloadCSV(failedTests, `sql_validation_failures_${new Date().toISOString().split('T')[0]}.csv`);
                 }}
                 className="w-full"
@@ -201,7 +211,9 @@ ${data.filter(d => !((d.codebert_match || d.flane5_match) && d.semantic_score >
         <div className="mt-4 p-3 bg-muted rounded-md">
           <p className="text-sm text-muted-foreground">
             <strong>Export Options:</strong> Download your data in CSV or JSON format. 
-            The summary report includes key statistics and failed test cases for quick analysis.
+            Filtered exports match the table's current filters, sort order and visible columns.
+            The summary report includes key statistics, a per-run breakdown when several runs are loaded,
+            and failed test cases for quick analysis.
           </p>
         </div>
       </CardContent>
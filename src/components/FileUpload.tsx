@@ -1,82 +1,210 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import Papa from 'papaparse';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Upload, FileText, AlertCircle } from 'lucide-react';
-import { SQLTestCase } from '@/types/validation';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Upload, FileText, AlertCircle, X, Trash2, Link, RefreshCw } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { ColumnMapping, ImportReport, SQLTestCase } from '@/types/validation';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ImportReportDialog } from './ImportReportDialog';
+import { ColumnMappingDialog, ColumnMappingRequest } from './ColumnMappingDialog';
+import { getAcceptedFileTypes, getRegisteredParsers } from '@/lib/parsers';
+import { getDefaultRunName, tagTestCases } from '@/lib/run-tags';
+import { useImportWorker } from '@/hooks/use-import-worker';
+import { useRemoteFile } from '@/hooks/use-remote-file';
+import { ImportPhase } from '@/workers/import-protocol';
+
+const SUPPORTED_LABELS = getRegisteredParsers().map(parser => parser.label).join(', ');
 
 interface FileUploadProps {
-  onDataLoad: (data: SQLTestCase[]) => void;
+  onDataLoad: (data: SQLTestCase[], fileName?: string) => void;
   onError: (error: string) => void;
+  // Fetched and imported on mount, e.g. from a `?src=` deep link
+  initialUrl?: string;
+}
+
+type QueueStatus = 'pending' | 'importing' | 'done' | 'skipped' | 'failed';
+
+interface QueuedFile {
+  key: string;
+  file: File;
+  runName: string;
+  modelLabel: string;
+  status: QueueStatus;
+  rowCount?: number;
+  error?: string;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoad, onError }) => {
+const PHASE_LABELS: Record<ImportPhase, string> = {
+  reading: 'Reading file',
+  validating: 'Validating rows',
+};
+
+const STATUS_STYLES: Record<QueueStatus, string> = {
+  pending: 'bg-muted text-muted-foreground',
+  importing: 'bg-info text-info-foreground',
+  done: 'bg-success text-success-foreground',
+  skipped: 'bg-warning text-warning-foreground',
+  failed: 'bg-error text-error-foreground',
+};
+
+let queueCounter = 0;
+
+export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoad, onError, initialUrl }) => {
   const [uploading, setUploading] = useState(false);
+  const [urlInput, setUrlInput] = useState(initialUrl ?? '');
+  const [remoteUrl, setRemoteUrl] = useState<string | null>(initialUrl || null);
+  const [queue, setQueue] = useState<QueuedFile[]>([]);
+  const [pendingReport, setPendingReport] = useState<ImportReport | null>(null);
+  const [pendingMapping, setPendingMapping] = useState<ColumnMappingRequest | null>(null);
+  // The dialogs answer through these so a queued import can await the user's decision
+  const mappingResolverRef = useRef<((mapping: ColumnMapping | null) => void) | null>(null);
+  const reportResolverRef = useRef<((accepted: boolean) => void) | null>(null);
+  const cancelledRef = useRef(false);
+  const { progress, start, applyMapping, cancel } = useImportWorker();
+  const remote = useRemoteFile(remoteUrl);
+
+  const requestMapping = useCallback((request: ColumnMappingRequest) =>
+    new Promise<ColumnMapping | null>(resolve => {
+      mappingResolverRef.current = resolve;
+      setPendingMapping(request);
+    }), []);
+
+  const requestReview = useCallback((report: ImportReport) =>
+    new Promise<boolean>(resolve => {
+      reportResolverRef.current = resolve;
+      setPendingReport(report);
+    }), []);
+
+  const resolveMapping = (mapping: ColumnMapping | null) => {
+    mappingResolverRef.current?.(mapping);
+    mappingResolverRef.current = null;
+    setPendingMapping(null);
+  };
+
+  const resolveReview = (accepted: boolean) => {
+    reportResolverRef.current?.(accepted);
+    reportResolverRef.current = null;
+    setPendingReport(null);
+  };
 
-  const processFile = useCallback(async (file: File) => {
+  // Parsing, validation and normalization run in a worker so large files keep the tab responsive.
+  // Clean files load straight away; anything with issues waits for the user to review the report.
+  // Resolves to null when the user cancels or rejects the file.
+  const importFile = useCallback(async (file: File): Promise<SQLTestCase[] | null> => {
+    let result = await start(file);
+    if (result.type === 'needs-mapping') {
+      const mapping = await requestMapping({ fileName: file.name, headers: result.headers, sampleRow: result.sampleRow });
+      if (!mapping) {
+        cancel();
+        return null;
+      }
+      result = await applyMapping(mapping);
+    }
+    if (result.type !== 'report') return null;
+
+    const { report } = result;
+    if (report.issues.length === 0 && report.missingColumns.length === 0) return report.accepted;
+    return (await requestReview(report)) ? report.accepted : null;
+  }, [start, applyMapping, cancel, requestMapping, requestReview]);
+
+  const importSingleFile = useCallback(async (file: File) => {
     setUploading(true);
-    
     try {
-      const fileContent = await file.text();
-      
-      if (file.name.endsWith('.json')) {
-        // Parse JSON file
-        const jsonData = JSON.parse(fileContent);
-        const testCases = Array.isArray(jsonData) ? jsonData : [jsonData];
-        onDataLoad(testCases);
-      } else if (file.name.endsWith('.csv')) {
-        // Parse CSV file
-        Papa.parse(fileContent, {
-          header: true,
-          skipEmptyLines: true,
-          transform: (value, field) => {
-            // Convert string booleans to actual booleans
-            if (field === 'codebert_match' || field === 'flane5_match' || field === 'exact_match') {
-              return value.toLowerCase() === 'true';
-            }
-            // Convert numeric fields
-            if (field === 'syntax_score' || field === 'semantic_score' || field === 'n_gram_score' || 
-                field === 'bleu_score' || field === 'rouge_score' || field === 'execution_accuracy') {
-              return parseFloat(value) || 0;
-            }
-            return value;
-          },
-          complete: (results) => {
-            if (results.errors.length > 0) {
-              onError(`CSV parsing errors: ${results.errors.map(e => e.message).join(', ')}`);
-              return;
-            }
-            onDataLoad(results.data as SQLTestCase[]);
-          },
-          error: (error) => {
-            onError(`Failed to parse CSV: ${error.message}`);
-          }
-        });
-      } else {
-        onError('Unsupported file type. Please upload a CSV or JSON file.');
-      }
+      const rows = await importFile(file);
+      if (rows) onDataLoad(rows, file.name);
     } catch (error) {
       onError(`Failed to process file: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setUploading(false);
     }
-  }, [onDataLoad, onError]);
+  }, [importFile, onDataLoad, onError]);
+
+  // A downloaded file goes through the same worker, mapping and report steps as a dropped one
+  useEffect(() => {
+    if (!remote.data || !remoteUrl) return;
+    setRemoteUrl(null);
+    importSingleFile(remote.data);
+  }, [remote.data, remoteUrl, importSingleFile]);
+
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const url = urlInput.trim();
+    if (!url) return;
+    if (url === remoteUrl) remote.refetch();
+    else setRemoteUrl(url);
+  };
+
+  const updateQueued = (key: string, changes: Partial<QueuedFile>) =>
+    setQueue(prev => prev.map(entry => entry.key === key ? { ...entry, ...changes } : entry));
+
+  const queuedForImport = queue.filter(entry => entry.status !== 'done');
+  const runNames = queuedForImport.map(entry => entry.runName.trim());
+  const duplicateRunNames = runNames.filter((name, index) => name && runNames.indexOf(name) !== index);
+  const hasBlankRunName = runNames.some(name => !name);
+
+  // Files import one after another, each tagged with its run name, and load together as one dataset
+  const importQueue = async () => {
+    setUploading(true);
+    cancelledRef.current = false;
+    const taggedRows: SQLTestCase[] = [];
+    const loadedRuns: string[] = [];
+
+    for (const entry of queuedForImport) {
+      if (cancelledRef.current) {
+        updateQueued(entry.key, { status: 'skipped' });
+        continue;
+      }
+      updateQueued(entry.key, { status: 'importing', error: undefined });
+      try {
+        const rows = await importFile(entry.file);
+        if (!rows) {
+          updateQueued(entry.key, { status: 'skipped' });
+          continue;
+        }
+        const runId = entry.runName.trim();
+        tagTestCases(rows, runId, entry.modelLabel.trim()).forEach(row => taggedRows.push(row));
+        loadedRuns.push(runId);
+        updateQueued(entry.key, { status: 'done', rowCount: rows.length });
+      } catch (error) {
+        updateQueued(entry.key, { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    setUploading(false);
+    if (loadedRuns.length > 0) onDataLoad(taggedRows, loadedRuns.join(' + '));
+  };
+
+  const handleCancel = () => {
+    cancelledRef.current = true;
+    cancel();
+  };
 
+  // A single file dropped on an empty queue imports right away, untagged
   const onDrop = useCallback((acceptedFiles: File[]) => {
-    if (acceptedFiles.length > 0) {
-      processFile(acceptedFiles[0]);
+    if (acceptedFiles.length === 0) return;
+    if (acceptedFiles.length === 1 && queue.length === 0) {
+      importSingleFile(acceptedFiles[0]);
+      return;
     }
-  }, [processFile]);
+    setQueue(prev => [
+      ...prev,
+      ...acceptedFiles.map(file => ({
+        key: `file-${++queueCounter}`,
+        file,
+        runName: getDefaultRunName(file.name),
+        modelLabel: '',
+        status: 'pending' as const,
+      })),
+    ]);
+  }, [queue.length, importSingleFile]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'text/csv': ['.csv'],
-      'application/json': ['.json']
-    },
-    multiple: false
+    accept: getAcceptedFileTypes(),
+    multiple: true
   });
 
   return (
@@ -92,11 +220,11 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoad, onError }) =
           {...getRootProps()}
           className={`
             border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors
-            ${isDragActive 
-              ? 'border-primary bg-primary/5' 
+            ${isDragActive
+              ? 'border-primary bg-primary/5'
               : 'border-border hover:border-primary/50 hover:bg-muted/30'
             }
-            ${uploading ? 'pointer-events-none opacity-50' : ''}
+            ${uploading || remote.isFetching ? 'pointer-events-none opacity-50' : ''}
           `}
         >
           <input {...getInputProps()} />
@@ -104,26 +232,154 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoad, onError }) =
             <FileText className="h-12 w-12 text-muted-foreground" />
             <div>
               <p className="text-lg font-medium">
-                {isDragActive ? 'Drop your file here' : 'Upload SQL validation results'}
+                {isDragActive ? 'Drop your files here' : 'Upload SQL validation results'}
               </p>
               <p className="text-sm text-muted-foreground mt-1">
-                Drag & drop your CSV or JSON file, or click to browse
+                Drag & drop one or more {SUPPORTED_LABELS} files, or click to browse.
+                Several files are queued so each can be tagged as a run.
               </p>
             </div>
             <Button variant="outline" disabled={uploading}>
-              {uploading ? 'Processing...' : 'Choose File'}
+              {uploading ? 'Processing...' : 'Choose Files'}
             </Button>
           </div>
         </div>
-        
+
+        <form onSubmit={handleUrlSubmit} className="mt-4 flex gap-2">
+          <Input
+            value={urlInput}
+            onChange={(e) => setUrlInput(e.target.value)}
+            placeholder="Or load from URL, e.g. https://ci.example.com/artifacts/results.csv"
+            disabled={uploading || remote.isFetching}
+            aria-label="Results URL"
+          />
+          {remote.isFetching ? (
+            <Button type="button" variant="outline" onClick={() => setRemoteUrl(null)}>
+              <X className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+          ) : (
+            <Button type="submit" variant="outline" disabled={uploading || !urlInput.trim()}>
+              <Link className="h-4 w-4 mr-2" />
+              Load from URL
+            </Button>
+          )}
+        </form>
+        {remote.isFetching && (
+          <p className="mt-2 text-sm text-muted-foreground animate-pulse">Downloading {remoteUrl}...</p>
+        )}
+        {remote.isError && !remote.isFetching && (
+          <Alert variant="destructive" className="mt-2">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription className="flex items-center justify-between gap-2">
+              <span>{remote.error.message}</span>
+              <Button variant="ghost" size="sm" onClick={() => remote.refetch()}>
+                <RefreshCw className="h-4 w-4 mr-1" />
+                Retry
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {queue.length > 0 && (
+          <div className="mt-4 space-y-2">
+            {queue.map(entry => (
+              <div key={entry.key} className="flex flex-wrap items-center gap-2 rounded-md border p-2 text-sm">
+                <div className="flex-1 min-w-40">
+                  <div className="font-medium truncate">{entry.file.name}</div>
+                  {entry.error && <div className="text-xs text-error">{entry.error}</div>}
+                </div>
+                <Input
+                  className="w-40 h-8"
+                  value={entry.runName}
+                  onChange={(e) => updateQueued(entry.key, { runName: e.target.value })}
+                  placeholder="Run name"
+                  disabled={uploading || entry.status === 'done'}
+                  aria-label={`Run name for ${entry.file.name}`}
+                />
+                <Input
+                  className="w-40 h-8"
+                  value={entry.modelLabel}
+                  onChange={(e) => updateQueued(entry.key, { modelLabel: e.target.value })}
+                  placeholder="Model label (optional)"
+                  disabled={uploading || entry.status === 'done'}
+                  aria-label={`Model label for ${entry.file.name}`}
+                />
+                <Badge className={STATUS_STYLES[entry.status]}>
+                  {entry.status === 'done' ? `${entry.rowCount} rows` : entry.status}
+                </Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setQueue(prev => prev.filter(queued => queued.key !== entry.key))}
+                  disabled={uploading}
+                  aria-label={`Remove ${entry.file.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {(duplicateRunNames.length > 0 || hasBlankRunName) && (
+              <p className="text-sm text-error">
+                {hasBlankRunName
+                  ? 'Every file needs a run name.'
+                  : `Run names must be unique: ${[...new Set(duplicateRunNames)].join(', ')}`}
+              </p>
+            )}
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={importQueue}
+                disabled={uploading || queuedForImport.length === 0 || duplicateRunNames.length > 0 || hasBlankRunName}
+              >
+                Import {queuedForImport.length} {queuedForImport.length === 1 ? 'File' : 'Files'}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setQueue([])} disabled={uploading}>
+                Clear Queue
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {progress && (
+          <div className="mt-4 space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                {PHASE_LABELS[progress.phase]}
+                {progress.fraction !== undefined && ` (${Math.round(progress.fraction * 100)}%)`}
+              </span>
+              <Button variant="ghost" size="sm" onClick={handleCancel}>
+                <X className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
+            <Progress
+              value={progress.fraction !== undefined ? progress.fraction * 100 : 100}
+              className={`h-2 ${progress.fraction === undefined ? 'animate-pulse' : ''}`}
+            />
+          </div>
+        )}
+
         <Alert className="mt-4">
           <AlertCircle className="h-4 w-4" />
           <AlertDescription>
-            Expected format: CSV/JSON with columns: id, user_prompt, expected_sql, generated_sql, 
+            Expected format: {SUPPORTED_LABELS} with columns: id, user_prompt, expected_sql, generated_sql,
             syntax_score, semantic_score, codebert_match, flane5_match, true_label
           </AlertDescription>
         </Alert>
+
+        <ColumnMappingDialog
+          request={pendingMapping}
+          onConfirm={resolveMapping}
+          onCancel={() => resolveMapping(null)}
+        />
+
+        <ImportReportDialog
+          report={pendingReport}
+          onAccept={() => resolveReview(true)}
+          onCancel={() => resolveReview(false)}
+        />
       </CardContent>
     </Card>
   );
-};
\ No newline at end of file
+};
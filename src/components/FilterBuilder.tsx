@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X, SlidersHorizontal } from 'lucide-react';
+import {
+  BooleanField,
+  FilterCombinator,
+  FilterCondition,
+  FilterGroup,
+  NumericField
+} from '@/types/validation';
+import { BOOLEAN_FIELDS, FIELD_LABELS, NUMERIC_FIELDS, UNBOUNDED_FIELDS } from '@/lib/fields';
+import { createFilterGroup, createFilterId, describeCondition } from '@/lib/filters';
+
+interface FilterBuilderProps {
+  groups: FilterGroup[];
+  groupCombinator: FilterCombinator;
+  onChange: (groups: FilterGroup[], groupCombinator: FilterCombinator) => void;
+}
+
+type ConditionKind = FilterCondition['kind'];
+
+const NEW_GROUP = 'new';
+
+export const FilterBuilder: React.FC<FilterBuilderProps> = ({ groups, groupCombinator, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<ConditionKind>('numeric');
+  const [numericField, setNumericField] = useState<NumericField>('semantic_score');
+  const [booleanField, setBooleanField] = useState<BooleanField>('has_join');
+  const [min, setMin] = useState('0');
+  const [max, setMax] = useState('1');
+  const [flag, setFlag] = useState<'yes' | 'no'>('yes');
+  const [outcome, setOutcome] = useState<'pass' | 'fail'>('fail');
+  const [targetGroup, setTargetGroup] = useState<string>(NEW_GROUP);
+
+  const activeGroups = groups.filter(group => group.conditions.length > 0);
+
+  const buildCondition = (): FilterCondition | null => {
+    const id = createFilterId();
+    if (kind === 'numeric') {
+      const lower = parseFloat(min);
+      const upper = parseFloat(max);
+      if (Number.isNaN(lower) || Number.isNaN(upper) || lower > upper) return null;
+      return { id, kind, field: numericField, min: lower, max: upper };
+    }
+    if (kind === 'boolean') {
+      return { id, kind, field: booleanField, value: flag === 'yes' };
+    }
+    return { id, kind, value: outcome };
+  };
+
+  const handleAdd = () => {
+    const condition = buildCondition();
+    if (!condition) return;
+    const target = groups.find(group => group.id === targetGroup);
+    const nextGroups = target
+      ? groups.map(group => group.id === target.id
+          ? { ...group, conditions: [...group.conditions, condition] }
+          : group)
+      : [...activeGroups, createFilterGroup(condition)];
+    onChange(nextGroups, groupCombinator);
+    setOpen(false);
+  };
+
+  const removeCondition = (groupId: string, conditionId: string) => {
+    const nextGroups = groups
+      .map(group => group.id === groupId
+        ? { ...group, conditions: group.conditions.filter(c => c.id !== conditionId) }
+        : group)
+      .filter(group => group.conditions.length > 0);
+    onChange(nextGroups, groupCombinator);
+  };
+
+  const toggleGroupCombinator = (groupId: string) => {
+    onChange(
+      groups.map(group => group.id === groupId
+        ? { ...group, combinator: group.combinator === 'and' ? 'or' : 'and' }
+        : group),
+      groupCombinator
+    );
+  };
+
+  const CombinatorToggle = ({ value, onClick }: { value: FilterCombinator; onClick: () => void }) => (
+    <button
+      type="button"
+      onClick={onClick}
+      className="text-xs font-semibold uppercase text-muted-foreground hover:text-foreground px-1"
+      title="Click to switch between AND and OR"
+    >
+      {value}
+    </button>
+  );
+
+  const isBounded = !UNBOUNDED_FIELDS.includes(numericField);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Filter
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 space-y-3" align="start">
+          <div className="space-y-1">
+            <Label className="text-xs">Condition</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as ConditionKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="numeric">Metric range</SelectItem>
+                <SelectItem value="boolean">SQL feature</SelectItem>
+                <SelectItem value="outcome">Pass / fail</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {kind === 'numeric' && (
+            <>
+              <div className="space-y-1">
+                <Label className="text-xs">Metric</Label>
+                <Select value={numericField} onValueChange={(value) => setNumericField(value as NumericField)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {NUMERIC_FIELDS.map(field => (
+                      <SelectItem key={field} value={field}>{FIELD_LABELS[field]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Min</Label>
+                  <Input type="number" step={isBounded ? 0.05 : 1} value={min} onChange={(e) => setMin(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Max</Label>
+                  <Input type="number" step={isBounded ? 0.05 : 1} value={max} onChange={(e) => setMax(e.target.value)} />
+                </div>
+              </div>
+            </>
+          )}
+
+          {kind === 'boolean' && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Feature</Label>
+                <Select value={booleanField} onValueChange={(value) => setBooleanField(value as BooleanField)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BOOLEAN_FIELDS.map(field => (
+                      <SelectItem key={field} value={field}>{FIELD_LABELS[field]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Value</Label>
+                <Select value={flag} onValueChange={(value) => setFlag(value as 'yes' | 'no')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="yes">Yes</SelectItem>
+                    <SelectItem value="no">No</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {kind === 'outcome' && (
+            <div className="space-y-1">
+              <Label className="text-xs">Result</Label>
+              <Select value={outcome} onValueChange={(value) => setOutcome(value as 'pass' | 'fail')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pass">Passing</SelectItem>
+                  <SelectItem value="fail">Failing</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label className="text-xs">Add to</Label>
+            <Select value={targetGroup} onValueChange={setTargetGroup}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_GROUP}>New group</SelectItem>
+                {activeGroups.map((group, index) => (
+                  <SelectItem key={group.id} value={group.id}>Group {index + 1}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button size="sm" className="w-full" onClick={handleAdd}>
+            Apply
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      {/* Predicate chips */}
+      {activeGroups.length === 0 ? (
+        <span className="text-sm text-muted-foreground flex items-center gap-1">
+          <SlidersHorizontal className="h-3 w-3" />
+          No advanced filters
+        </span>
+      ) : (
+        <>
+          {activeGroups.map((group, groupIndex) => (
+            <React.Fragment key={group.id}>
+              {groupIndex > 0 && (
+                <CombinatorToggle
+                  value={groupCombinator}
+                  onClick={() => onChange(groups, groupCombinator === 'and' ? 'or' : 'and')}
+                />
+              )}
+              <div className="flex flex-wrap items-center gap-1 rounded-md border border-dashed px-2 py-1">
+                {group.conditions.map((condition, conditionIndex) => (
+                  <React.Fragment key={condition.id}>
+                    {conditionIndex > 0 && (
+                      <CombinatorToggle
+                        value={group.combinator}
+                        onClick={() => toggleGroupCombinator(group.id)}
+                      />
+                    )}
+                    <Badge variant="secondary" className="gap-1">
+                      {describeCondition(condition)}
+                      <button
+                        type="button"
+                        onClick={() => removeCondition(group.id, condition.id)}
+                        aria-label={`Remove ${describeCondition(condition)}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  </React.Fragment>
+                ))}
+              </div>
+            </React.Fragment>
+          ))}
+          <Button variant="ghost" size="sm" onClick={() => onChange([], 'and')}>
+            Clear
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  // Sorted, non-overlapping [start, end) ranges, as returned by findMatchRanges
+  ranges: [number, number][];
+  // Truncates like the table cells; the window shifts so the first match stays visible
+  maxLength?: number;
+}
+
+export const MATCH_CLASS_NAME = 'bg-warning/40 text-foreground rounded-sm';
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges, maxLength }) => {
+  let start = 0;
+  let end = text.length;
+  if (maxLength !== undefined && text.length > maxLength) {
+    const firstMatch = ranges[0];
+    if (firstMatch && firstMatch[1] > maxLength) start = Math.max(0, firstMatch[0] - 20);
+    end = Math.min(text.length, start + maxLength);
+  }
+
+  const segments: React.ReactNode[] = [];
+  let cursor = start;
+  ranges.forEach(([from, to], index) => {
+    if (to <= start || from >= end) return;
+    const markStart = Math.max(from, start);
+    const markEnd = Math.min(to, end);
+    if (markStart > cursor) segments.push(text.slice(cursor, markStart));
+    segments.push(<mark key={index} className={MATCH_CLASS_NAME}>{text.slice(markStart, markEnd)}</mark>);
+    cursor = markEnd;
+  });
+  if (cursor < end) segments.push(text.slice(cursor, end));
+
+  return (
+    <>
+      {start > 0 && '...'}
+      {segments}
+      {end < text.length && '...'}
+    </>
+  );
+};
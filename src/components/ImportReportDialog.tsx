@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, FileWarning } from 'lucide-react';
+import { ImportIssueKind, ImportReport } from '@/types/validation';
+import { FIELD_LABELS } from '@/lib/fields';
+
+interface ImportReportDialogProps {
+  report: ImportReport | null;
+  onAccept: () => void;
+  onCancel: () => void;
+}
+
+const KIND_LABELS: Record<ImportIssueKind, string> = {
+  'missing-value': 'Missing value',
+  'unparseable': 'Unparseable',
+  'out-of-range': 'Out of range',
+};
+
+// Large files can produce thousands of issues; the counts above the table cover the rest
+const MAX_LISTED_ISSUES = 200;
+
+export const ImportReportDialog: React.FC<ImportReportDialogProps> = ({ report, onAccept, onCancel }) => {
+  const kindCounts = useMemo(() => {
+    const counts: Record<ImportIssueKind, number> = { 'missing-value': 0, 'unparseable': 0, 'out-of-range': 0 };
+    report?.issues.forEach(issue => counts[issue.kind]++);
+    return counts;
+  }, [report]);
+
+  if (!report) return null;
+
+  const canImport = report.accepted.length > 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileWarning className="h-5 w-5 text-warning" />
+            Import Report{report.fileName && `: ${report.fileName}`}
+          </DialogTitle>
+          <DialogDescription>
+            {report.accepted.length} of {report.totalRows} rows can be imported; {report.rejectedRows} will be rejected.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {report.missingColumns.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Missing required columns: {report.missingColumns.map(field => <code key={field} className="mx-1">{field}</code>)}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(KIND_LABELS) as ImportIssueKind[]).map(kind => (
+              <Badge key={kind} variant={kindCounts[kind] > 0 ? 'secondary' : 'outline'}>
+                {KIND_LABELS[kind]}: {kindCounts[kind]}
+              </Badge>
+            ))}
+          </div>
+
+          {report.issues.length > 0 && (
+            <div className="overflow-x-auto max-h-80 border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>ID</TableHead>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Value</TableHead>
+                    <TableHead>Problem</TableHead>
+                    <TableHead>Effect</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="font-mono text-xs">{issue.row}</TableCell>
+                      <TableCell className="font-mono text-xs">{issue.id ?? '—'}</TableCell>
+                      <TableCell className="text-xs">{FIELD_LABELS[issue.field]}</TableCell>
+                      <TableCell className="font-mono text-xs max-w-40 truncate">{issue.value ?? '—'}</TableCell>
+                      <TableCell className="text-xs">{issue.message}</TableCell>
+                      <TableCell>
+                        <Badge
+                          className={issue.rejected ? 'bg-error text-error-foreground' : 'bg-warning text-warning-foreground'}
+                        >
+                          {issue.rejected ? 'Row rejected' : issue.kind === 'out-of-range' ? 'Kept' : 'Value dropped'}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          {report.issues.length > MAX_LISTED_ISSUES && (
+            <p className="text-xs text-muted-foreground">
+              Showing the first {MAX_LISTED_ISSUES} of {report.issues.length} issues.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={onAccept} disabled={!canImport}>
+            Import {report.accepted.length} Rows
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
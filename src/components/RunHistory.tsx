@@ -0,0 +1,274 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { History, Save, Trash2, FolderOpen, AlertCircle } from 'lucide-react';
+import { EvaluationRun, RunTrendPoint, ScoringProfile, SQLTestCase } from '@/types/validation';
+import { CONSTRUCT_FIELDS, computeRunTrendPoint } from '@/lib/runs';
+import { FIELD_LABELS } from '@/lib/fields';
+import { useRunRegistry } from '@/hooks/use-run-registry';
+import { useToast } from '@/hooks/use-toast';
+
+interface RunHistoryProps {
+  currentData: SQLTestCase[];
+  sourceFile: string;
+  profile: ScoringProfile;
+  onOpenRun: (rows: SQLTestCase[], run: EvaluationRun) => void;
+}
+
+const CONSTRUCT_COLORS = [
+  'hsl(var(--info))',
+  'hsl(var(--warning))',
+  'hsl(var(--error))',
+  'hsl(var(--metric-good))',
+  'hsl(280 65% 60%)',
+  'hsl(190 80% 45%)',
+  'hsl(var(--muted-foreground))',
+];
+
+const passRateConfig: ChartConfig = {
+  passRate: { label: 'Overall', color: 'hsl(var(--primary))' },
+  ...Object.fromEntries(CONSTRUCT_FIELDS.map((field, index) => [
+    field,
+    { label: FIELD_LABELS[field].replace('Has ', ''), color: CONSTRUCT_COLORS[index % CONSTRUCT_COLORS.length] }
+  ])),
+};
+
+const scoreConfig: ChartConfig = {
+  averageSemanticScore: { label: 'Avg Semantic', color: 'hsl(var(--primary))' },
+  averageSyntaxScore: { label: 'Avg Syntax', color: 'hsl(var(--success))' },
+  executionAccuracy: { label: 'Execution Accuracy', color: 'hsl(var(--warning))' },
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const RunHistory: React.FC<RunHistoryProps> = ({ currentData, sourceFile, profile, onOpenRun }) => {
+  const { runs, loading, error, addRun, removeRun, loadRunRows } = useRunRegistry();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [date, setDate] = useState(today);
+  const [modelLabel, setModelLabel] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [rowsById, setRowsById] = useState<Record<string, SQLTestCase[]>>({});
+
+  const reportError = useCallback((title: string, e: unknown) => {
+    toast({ title, description: e instanceof Error ? e.message : 'Unknown error', variant: 'destructive' });
+  }, [toast]);
+
+  // Fetch rows for newly selected runs; already-loaded rows are kept in memory
+  useEffect(() => {
+    const missing = [...selectedIds].filter(id => !rowsById[id]);
+    if (missing.length === 0) return;
+    let cancelled = false;
+    Promise.all(missing.map(async id => [id, await loadRunRows(id)] as const))
+      .then(entries => {
+        if (!cancelled) setRowsById(prev => ({ ...prev, ...Object.fromEntries(entries) }));
+      })
+      .catch(e => {
+        if (cancelled) return;
+        // Deselect the runs so the chart does not wait on rows that will not arrive
+        setSelectedIds(prev => new Set([...prev].filter(id => !missing.includes(id))));
+        reportError('Could not load run', e);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedIds, rowsById, loadRunRows, reportError]);
+
+  const trendPoints = useMemo(() =>
+    runs
+      .filter(run => selectedIds.has(run.id) && rowsById[run.id])
+      .map(run => {
+        const point = computeRunTrendPoint(run, rowsById[run.id], profile);
+        return { ...point, ...point.constructPassRates, label: `${point.name} (${point.date})` };
+      }),
+    [runs, selectedIds, rowsById, profile]
+  );
+
+  const toggleSelected = (id: string, selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (selected) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      const run = await addRun({
+        name: name.trim() || sourceFile || 'Untitled run',
+        date,
+        modelLabel: modelLabel.trim(),
+        sourceFile
+      }, currentData);
+      setRowsById(prev => ({ ...prev, [run.id]: currentData }));
+      toggleSelected(run.id, true);
+      setName('');
+      toast({ title: 'Run saved', description: `Saved "${run.name}" with ${run.rowCount} test cases.` });
+    } catch (e) {
+      reportError('Could not save run', e);
+    }
+  };
+
+  const handleOpen = async (run: EvaluationRun) => {
+    try {
+      const rows = rowsById[run.id] ?? await loadRunRows(run.id);
+      onOpenRun(rows, run);
+    } catch (e) {
+      reportError('Could not open run', e);
+    }
+  };
+
+  const handleDelete = async (run: EvaluationRun) => {
+    try {
+      await removeRun(run.id);
+    } catch (e) {
+      reportError('Could not delete run', e);
+      return;
+    }
+    toggleSelected(run.id, false);
+    setRowsById(prev => {
+      const next = { ...prev };
+      delete next[run.id];
+      return next;
+    });
+  };
+
+  // Clicking a point on either chart opens that run in the table
+  const handleChartClick = (state: { activePayload?: { payload: RunTrendPoint }[] } | null) => {
+    const runId = state?.activePayload?.[0]?.payload.runId;
+    const run = runs.find(r => r.id === runId);
+    if (run) handleOpen(run);
+  };
+
+  const presentConstructs = CONSTRUCT_FIELDS.filter(field =>
+    trendPoints.some(point => point.constructPassRates[field] !== undefined)
+  );
+  const hasExecutionAccuracy = trendPoints.some(point => point.executionAccuracy !== undefined);
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Run History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Run history is unavailable: {error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Save current data */}
+        {currentData.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="run-name" className="text-xs">Run name</Label>
+              <Input id="run-name" placeholder={sourceFile || 'Weekly run'} value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="run-date" className="text-xs">Date</Label>
+              <Input id="run-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="run-model" className="text-xs">Model label</Label>
+              <Input id="run-model" placeholder="e.g. v2.3" value={modelLabel} onChange={(e) => setModelLabel(e.target.value)} />
+            </div>
+            <Button onClick={handleSave} disabled={!!error}>
+              <Save className="h-4 w-4 mr-2" />
+              Save Current Data as Run
+            </Button>
+          </div>
+        )}
+
+        {/* Registry */}
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading saved runs...</p>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No saved runs yet. Save the current data to start tracking trends across evaluation runs.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">Select runs to chart; click a point or "Open" to view a run in the table.</p>
+            <div className="divide-y border rounded-md">
+              {runs.map(run => (
+                <div key={run.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <Checkbox
+                    checked={selectedIds.has(run.id)}
+                    onCheckedChange={(checked) => toggleSelected(run.id, checked === true)}
+                    aria-label={`Chart ${run.name}`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">{run.name}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {run.date}
+                      {run.modelLabel && ` · ${run.modelLabel}`}
+                      {run.sourceFile && ` · ${run.sourceFile}`}
+                      {` · ${run.rowCount} cases`}
+                    </div>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleOpen(run)}>
+                    <FolderOpen className="h-4 w-4 mr-1" />
+                    Open
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(run)} aria-label={`Delete ${run.name}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Trend charts */}
+        {trendPoints.length > 0 && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <h3 className="font-semibold text-sm mb-2">Pass Rate by SQL Construct (%)</h3>
+              <ChartContainer config={passRateConfig} className="h-72 w-full aspect-auto">
+                <LineChart data={trendPoints} onClick={handleChartClick}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="passRate" stroke="var(--color-passRate)" strokeWidth={3} dot />
+                  {presentConstructs.map(field => (
+                    <Line key={field} dataKey={field} stroke={`var(--color-${field})`} strokeWidth={1.5} dot connectNulls />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            </div>
+            <div>
+              <h3 className="font-semibold text-sm mb-2">Average Scores</h3>
+              <ChartContainer config={scoreConfig} className="h-72 w-full aspect-auto">
+                <LineChart data={trendPoints} onClick={handleChartClick}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 1]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="averageSemanticScore" stroke="var(--color-averageSemanticScore)" strokeWidth={2} dot />
+                  <Line dataKey="averageSyntaxScore" stroke="var(--color-averageSyntaxScore)" strokeWidth={2} dot />
+                  {hasExecutionAccuracy && (
+                    <Line dataKey="executionAccuracy" stroke="var(--color-executionAccuracy)" strokeWidth={2} dot connectNulls />
+                  )}
+                </LineChart>
+              </ChartContainer>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useDeferredValue, useMemo, useRef, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -10,85 +10,165 @@ import {
   CheckCircle2, 
   RefreshCw,
   Moon,
-  Sun
+  Sun,
+  History,
+  AlertTriangle
 } from 'lucide-react';
 import { useTheme } from 'next-themes';
+import { useSearchParams } from 'react-router-dom';
 import { FileUpload } from './FileUpload';
 import { SummaryCards } from './SummaryCards';
 import { DataTable } from './DataTable';
 import { TestCaseModal } from './TestCaseModal';
 import { ConfusionMatrix } from './ConfusionMatrix';
 import { ExportOptions } from './ExportOptions';
-import { SQLTestCase, ConfusionMatrixData } from '@/types/validation';
+import { ScoringProfileEditor } from './ScoringProfileEditor';
+import { ComparisonView } from './ComparisonView';
+import { RunHistory } from './RunHistory';
+import { DatasetSidebar } from './DatasetSidebar';
+import { AdditionalDataUpload } from './AdditionalDataUpload';
+import { ExecutionCheck } from './ExecutionCheck';
+import { SchemaUpload } from './SchemaUpload';
+import {
+  SQLTestCase,
+  ExecutionResult,
+  FilterState,
+  SortState,
+  EvaluationRun,
+  MergePolicy,
+  SessionSource,
+  SessionSnapshot,
+  StoredDataset
+} from '@/types/validation';
 import { useToast } from '@/hooks/use-toast';
+import { useScoringProfiles } from '@/hooks/use-scoring-profiles';
+import { useStoredDatasets } from '@/hooks/use-stored-datasets';
+import { useSessionPersistence } from '@/hooks/use-session-persistence';
+import { useTableLayouts } from '@/hooks/use-table-layouts';
+import { useSqlFormatSettings } from '@/hooks/use-sql-format-settings';
+import { useSchemaCatalog } from '@/hooks/use-schema-catalog';
+import { useSqlAnalysis } from '@/hooks/use-sql-analysis';
+import { buildPassFailMatrix, getPassRate } from '@/lib/scoring';
+import { DEFAULT_FILTER_STATE, matchesFilters } from '@/lib/filters';
+import { DEFAULT_SORT_STATE, normalizeSortState, sortTestCases } from '@/lib/sorting';
+import { DuplicateTestIdError, compareRuns } from '@/lib/comparison';
+import { restoreSession } from '@/lib/session';
+import { mergeTestCases } from '@/lib/merge';
+import { compileSearch } from '@/lib/search';
+import { REMOTE_SOURCE_PARAM } from '@/lib/remote';
+import { getExecutionResult } from '@/lib/result-sets';
+import { SYNTAX_DISAGREEMENT_THRESHOLD, createSyntaxDisagreementGroup, hasSyntaxDisagreement } from '@/lib/sql-syntax';
+import { SQL_DIALECTS } from '@/lib/sql-format';
 
 export const SQLValidationDashboard: React.FC = () => {
-  const [data, setData] = useState<SQLTestCase[]>([]);
+  // Rows as imported; `data` and `baselineData` below add the SQL analysis for the current dialect
+  const [rawData, setData] = useState<SQLTestCase[]>([]);
+  const [sourceFile, setSourceFile] = useState('');
+  const [rawBaselineData, setBaselineData] = useState<SQLTestCase[] | null>(null);
   const [selectedTestCase, setSelectedTestCase] = useState<SQLTestCase | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [confusionMatrixData, setConfusionMatrixData] = useState<ConfusionMatrixData | null>(null);
   const [loading, setLoading] = useState(false);
+  const [filters, setFilters] = useState<FilterState>(DEFAULT_FILTER_STATE);
+  const [sortState, setSortState] = useState<SortState>(DEFAULT_SORT_STATE);
+  const [sessionSource, setSessionSource] = useState<SessionSource | null>(null);
+  // Counts changes of the rows the session points at, so a store that finishes after a newer
+  // load (or after opening a run) does not claim the session
+  const sessionLoadRef = useRef(0);
+  const [baselineDatasetId, setBaselineDatasetId] = useState<string | undefined>();
+  const [executionResults, setExecutionResults] = useState<Map<string, ExecutionResult> | null>(null);
   
   const { theme, setTheme } = useTheme();
+  // `?src=<url>` lets a CI job link straight to the dashboard for its run
+  const [searchParams, setSearchParams] = useSearchParams();
+  const deepLinkUrl = searchParams.get(REMOTE_SOURCE_PARAM) ?? undefined;
   const { toast } = useToast();
+  const {
+    profiles,
+    activeProfile,
+    setActiveProfileId,
+    saveProfile,
+    deleteProfile,
+    importProfiles
+  } = useScoringProfiles();
+  const {
+    layouts,
+    activeLayout,
+    tableLayout,
+    isModified: layoutModified,
+    selectLayout,
+    updateTableLayout,
+    saveLayout,
+    deleteLayout
+  } = useTableLayouts();
+  const { settings: sqlFormat, updateSettings: updateSqlFormat } = useSqlFormatSettings();
+  const { rows: data, progress: analysisProgress, error: analysisError } = useSqlAnalysis(rawData, sqlFormat.dialect);
+  const { rows: baselineData } = useSqlAnalysis(rawBaselineData, sqlFormat.dialect);
+  const { schema, schemaIndex, isStored: isSchemaStored, setSchema } = useSchemaCatalog();
+  const { datasets, error: datasetsError, storeDataset, updateDataset, removeDataset, loadDatasetRows } = useStoredDatasets();
 
-  const handleDataLoad = (newData: SQLTestCase[]) => {
-    setLoading(true);
+  // Everything needed to rebuild the current view after a reload; rows are referenced, not copied
+  const sessionSnapshot = useMemo<Omit<SessionSnapshot, 'savedAt'> | null>(
+    () => sessionSource && {
+      source: sessionSource,
+      baselineDatasetId: rawBaselineData ? baselineDatasetId : undefined,
+      sourceFile,
+      activeProfileId: activeProfile.id,
+      filters,
+      sortState
+    },
+    [sessionSource, rawBaselineData, baselineDatasetId, sourceFile, activeProfile.id, filters, sortState]
+  );
+  const { pendingSession, dismissPendingSession, forgetSession } = useSessionPersistence(sessionSnapshot);
+
+  const dialectLabel = SQL_DIALECTS.find(dialect => dialect.id === sqlFormat.dialect)?.label;
+
+  // Uploaded syntax scores the client-side parser contradicts
+  const syntaxDisagreementCount = useMemo(() => data.filter(hasSyntaxDisagreement).length, [data]);
+
+  // Derived from the active scoring profile so it recomputes when weights change
+  const confusionMatrixData = useMemo(
+    () => (data.length > 0 ? buildPassFailMatrix(data, activeProfile) : null),
+    [data, activeProfile]
+  );
+
+  const passRate = useMemo(() => getPassRate(data, activeProfile), [data, activeProfile]);
+
+  // Runs that repeat a test id cannot be matched case by case; the error replaces the comparison
+  const comparison = useMemo(() => {
+    if (!baselineData || data.length === 0) return null;
     try {
-      // Validate and clean the data
-      const cleanedData = newData.map(item => {
-        const isGeneratedSqlBlank = !item.generated_sql || String(item.generated_sql).trim() === '';
-        return {
-          ...item,
-          syntax_score: isGeneratedSqlBlank ? 0 : (Number(item.syntax_score) || 0),
-          semantic_score: Number(item.semantic_score) || 0,
-          n_gram_score: item.n_gram_score ? Number(item.n_gram_score) : undefined,
-          bleu_score: item.bleu_score ? Number(item.bleu_score) : undefined,
-          rouge_score: item.rouge_score ? Number(item.rouge_score) : undefined,
-          codebert_match: Boolean(item.codebert_match),
-          flane5_match: Boolean(item.flane5_match),
-          exact_match: item.exact_match ? Boolean(item.exact_match) : undefined,
-          unknown_tokens: Array.isArray(item.unknown_tokens)
-            ? item.unknown_tokens
-            : (typeof item.unknown_tokens === 'string' && item.unknown_tokens
-                ? (item.unknown_tokens as string).split(';').map(t => t.trim()).filter(Boolean)
-                : []),
-          has_limit: item.has_limit !== undefined ? Boolean(Number(item.has_limit)) : undefined,
-          has_offset: item.has_offset !== undefined ? Boolean(Number(item.has_offset)) : undefined,
-          has_result_type: item.has_result_type !== undefined ? Boolean(Number(item.has_result_type)) : undefined,
-          has_cte: item.has_cte !== undefined ? Boolean(Number(item.has_cte)) : undefined,
-          has_order_by: item.has_order_by !== undefined ? Boolean(Number(item.has_order_by)) : undefined,
-          has_group_by: item.has_group_by !== undefined ? Boolean(Number(item.has_group_by)) : undefined,
-          has_join: item.has_join !== undefined ? Boolean(Number(item.has_join)) : undefined,
-          codebert_intent_score: isGeneratedSqlBlank ? 0 : (item.codebert_intent_score ? Number(item.codebert_intent_score) : undefined),
-          codebert_sqlsim_score: isGeneratedSqlBlank ? 0 : (item.codebert_sqlsim_score ? Number(item.codebert_sqlsim_score) : undefined),
-          flane5_intent_score: isGeneratedSqlBlank ? 0 : (item.flane5_intent_score ? Number(item.flane5_intent_score) : undefined),
-          flane5_sqlsim_score: isGeneratedSqlBlank ? 0 : (item.flane5_sqlsim_score ? Number(item.flane5_sqlsim_score) : undefined),
-          ngram1_precision: item.ngram1_precision ? Number(item.ngram1_precision) : undefined,
-          ngram1_recall: item.ngram1_recall ? Number(item.ngram1_recall) : undefined,
-          ngram1_f1: item.ngram1_f1 ? Number(item.ngram1_f1) : undefined,
-          ngram2_precision: item.ngram2_precision ? Number(item.ngram2_precision) : undefined,
-          ngram2_recall: item.ngram2_recall ? Number(item.ngram2_recall) : undefined,
-          ngram2_f1: item.ngram2_f1 ? Number(item.ngram2_f1) : undefined,
-          edit_similarity: item.edit_similarity ? Number(item.edit_similarity) : undefined,
-          vocab_unknown_count: item.vocab_unknown_count ? Number(item.vocab_unknown_count) : undefined,
-          vocab_unknown_ratio: item.vocab_unknown_ratio ? Number(item.vocab_unknown_ratio) : undefined,
-          precision: item.precision ? Number(item.precision) : undefined,
-          recall: item.recall ? Number(item.recall) : undefined,
-          f1_score: item.f1_score ? Number(item.f1_score) : undefined,
-          execution_accuracy: item.execution_accuracy ? Number(item.execution_accuracy) : undefined,
-        };
-      });
+      return { result: compareRuns(baselineData, data, activeProfile) };
+    } catch (error) {
+      if (error instanceof DuplicateTestIdError) return { error: error.message };
+      throw error;
+    }
+  }, [baselineData, data, activeProfile]);
+
+  // The table and the "Filtered Data" export share this view. Filtering runs on a deferred
+  // copy of the filters so typing in the search box stays responsive on large files, and
+  // changing the sort does not re-run the filters.
+  const deferredFilters = useDeferredValue(filters);
+  const matchingData = useMemo(
+    () => data.filter(row => matchesFilters(row, deferredFilters, activeProfile)),
+    [data, deferredFilters, activeProfile]
+  );
+  const filteredData = useMemo(
+    () => sortTestCases(matchingData, sortState, { profile: activeProfile, baseline: baselineData }),
+    [matchingData, sortState, activeProfile, baselineData]
+  );
 
-      setData(cleanedData);
+  const handleDataLoad = (newData: SQLTestCase[], fileName?: string) => {
+    setLoading(true);
+    try {
+      // Rows arrive validated and normalized by the import worker
+      setData(newData);
+      setSourceFile(fileName ?? '');
+      storeSessionDataset(fileName, newData);
       
       toast({
         title: "Data loaded successfully!",
-        description: `Loaded ${cleanedData.length} test cases for analysis.`,
+        description: `Loaded ${newData.length} test cases for analysis.`,
       });
-
-      // Generate sample confusion matrix data if not provided
-      generateSampleConfusionMatrix(cleanedData);
       
     } catch (error) {
       toast({
@@ -101,43 +181,180 @@ export const SQLValidationDashboard: React.FC = () => {
     }
   };
 
-  const generateSampleConfusionMatrix = (testData: SQLTestCase[]) => {
-    // Create a confusion matrix based on new pass/fail criteria
-    const labels = ['Pass', 'Fail'];
-    const matrix = [
-      [0, 0], // Actual Pass vs Predicted Pass/Fail
-      [0, 0]  // Actual Fail vs Predicted Pass/Fail
-    ];
-
-    testData.forEach(test => {
-      // New pass criteria
-      const notAllZero = !(test.precision === 0 && test.recall === 0 && test.f1_score === 0);
-      let semanticScore = 0;
-      if (
-        typeof test.codebert_intent_score === 'number' &&
-        typeof test.codebert_sqlsim_score === 'number' &&
-        typeof test.flane5_intent_score === 'number' &&
-        typeof test.flane5_sqlsim_score === 'number'
-      ) {
-        const codebertScore = test.codebert_intent_score * 0.5 + test.codebert_sqlsim_score * 0.5;
-        const flane5Score = test.flane5_intent_score * 0.5 + test.flane5_sqlsim_score * 0.5;
-        semanticScore = Math.max(codebertScore, flane5Score);
-      }
-      const actualPass = notAllZero && semanticScore > 0.7;
-      const predictedPass = semanticScore > 0.7; // Use same threshold for prediction
-      if (actualPass && predictedPass) matrix[0][0]++; // True Positive
-      else if (actualPass && !predictedPass) matrix[0][1]++; // False Negative
-      else if (!actualPass && predictedPass) matrix[1][0]++; // False Positive
-      else matrix[1][1]++; // True Negative
+  const handleMergeLoad = (newData: SQLTestCase[], policy: MergePolicy, fileName?: string) => {
+    try {
+      const merged = mergeTestCases(rawData, newData, policy);
+      const mergedName = [sourceFile || 'Untitled dataset', fileName].filter(Boolean).join(' + ');
+
+      setData(merged.rows);
+      setSourceFile(mergedName);
+      storeSessionDataset(mergedName, merged.rows);
+
+      toast({
+        title: "Data merged",
+        description: `${merged.added} added, ${merged.updated} updated, ${merged.skipped} skipped. ` +
+          `Now showing ${merged.rows.length} test cases.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error merging data",
+        description: "There was an issue processing your data. Please check the format.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Storing is best effort: the data stays usable for this session even if IndexedDB fails.
+  // The datasets the current session points at are never evicted to make room.
+  const persistDataset = async (fileName: string | undefined, rows: SQLTestCase[]) => {
+    const keepIds = [sessionSource?.id, rawBaselineData ? baselineDatasetId : undefined].filter(Boolean);
+    try {
+      return await storeDataset(fileName || 'Untitled dataset', rows, keepIds);
+    } catch (error) {
+      toast({
+        title: "Dataset not saved locally",
+        description: "It will not be available after a page reload.",
+        variant: "destructive",
+      });
+      return undefined;
+    }
+  };
+
+  const changeSessionSource = (source: SessionSource | null) => {
+    sessionLoadRef.current++;
+    setSessionSource(source);
+  };
+
+  // New rows have no session source until they are stored, and keep none if storing fails
+  const storeSessionDataset = (fileName: string | undefined, rows: SQLTestCase[]) => {
+    changeSessionSource(null);
+    const load = sessionLoadRef.current;
+    persistDataset(fileName, rows).then(dataset => {
+      if (dataset && load === sessionLoadRef.current) setSessionSource({ kind: 'dataset', id: dataset.id });
     });
+  };
+
+  // Execution scores are stored with the rows so they survive a reload. An open dataset is
+  // updated in place; rows from a run, or not stored yet, are stored as a new dataset.
+  const persistExecutionScores = async (rows: SQLTestCase[]) => {
+    if (sessionSource?.kind !== 'dataset') {
+      storeSessionDataset(sourceFile, rows);
+      return;
+    }
+    const load = sessionLoadRef.current;
+    try {
+      const updated = await updateDataset(sessionSource.id, rows);
+      if (!updated && load === sessionLoadRef.current) storeSessionDataset(sourceFile, rows);
+    } catch (error) {
+      toast({
+        title: "Execution scores not saved locally",
+        description: "They will not be available after a page reload.",
+        variant: "destructive",
+      });
+    }
+  };
 
-    setConfusionMatrixData({
-      matrix,
-      labels,
-      title: 'Pass/Fail Classification'
+  const handleBaselineLoad = (newData: SQLTestCase[], fileName?: string) => {
+    try {
+      setBaselineData(newData);
+      persistDataset(fileName, newData).then(dataset => setBaselineDatasetId(dataset?.id));
+      toast({
+        title: "Baseline loaded",
+        description: `Comparing against ${newData.length} baseline test cases.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error processing baseline",
+        description: "There was an issue processing the baseline file. Please check the format.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleOpenRun = (rows: SQLTestCase[], run: EvaluationRun) => {
+    setData(rows);
+    setSourceFile(run.sourceFile);
+    changeSessionSource({ kind: 'run', id: run.id });
+    setFilters(DEFAULT_FILTER_STATE);
+    toast({
+      title: "Run opened",
+      description: `Showing ${rows.length} test cases from "${run.name}".`,
+    });
+    // Wait for the table to mount when opening from an empty dashboard
+    requestAnimationFrame(() => {
+      document.getElementById('results-table')?.scrollIntoView({ behavior: 'smooth' });
     });
   };
 
+  const handleOpenDataset = async (dataset: StoredDataset) => {
+    try {
+      const rows = await loadDatasetRows(dataset.id);
+      setData(rows);
+      setSourceFile(dataset.name);
+      changeSessionSource({ kind: 'dataset', id: dataset.id });
+      setFilters(DEFAULT_FILTER_STATE);
+      toast({
+        title: "Dataset opened",
+        description: `Loaded ${rows.length} test cases from "${dataset.name}".`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not open dataset",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteDataset = async (dataset: StoredDataset) => {
+    try {
+      await removeDataset(dataset.id);
+      toast({
+        title: "Dataset deleted",
+        description: `"${dataset.name}" was removed from this browser.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not delete dataset",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleResumeSession = async () => {
+    if (!pendingSession) return;
+    const { snapshot } = pendingSession;
+    setLoading(true);
+    try {
+      const restored = await restoreSession(snapshot);
+      if (!restored) {
+        dismissPendingSession();
+        return;
+      }
+      setData(restored.rows);
+      setBaselineData(restored.baselineRows);
+      setBaselineDatasetId(snapshot.baselineDatasetId);
+      setSourceFile(snapshot.sourceFile);
+      setActiveProfileId(snapshot.activeProfileId);
+      setFilters(snapshot.filters);
+      setSortState(normalizeSortState(snapshot.sortState));
+      changeSessionSource(snapshot.source);
+      toast({
+        title: "Session resumed",
+        description: `Restored ${restored.rows.length} test cases from "${restored.name}".`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not resume session",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleError = (error: string) => {
     toast({
       title: "Upload Error",
@@ -146,6 +363,36 @@ export const SQLValidationDashboard: React.FC = () => {
     });
   };
 
+  const showSyntaxDisagreements = () => {
+    setFilters({ ...DEFAULT_FILTER_STATE, groups: [createSyntaxDisagreementGroup()] });
+    document.getElementById('results-table')?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  const handleExecutionComplete = (results: Map<string, ExecutionResult>) => {
+    setExecutionResults(results);
+    // Cases whose expected query fails have no reference result, so they keep their uploaded score
+    const scoredRows = rawData.map(row => {
+      const result = getExecutionResult(results, row);
+      return result && result.match !== null ? { ...row, execution_accuracy: result.match ? 1 : 0 } : row;
+    });
+    setData(scoredRows);
+    persistExecutionScores(scoredRows);
+    const scored = Array.from(results.values()).filter(result => result.match !== null);
+    const matched = scored.filter(result => result.match).length;
+    toast({
+      title: "Execution check complete",
+      description: `${matched} of ${scored.length} scored test cases returned the expected results.`,
+    });
+  };
+
+  const handleExecutionError = (error: string) => {
+    toast({
+      title: "Execution Error",
+      description: error,
+      variant: "destructive",
+    });
+  };
+
   const handleTestCaseClick = (testCase: SQLTestCase) => {
     setSelectedTestCase(testCase);
     setIsModalOpen(true);
@@ -153,8 +400,20 @@ export const SQLValidationDashboard: React.FC = () => {
 
   const handleRefresh = () => {
     setData([]);
+    setSourceFile('');
+    setBaselineData(null);
     setSelectedTestCase(null);
-    setConfusionMatrixData(null);
+    setFilters(DEFAULT_FILTER_STATE);
+    setExecutionResults(null);
+    changeSessionSource(null);
+    forgetSession();
+    // Otherwise the deep link would load the same run again straight away
+    if (deepLinkUrl) {
+      setSearchParams(params => {
+        params.delete(REMOTE_SOURCE_PARAM);
+        return params;
+      }, { replace: true });
+    }
     toast({
       title: "Dashboard cleared",
       description: "Ready for new data upload.",
@@ -183,6 +442,23 @@ export const SQLValidationDashboard: React.FC = () => {
           </div>
           
           <div className="flex items-center gap-2">
+            <DatasetSidebar
+              datasets={datasets}
+              activeDatasetId={sessionSource?.kind === 'dataset' ? sessionSource.id : undefined}
+              error={datasetsError}
+              onOpen={handleOpenDataset}
+              onDelete={handleDeleteDataset}
+            />
+
+            <ScoringProfileEditor
+              profiles={profiles}
+              activeProfile={activeProfile}
+              onSelect={setActiveProfileId}
+              onSave={saveProfile}
+              onDelete={deleteProfile}
+              onImport={importProfiles}
+            />
+
             <Button
               variant="outline"
               size="sm"
@@ -208,48 +484,154 @@ export const SQLValidationDashboard: React.FC = () => {
           </div>
         </div>
 
+        {/* Resume Prompt */}
+        {pendingSession && data.length === 0 && (
+          <Alert className="border-info/50 bg-info/5">
+            <History className="h-4 w-4 text-info" />
+            <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+              <span>
+                <strong>Resume last session?</strong> "{pendingSession.name}" with its filters, sort and
+                scoring profile, saved {new Date(pendingSession.snapshot.savedAt).toLocaleString()}.
+              </span>
+              <span className="flex gap-2">
+                <Button size="sm" onClick={handleResumeSession}>Resume</Button>
+                <Button size="sm" variant="outline" onClick={dismissPendingSession}>Dismiss</Button>
+              </span>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Status Banner */}
         {data.length > 0 && (
           <Alert className="border-success/50 bg-success/5">
             <CheckCircle2 className="h-4 w-4 text-success" />
             <AlertDescription>
               <strong>Dashboard Active:</strong> Displaying {data.length} test cases. 
-              Overall pass rate: {((data.filter(d => {
-                // Check precision, recall, f1_score are not all 0
-                const notAllZero = !(d.precision === 0 && d.recall === 0 && d.f1_score === 0);
-                // Calculate semantic score as in DataTable
-                let semanticScore = 0;
-                if (
-                  typeof d.codebert_intent_score === 'number' &&
-                  typeof d.codebert_sqlsim_score === 'number' &&
-                  typeof d.flane5_intent_score === 'number' &&
-                  typeof d.flane5_sqlsim_score === 'number'
-                ) {
-                  const codebertScore = d.codebert_intent_score * 0.5 + d.codebert_sqlsim_score * 0.5;
-                  const flane5Score = d.flane5_intent_score * 0.5 + d.flane5_sqlsim_score * 0.5;
-                  semanticScore = Math.max(codebertScore, flane5Score);
-                }
-                return notAllZero && semanticScore > 0.7;
-              }).length / data.length) * 100).toFixed(1)}%
+              Overall pass rate: {passRate.toFixed(1)}%
+              {analysisProgress !== null && (
+                <span className="text-muted-foreground">
+                  {' '}· Checking generated SQL for {dialectLabel} ({Math.round(analysisProgress * 100)}%)
+                </span>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* SQL Analysis Failure */}
+        {data.length > 0 && analysisError && (
+          <Alert className="border-error/50 bg-error/5">
+            <AlertTriangle className="h-4 w-4 text-error" />
+            <AlertDescription>
+              <strong>Could not check generated SQL for {dialectLabel}.</strong> {analysisError}. The
+              Structural Similarity and Generated SQL Parses columns stay empty.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Syntax Disagreements */}
+        {syntaxDisagreementCount > 0 && (
+          <Alert className="border-warning/50 bg-warning/5">
+            <AlertTriangle className="h-4 w-4 text-warning" />
+            <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+              <span>
+                <strong>{syntaxDisagreementCount} generated {syntaxDisagreementCount === 1 ? 'query does' : 'queries do'} not parse</strong>{' '}
+                in the selected dialect although the uploaded syntax score is {SYNTAX_DISAGREEMENT_THRESHOLD} or higher.
+              </span>
+              <Button size="sm" variant="outline" onClick={showSyntaxDisagreements}>Show them</Button>
             </AlertDescription>
           </Alert>
         )}
 
         {/* File Upload */}
         {data.length === 0 && (
-          <FileUpload onDataLoad={handleDataLoad} onError={handleError} />
+          <FileUpload
+            onDataLoad={handleDataLoad}
+            onError={handleError}
+            initialUrl={deepLinkUrl}
+          />
         )}
 
         {/* Main Dashboard Content */}
         {data.length > 0 && (
           <>
             {/* Summary Cards */}
-            <SummaryCards data={data} />
+            <SummaryCards
+              data={data}
+              profile={activeProfile}
+              baseline={baselineData ?? undefined}
+              schemaIndex={schemaIndex}
+            />
 
             <Separator />
 
             {/* Data Table */}
-            <DataTable data={data} onRowClick={handleTestCaseClick} />
+            <div id="results-table" className="scroll-mt-6">
+              <DataTable
+                data={data}
+                rows={filteredData}
+                profile={activeProfile}
+                filters={filters}
+                sortState={sortState}
+                onFiltersChange={setFilters}
+                onSortChange={setSortState}
+                hasBaseline={baselineData !== null}
+                onRowClick={handleTestCaseClick}
+                layouts={layouts}
+                activeLayout={activeLayout}
+                layout={tableLayout}
+                layoutModified={layoutModified}
+                onSelectLayout={selectLayout}
+                onLayoutChange={updateTableLayout}
+                onSaveLayout={saveLayout}
+                onDeleteLayout={deleteLayout}
+                sqlFormat={sqlFormat}
+                onSqlFormatChange={updateSqlFormat}
+              />
+            </div>
+
+            <Separator />
+
+            {/* Run Comparison */}
+            {comparison?.result ? (
+              <ComparisonView
+                comparison={comparison.result}
+                onRowClick={handleTestCaseClick}
+                onClearBaseline={() => setBaselineData(null)}
+              />
+            ) : comparison?.error ? (
+              <Alert className="border-error/50 bg-error/5">
+                <AlertTriangle className="h-4 w-4 text-error" />
+                <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+                  <span>
+                    <strong>Cannot compare against the baseline.</strong> {comparison.error}.
+                  </span>
+                  <Button size="sm" variant="outline" onClick={() => setBaselineData(null)}>Remove Baseline</Button>
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Compare Against a Baseline Run</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Load results from another model version on the same prompts. Cases are matched by id
+                    within each run; the current data is treated as the candidate.
+                  </p>
+                  <FileUpload onDataLoad={handleBaselineLoad} onError={handleError} />
+                </CardContent>
+              </Card>
+            )}
+
+            <Separator />
+
+            {/* Database Schema */}
+            <SchemaUpload schema={schema} isStored={isSchemaStored} onSchemaChange={setSchema} onError={handleError} />
+
+            <Separator />
+
+            {/* Execution Check */}
+            <ExecutionCheck data={data} onComplete={handleExecutionComplete} onError={handleExecutionError} />
 
             <Separator />
 
@@ -259,20 +641,30 @@ export const SQLValidationDashboard: React.FC = () => {
             <Separator />
 
             {/* Export Options */}
-            <ExportOptions data={data} filteredData={data} />
+            <ExportOptions
+              data={data}
+              filteredData={filteredData}
+              columns={tableLayout.columns}
+              profile={activeProfile}
+            />
 
             {/* Upload New Data */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg">Upload Additional Data</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <FileUpload onDataLoad={handleDataLoad} onError={handleError} />
-              </CardContent>
-            </Card>
+            <AdditionalDataUpload
+              onMerge={handleMergeLoad}
+              onReplace={handleDataLoad}
+              onError={handleError}
+            />
           </>
         )}
 
+        {/* Run History */}
+        <RunHistory
+          currentData={data}
+          sourceFile={sourceFile}
+          profile={activeProfile}
+          onOpenRun={handleOpenRun}
+        />
+
         {/* Loading State */}
         {loading && (
           <div className="flex items-center justify-center py-12">
@@ -319,6 +711,12 @@ export const SQLValidationDashboard: React.FC = () => {
         {/* Test Case Detail Modal */}
         <TestCaseModal
           testCase={selectedTestCase}
+          profile={activeProfile}
+          search={compileSearch(filters.searchTerm, filters.searchMode)}
+          sqlFormat={sqlFormat}
+          onSqlFormatChange={updateSqlFormat}
+          executionResult={selectedTestCase ? getExecutionResult(executionResults, selectedTestCase) : undefined}
+          schemaIndex={schemaIndex}
           isOpen={isModalOpen}
           onClose={() => {
             setIsModalOpen(false);
@@ -0,0 +1,77 @@
+import React, { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Database } from 'lucide-react';
+import { SqlTokenKind } from '@/types/validation';
+import { SchemaIndex, classifySqlTokens } from '@/lib/schema-catalog';
+import { cn } from '@/lib/utils';
+
+interface SchemaTokenViewProps {
+  sql: string;
+  schemaIndex: SchemaIndex;
+}
+
+const TOKEN_STYLES: Record<SqlTokenKind, string> = {
+  table: 'text-info font-semibold',
+  column: 'text-success',
+  alias: 'text-muted-foreground italic',
+  keyword: 'text-primary',
+  literal: 'text-warning',
+  hallucinated: 'bg-error/20 text-error font-semibold rounded-sm underline decoration-wavy decoration-error',
+  other: '',
+};
+
+const LEGEND: { kind: SqlTokenKind; label: string }[] = [
+  { kind: 'table', label: 'Table' },
+  { kind: 'column', label: 'Column' },
+  { kind: 'alias', label: 'Alias' },
+  { kind: 'keyword', label: 'Keyword / function' },
+  { kind: 'literal', label: 'Literal' },
+  { kind: 'hallucinated', label: 'Hallucinated' },
+];
+
+export const SchemaTokenView: React.FC<SchemaTokenViewProps> = ({ sql, schemaIndex }) => {
+  const tokens = useMemo(() => classifySqlTokens(sql, schemaIndex), [sql, schemaIndex]);
+  const hallucinated = Array.from(new Set(tokens.filter(token => token.kind === 'hallucinated').map(token => token.text)));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2 text-base">
+          <span className="flex items-center gap-2">
+            <Database className="h-4 w-4" />
+            Schema Check
+          </span>
+          <span className="text-sm font-normal text-muted-foreground">
+            {hallucinated.length === 0
+              ? 'Every identifier is in the schema'
+              : `${hallucinated.length} hallucinated identifier${hallucinated.length === 1 ? '' : 's'}`}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <pre className="rounded-md border bg-muted/30 p-3 font-mono text-xs whitespace-pre-wrap break-all">
+          {tokens.map((token, index) => (
+            <span key={index} className={cn(TOKEN_STYLES[token.kind])} title={token.kind === 'other' ? undefined : token.kind}>
+              {token.text}
+            </span>
+          ))}
+        </pre>
+        {hallucinated.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {hallucinated.map(identifier => (
+              <Badge key={identifier} variant="outline" className="border-error/50 text-error font-mono">
+                {identifier}
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap gap-3 text-xs">
+          {LEGEND.map(({ kind, label }) => (
+            <span key={kind} className={cn('font-mono', TOKEN_STYLES[kind])}>{label}</span>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, Database, Upload, X } from 'lucide-react';
+import { SchemaCatalog } from '@/types/validation';
+import { parseSchemaFile } from '@/lib/schema-catalog';
+
+interface SchemaUploadProps {
+  schema: SchemaCatalog | null;
+  // False when the schema did not fit in browser storage
+  isStored: boolean;
+  onSchemaChange: (schema: SchemaCatalog | null) => void;
+  onError: (error: string) => void;
+}
+
+const SCHEMA_FILE_TYPES = '.sql,.ddl,.json';
+
+export const SchemaUpload: React.FC<SchemaUploadProps> = ({ schema, isStored, onSchemaChange, onError }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onSchemaChange(parseSchemaFile(file.name, await file.text()));
+    } catch (error) {
+      onError(`Could not read schema from ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const columnCount = schema?.tables.reduce((sum, table) => sum + table.columns.length, 0) ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Database className="h-5 w-5" />
+          Database Schema
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Upload the schema the queries run against, as DDL (<code>CREATE TABLE</code> statements) or a JSON catalog
+          such as <code>{'{"users": ["id", "name"]}'}</code>. Identifiers in the generated SQL that are neither
+          tables, columns, aliases nor keywords are reported as hallucinated.
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            {schema ? 'Replace' : 'Upload'} schema
+          </Button>
+          {schema && (
+            <>
+              <span className="text-sm">
+                <span className="font-mono">{schema.source}</span>
+                <span className="text-muted-foreground">
+                  {' '}· {schema.tables.length} table{schema.tables.length === 1 ? '' : 's'}, {columnCount} column
+                  {columnCount === 1 ? '' : 's'}
+                </span>
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => onSchemaChange(null)}>
+                <X className="h-4 w-4 mr-1" />
+                Remove
+              </Button>
+            </>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={SCHEMA_FILE_TYPES}
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {schema && !isStored && (
+          <p className="flex items-center gap-2 text-sm text-warning">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            The schema is too large for browser storage. It is used for this session but must be uploaded again
+            after a reload.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,357 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Separator } from '@/components/ui/separator';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger
+} from '@/components/ui/sheet';
+import { SlidersHorizontal, Plus, Trash2, Upload, Download, AlertTriangle } from 'lucide-react';
+import { ScoringModel, ScoringProfile } from '@/types/validation';
+import { DEFAULT_SCORING_PROFILE } from '@/lib/scoring';
+import { createProfileId, serializeScoringProfiles } from '@/lib/scoring-profiles';
+import { useToast } from '@/hooks/use-toast';
+
+interface ScoringProfileEditorProps {
+  profiles: ScoringProfile[];
+  activeProfile: ScoringProfile;
+  onSelect: (id: string) => void;
+  onSave: (profile: ScoringProfile) => void;
+  onDelete: (id: string) => void;
+  onImport: (json: string) => number;
+}
+
+const MODEL_LABELS: Record<ScoringModel, string> = {
+  codebert: 'CodeBERT',
+  flane5: 'FLANE5',
+};
+
+const CONFIDENCE_LABELS: Record<keyof ScoringProfile['confidenceWeights'], string> = {
+  intent: 'Intent',
+  sqlsim: 'SQL similarity',
+  vocab: 'Vocabulary',
+  syntax: 'Syntax',
+  f1: 'F1',
+};
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ id, label, value, disabled, onChange }) => (
+  <div className="space-y-1">
+    <Label htmlFor={id} className="text-xs">{label}</Label>
+    <Input
+      id={id}
+      type="number"
+      min={0}
+      max={1}
+      step={0.05}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => {
+        const parsed = parseFloat(e.target.value);
+        if (!Number.isNaN(parsed)) onChange(Math.min(1, Math.max(0, parsed)));
+      }}
+    />
+  </div>
+);
+
+export const ScoringProfileEditor: React.FC<ScoringProfileEditorProps> = ({
+  profiles,
+  activeProfile,
+  onSelect,
+  onSave,
+  onDelete,
+  onImport
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const isDefault = activeProfile.id === DEFAULT_SCORING_PROFILE.id;
+  // The name field edits a draft so it can be cleared while typing; switching profiles resets it
+  const [nameDraft, setNameDraft] = useState(activeProfile.name);
+  const [draftProfileId, setDraftProfileId] = useState(activeProfile.id);
+  if (draftProfileId !== activeProfile.id) {
+    setDraftProfileId(activeProfile.id);
+    setNameDraft(activeProfile.name);
+  }
+
+  const update = (changes: Partial<ScoringProfile>) => {
+    onSave({ ...activeProfile, ...changes });
+  };
+
+  const updateConfidenceWeight = (key: keyof ScoringProfile['confidenceWeights'], value: number) => {
+    update({ confidenceWeights: { ...activeProfile.confidenceWeights, [key]: value } });
+  };
+
+  const toggleModel = (model: ScoringModel, enabled: boolean) => {
+    const models = enabled
+      ? [...activeProfile.models, model]
+      : activeProfile.models.filter(m => m !== model);
+    if (models.length > 0) update({ models });
+  };
+
+  const handleDuplicate = () => {
+    const profile = {
+      ...activeProfile,
+      confidenceWeights: { ...activeProfile.confidenceWeights },
+      id: createProfileId(),
+      name: `${activeProfile.name} (copy)`
+    };
+    onSave(profile);
+    onSelect(profile.id);
+  };
+
+  const handleExport = () => {
+    const json = serializeScoringProfiles(profiles.filter(p => p.id !== DEFAULT_SCORING_PROFILE.id));
+    const blob = new Blob([json], { type: 'application/json;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.setAttribute('download', 'scoring_profiles.json');
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const count = onImport(await file.text());
+      toast({
+        title: 'Profiles imported',
+        description: `Imported ${count} scoring profile${count === 1 ? '' : 's'}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const confidenceTotal = Object.values(activeProfile.confidenceWeights).reduce((sum, w) => sum + w, 0);
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          Scoring: {activeProfile.name}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Scoring Profiles</SheetTitle>
+          <SheetDescription>
+            Weights and thresholds used for semantic score, pass/fail and confidence.
+            Changes apply immediately across the dashboard.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 mt-6">
+          {/* Profile selection */}
+          <div className="space-y-2">
+            <Label>Active profile</Label>
+            <Select value={activeProfile.id} onValueChange={onSelect}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={handleDuplicate}>
+                <Plus className="h-4 w-4 mr-1" />
+                Duplicate
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onDelete(activeProfile.id)}
+                disabled={isDefault}
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-1" />
+                Import
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExport}
+                disabled={profiles.length <= 1}
+              >
+                <Download className="h-4 w-4 mr-1" />
+                Export
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleImport}
+                className="hidden"
+              />
+            </div>
+          </div>
+
+          {isDefault && (
+            <Alert>
+              <AlertDescription className="text-sm">
+                The default profile is read-only. Duplicate it to tune weights for your dataset.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Separator />
+
+          {/* Semantic score */}
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="profile-name" className="text-xs">Name</Label>
+              <Input
+                id="profile-name"
+                value={nameDraft}
+                disabled={isDefault}
+                aria-invalid={nameDraft.trim() === ''}
+                onChange={(e) => {
+                  setNameDraft(e.target.value);
+                  // An empty name is never saved; the last valid one stays until a new one is typed
+                  if (e.target.value.trim()) update({ name: e.target.value.trim() });
+                }}
+                onBlur={() => setNameDraft(activeProfile.name)}
+              />
+              {nameDraft.trim() === '' && <p className="text-xs text-error">The profile needs a name.</p>}
+            </div>
+
+            <h4 className="font-semibold text-sm">Semantic Score</h4>
+            <div className="flex gap-4">
+              {(Object.keys(MODEL_LABELS) as ScoringModel[]).map(model => (
+                <div key={model} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`model-${model}`}
+                    checked={activeProfile.models.includes(model)}
+                    disabled={isDefault}
+                    onCheckedChange={(checked) => toggleModel(model, checked === true)}
+                  />
+                  <Label htmlFor={`model-${model}`} className="text-sm">{MODEL_LABELS[model]}</Label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Model aggregation</Label>
+              <Select
+                value={activeProfile.aggregation}
+                disabled={isDefault}
+                onValueChange={(value) => update({ aggregation: value as ScoringProfile['aggregation'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="max">Best model (max)</SelectItem>
+                  <SelectItem value="mean">Average of models (mean)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <NumberField
+                id="intent-weight"
+                label="Intent weight"
+                value={activeProfile.intentWeight}
+                disabled={isDefault}
+                onChange={(value) => update({ intentWeight: value })}
+              />
+              <NumberField
+                id="sqlsim-weight"
+                label="SQL similarity weight"
+                value={activeProfile.sqlsimWeight}
+                disabled={isDefault}
+                onChange={(value) => update({ sqlsimWeight: value })}
+              />
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Thresholds */}
+          <div className="space-y-3">
+            <h4 className="font-semibold text-sm">Thresholds</h4>
+            <div className="grid grid-cols-2 gap-3">
+              <NumberField
+                id="pass-threshold"
+                label="Pass threshold"
+                value={activeProfile.passThreshold}
+                disabled={isDefault}
+                onChange={(value) => update({ passThreshold: value })}
+              />
+              <NumberField
+                id="review-threshold"
+                label="Review threshold"
+                value={activeProfile.reviewThreshold}
+                disabled={isDefault}
+                onChange={(value) => update({ reviewThreshold: value })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="require-overlap" className="text-sm">
+                Fail when precision, recall and F1 are all zero
+              </Label>
+              <Switch
+                id="require-overlap"
+                checked={activeProfile.requireNonZeroOverlap}
+                disabled={isDefault}
+                onCheckedChange={(checked) => update({ requireNonZeroOverlap: checked })}
+              />
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Confidence weights */}
+          <div className="space-y-3">
+            <h4 className="font-semibold text-sm">Confidence Weights</h4>
+            <div className="grid grid-cols-2 gap-3">
+              {(Object.keys(CONFIDENCE_LABELS) as (keyof ScoringProfile['confidenceWeights'])[]).map(key => (
+                <NumberField
+                  key={key}
+                  id={`confidence-${key}`}
+                  label={CONFIDENCE_LABELS[key]}
+                  value={activeProfile.confidenceWeights[key]}
+                  disabled={isDefault}
+                  onChange={(value) => updateConfidenceWeight(key, value)}
+                />
+              ))}
+            </div>
+            {Math.abs(confidenceTotal - 1) > 0.001 && (
+              <p className="text-xs text-warning flex items-center gap-1">
+                <AlertTriangle className="h-3 w-3" />
+                Weights sum to {confidenceTotal.toFixed(2)}; confidence will not be on a 0-1 scale.
+              </p>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,118 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, ArrowUpDown, Plus, X } from 'lucide-react';
+import { SortColumn, SortState } from '@/types/validation';
+import { TABLE_COLUMNS } from '@/lib/fields';
+import { DERIVED_SORT_COLUMNS, getSortColumnLabel } from '@/lib/sorting';
+
+interface SortMenuProps {
+  sortState: SortState;
+  hasBaseline: boolean;
+  onChange: (sortState: SortState) => void;
+}
+
+const SORT_COLUMNS: SortColumn[] = [...DERIVED_SORT_COLUMNS, ...TABLE_COLUMNS];
+
+export const SortMenu: React.FC<SortMenuProps> = ({ sortState, hasBaseline, onChange }) => {
+  const { keys } = sortState;
+
+  const updateKey = (index: number, changes: Partial<SortState['keys'][number]>) =>
+    onChange({ ...sortState, keys: keys.map((key, i) => (i === index ? { ...key, ...changes } : key)) });
+
+  const addKey = () => {
+    const column = SORT_COLUMNS.find(candidate => !keys.some(key => key.column === candidate));
+    if (column) onChange({ ...sortState, keys: [...keys, { column, direction: 'desc' }] });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ArrowUpDown className="h-4 w-4 mr-2" />
+          Sort
+          {keys.length > 1 && <span className="ml-1 text-muted-foreground">({keys.length} keys)</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Rows sort by each key in turn. Shift-click a column header to add or cycle it here.
+        </p>
+
+        {keys.length === 0 && <p className="text-sm text-muted-foreground">Unsorted (file order).</p>}
+
+        {keys.map((key, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <span className="w-5 text-xs text-muted-foreground">{index + 1}.</span>
+            <Select value={key.column} onValueChange={(value) => updateKey(index, { column: value as SortColumn })}>
+              <SelectTrigger className="flex-1 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_COLUMNS.map(column => (
+                  <SelectItem
+                    key={column}
+                    value={column}
+                    disabled={
+                      (column === 'baseline_delta' && !hasBaseline) ||
+                      (column !== key.column && keys.some(other => other.column === column))
+                    }
+                  >
+                    {getSortColumnLabel(column)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={() => updateKey(index, { direction: key.direction === 'asc' ? 'desc' : 'asc' })}
+              aria-label={key.direction === 'asc' ? 'Ascending' : 'Descending'}
+            >
+              {key.direction === 'asc' ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={() => onChange({ ...sortState, keys: keys.filter((_, i) => i !== index) })}
+              aria-label={`Remove sort by ${getSortColumnLabel(key.column)}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <Button variant="outline" size="sm" onClick={addKey}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add sort key
+        </Button>
+
+        <Separator />
+
+        <div className="flex items-center justify-between gap-2">
+          <Label className="text-sm">Missing values</Label>
+          <Select
+            value={sortState.nulls}
+            onValueChange={(value) => onChange({ ...sortState, nulls: value as SortState['nulls'] })}
+          >
+            <SelectTrigger className="w-32 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="last">Last</SelectItem>
+              <SelectItem value="first">First</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {!hasBaseline && (
+          <p className="text-xs text-muted-foreground">Load a baseline run to sort by the semantic delta.</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
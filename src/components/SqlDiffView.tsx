@@ -0,0 +1,189 @@
+import React, { useMemo, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { SqlFormatSettings } from '@/types/validation';
+import { DiffOptions, DiffRow, DiffSegment, diffSqlLines, diffSqlTokens } from '@/lib/sql-diff';
+import { SQL_DIALECTS, formatSql } from '@/lib/sql-format';
+import { cn } from '@/lib/utils';
+
+interface SqlDiffViewProps {
+  expected: string;
+  generated: string;
+  sqlFormat: SqlFormatSettings;
+  onSqlFormatChange: (changes: Partial<SqlFormatSettings>) => void;
+}
+
+type DiffGranularity = 'line' | 'token';
+type DiffLayout = 'unified' | 'split';
+
+const SEGMENT_STYLES: Record<DiffSegment['op'], string> = {
+  equal: '',
+  delete: 'bg-error/25 rounded-sm',
+  insert: 'bg-success/25 rounded-sm',
+};
+
+const LINE_STYLES = {
+  delete: 'bg-error/10',
+  insert: 'bg-success/10',
+};
+
+const LINE_NUMBER_CLASS = 'w-10 shrink-0 select-none pr-2 text-right text-muted-foreground';
+
+const renderSegments = (segments: DiffSegment[], side: 'left' | 'right', strikeDeletions = false) =>
+  segments.map((segment, index) => (
+    <span
+      key={index}
+      className={cn(SEGMENT_STYLES[segment.op], strikeDeletions && segment.op === 'delete' && 'line-through')}
+    >
+      {segment.op === 'equal' ? segment[side] : segment.left ?? segment.right}
+    </span>
+  ));
+
+const renderLine = (
+  key: string,
+  op: 'equal' | 'delete' | 'insert',
+  segments: DiffSegment[],
+  side: 'left' | 'right',
+  numbers: (number | undefined)[]
+) => (
+  <div key={key} className={cn('flex', op !== 'equal' && LINE_STYLES[op])}>
+    {numbers.map((number, index) => (
+      <span key={index} className={LINE_NUMBER_CLASS}>{number ?? ''}</span>
+    ))}
+    <span className="w-4 shrink-0 select-none text-muted-foreground">
+      {op === 'delete' ? '-' : op === 'insert' ? '+' : ' '}
+    </span>
+    <span className="whitespace-pre-wrap break-all">{renderSegments(segments, side)}</span>
+  </div>
+);
+
+const renderUnifiedRows = (rows: DiffRow[]) =>
+  rows.flatMap((row, index) => {
+    if (row.op === 'equal') {
+      return [renderLine(`${index}`, 'equal', row.right.segments, 'right', [row.left.number, row.right.number])];
+    }
+    const lines = [];
+    if (row.left) lines.push(renderLine(`${index}-l`, 'delete', row.left.segments, 'left', [row.left.number, undefined]));
+    if (row.right) lines.push(renderLine(`${index}-r`, 'insert', row.right.segments, 'right', [undefined, row.right.number]));
+    return lines;
+  });
+
+const renderSplitRows = (rows: DiffRow[]) =>
+  rows.map((row, index) => (
+    <div key={index} className="grid grid-cols-2 gap-2">
+      {row.left
+        ? renderLine('l', row.op === 'equal' ? 'equal' : 'delete', row.left.segments, 'left', [row.left.number])
+        : <div className="bg-muted/50" />}
+      {row.right
+        ? renderLine('r', row.op === 'equal' ? 'equal' : 'insert', row.right.segments, 'right', [row.right.number])
+        : <div className="bg-muted/50" />}
+    </div>
+  ));
+
+export const SqlDiffView: React.FC<SqlDiffViewProps> = ({ expected, generated, sqlFormat, onSqlFormatChange }) => {
+  const [granularity, setGranularity] = useState<DiffGranularity>('line');
+  const [layout, setLayout] = useState<DiffLayout>('split');
+  const [options, setOptions] = useState<DiffOptions>({ ignoreWhitespace: false, ignoreKeywordCase: false });
+
+  const { dialect, compareFormatted } = sqlFormat;
+  const left = compareFormatted ? formatSql(expected, dialect) : expected;
+  const right = compareFormatted ? formatSql(generated, dialect) : generated;
+
+  const rows = useMemo(
+    () => (granularity === 'line' ? diffSqlLines(left, right, options) : []),
+    [left, right, granularity, options]
+  );
+  const segments = useMemo(
+    () => (granularity === 'token' ? diffSqlTokens(left, right, options) : []),
+    [left, right, granularity, options]
+  );
+
+  const changeCount = granularity === 'line'
+    ? rows.filter(row => row.op !== 'equal').length
+    : segments.filter(segment => segment.op !== 'equal').length;
+
+  const updateOption = (key: keyof DiffOptions, value: boolean) => setOptions(current => ({ ...current, [key]: value }));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-4">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={granularity}
+          onValueChange={(value) => value && setGranularity(value as DiffGranularity)}
+        >
+          <ToggleGroupItem value="line">Lines</ToggleGroupItem>
+          <ToggleGroupItem value="token">Tokens</ToggleGroupItem>
+        </ToggleGroup>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={layout}
+          onValueChange={(value) => value && setLayout(value as DiffLayout)}
+        >
+          <ToggleGroupItem value="split">Split</ToggleGroupItem>
+          <ToggleGroupItem value="unified">Unified</ToggleGroupItem>
+        </ToggleGroup>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="diff-ignore-whitespace"
+            checked={options.ignoreWhitespace}
+            onCheckedChange={(checked) => updateOption('ignoreWhitespace', checked)}
+          />
+          <Label htmlFor="diff-ignore-whitespace" className="text-sm font-normal">Ignore whitespace</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="diff-ignore-keyword-case"
+            checked={options.ignoreKeywordCase}
+            onCheckedChange={(checked) => updateOption('ignoreKeywordCase', checked)}
+          />
+          <Label htmlFor="diff-ignore-keyword-case" className="text-sm font-normal">Ignore keyword case</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="diff-compare-formatted"
+            checked={compareFormatted}
+            onCheckedChange={(checked) => onSqlFormatChange({ compareFormatted: checked })}
+          />
+          <Label htmlFor="diff-compare-formatted" className="text-sm font-normal">
+            Compare formatted ({SQL_DIALECTS.find(option => option.id === dialect)?.label})
+          </Label>
+        </div>
+        <span className="ml-auto text-xs text-muted-foreground">
+          {changeCount === 0
+            ? 'No differences'
+            : `${changeCount} changed ${granularity === 'line' ? 'line' : 'span'}${changeCount === 1 ? '' : 's'}`}
+        </span>
+      </div>
+
+      {layout === 'split' && (
+        <div className="grid grid-cols-2 gap-2 text-sm font-semibold">
+          <span className="text-success">Expected SQL</span>
+          <span className="text-primary">Generated SQL</span>
+        </div>
+      )}
+
+      <div className="rounded-md border bg-muted/30 p-3 font-mono text-xs overflow-x-auto">
+        {granularity === 'line' && (layout === 'unified' ? renderUnifiedRows(rows) : renderSplitRows(rows))}
+        {granularity === 'token' && layout === 'unified' && (
+          <pre className="whitespace-pre-wrap break-all">{renderSegments(segments, 'right', true)}</pre>
+        )}
+        {granularity === 'token' && layout === 'split' && (
+          <div className="grid grid-cols-2 gap-2">
+            <pre className="whitespace-pre-wrap break-all">
+              {renderSegments(segments.filter(segment => segment.op !== 'insert'), 'left')}
+            </pre>
+            <pre className="whitespace-pre-wrap break-all">
+              {renderSegments(segments.filter(segment => segment.op !== 'delete'), 'right')}
+            </pre>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { WrapText } from 'lucide-react';
+import { SqlDialect, SqlFormatSettings } from '@/types/validation';
+import { SQL_DIALECTS } from '@/lib/sql-format';
+
+interface SqlFormatMenuProps {
+  settings: SqlFormatSettings;
+  onChange: (changes: Partial<SqlFormatSettings>) => void;
+}
+
+export const SqlFormatMenu: React.FC<SqlFormatMenuProps> = ({ settings, onChange }) => {
+  const dialectLabel = SQL_DIALECTS.find(dialect => dialect.id === settings.dialect)?.label;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <WrapText className="h-4 w-4 mr-2" />
+          SQL Format
+          {settings.formatDisplay && <span className="ml-1 text-muted-foreground">({dialectLabel})</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Dialect</Label>
+          <Select value={settings.dialect} onValueChange={(value) => onChange({ dialect: value as SqlDialect })}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SQL_DIALECTS.map(dialect => (
+                <SelectItem key={dialect.id} value={dialect.id}>{dialect.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="sql-format-display" className="text-sm font-normal">Pretty-print SQL</Label>
+          <Switch
+            id="sql-format-display"
+            checked={settings.formatDisplay}
+            onCheckedChange={(checked) => onChange({ formatDisplay: checked })}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="sql-format-compare" className="text-sm font-normal">Diff formatted SQL</Label>
+          <Switch
+            id="sql-format-compare"
+            checked={settings.compareFormatted}
+            onCheckedChange={(checked) => onChange({ compareFormatted: checked })}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Formatting upper-cases keywords and re-indents each clause. Queries that do not parse
+          for the selected dialect are shown as stored.
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Structural similarity and the Generated SQL Parses column are recomputed for this dialect.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { SqlDialect } from '@/types/validation';
+import { SQL_DIALECTS } from '@/lib/sql-format';
+import { SYNTAX_DISAGREEMENT_THRESHOLD, checkSqlSyntax } from '@/lib/sql-syntax';
+
+interface SqlSyntaxStatusProps {
+  sql: string;
+  dialect: SqlDialect;
+  // The uploaded syntax_score, compared against the parse result
+  syntaxScore: number;
+}
+
+export const SqlSyntaxStatus: React.FC<SqlSyntaxStatusProps> = ({ sql, dialect, syntaxScore }) => {
+  const { parses, error } = checkSqlSyntax(sql, dialect);
+  const dialectLabel = SQL_DIALECTS.find(option => option.id === dialect)?.label;
+
+  if (parses) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <CheckCircle2 className="h-4 w-4 text-success" />
+        Generated SQL parses as {dialectLabel}.
+      </p>
+    );
+  }
+
+  const errorLine = sql.replace(/\r\n/g, '\n').split('\n')[error.line - 1] ?? '';
+  const disagrees = syntaxScore >= SYNTAX_DISAGREEMENT_THRESHOLD;
+
+  return (
+    <Alert className="border-error/50 bg-error/5">
+      <AlertTriangle className="h-4 w-4 text-error" />
+      <AlertDescription className="space-y-2">
+        <p>
+          <strong>Generated SQL does not parse as {dialectLabel}</strong> — line {error.line}, column {error.column}:{' '}
+          {error.message}
+        </p>
+        {errorLine && (
+          <pre className="overflow-x-auto rounded bg-background p-2 font-mono text-xs">
+            {errorLine}
+            {'\n'}
+            <span className="text-error">{' '.repeat(Math.max(error.column - 1, 0))}^</span>
+          </pre>
+        )}
+        {disagrees && (
+          <p className="text-sm">
+            The uploaded syntax score is <strong>{syntaxScore.toFixed(2)}</strong>, which disagrees with the parser.
+          </p>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+};
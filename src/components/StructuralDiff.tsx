@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { GitCompare } from 'lucide-react';
+import { SqlDialect } from '@/types/validation';
+import { STRUCTURE_CATEGORY_LABELS, compareSqlStructure } from '@/lib/sql-structure';
+
+interface StructuralDiffProps {
+  expected: string;
+  generated: string;
+  dialect: SqlDialect;
+}
+
+const ITEM_CLASS_NAME = 'font-mono text-xs rounded px-1.5 py-0.5 break-all';
+
+export const StructuralDiff: React.FC<StructuralDiffProps> = ({ expected, generated, dialect }) => {
+  const comparison = useMemo(
+    () => compareSqlStructure(expected, generated, dialect),
+    [expected, generated, dialect]
+  );
+
+  const categories = comparison?.categories.filter(diff =>
+    diff.matched.length + diff.missing.length + diff.extra.length + diff.changed.length > 0
+  ) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2 text-base">
+          <span className="flex items-center gap-2">
+            <GitCompare className="h-4 w-4" />
+            Structural Comparison
+          </span>
+          {comparison && (
+            <span className="text-sm font-normal text-muted-foreground">
+              Similarity <span className="font-semibold text-foreground">{comparison.similarity.toFixed(2)}</span>
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!comparison ? (
+          <p className="text-sm text-muted-foreground">
+            The expected or generated SQL could not be parsed, so there is no structure to compare.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {categories.map(diff => {
+              const differs = diff.missing.length + diff.extra.length + diff.changed.length > 0;
+              return (
+                <div key={diff.category} className="grid grid-cols-[9rem_1fr] gap-3 text-sm">
+                  <div className="flex items-start gap-2">
+                    <span className="font-medium">{STRUCTURE_CATEGORY_LABELS[diff.category]}</span>
+                    {!differs && <Badge variant="outline" className="text-success border-success/50">match</Badge>}
+                  </div>
+                  <div className="flex flex-wrap gap-1.5">
+                    {diff.missing.map((item, index) => (
+                      <span key={`missing-${index}`} className={`${ITEM_CLASS_NAME} bg-error/15 text-error`} title="Missing from the generated SQL">
+                        − {item}
+                      </span>
+                    ))}
+                    {diff.extra.map((item, index) => (
+                      <span key={`extra-${index}`} className={`${ITEM_CLASS_NAME} bg-warning/20`} title="Only in the generated SQL">
+                        + {item}
+                      </span>
+                    ))}
+                    {diff.changed.map((change, index) => (
+                      <span key={`changed-${index}`} className={`${ITEM_CLASS_NAME} bg-info/15`} title="Written differently">
+                        {change.expected} → {change.generated}
+                      </span>
+                    ))}
+                    {diff.matched.map((item, index) => (
+                      <span key={`matched-${index}`} className={`${ITEM_CLASS_NAME} bg-muted text-muted-foreground`}>
+                        {item}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+            <p className="text-xs text-muted-foreground">
+              <span className="text-error">−</span> missing from the generated SQL ·{' '}
+              <span>+</span> extra · → written differently. Aliases are resolved to table names
+              and keywords are compared case-insensitively.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,88 +1,53 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { TrendingUp, Target, CheckCircle2, XCircle, BarChart3, AlertTriangle } from 'lucide-react';
-import { SQLTestCase, ValidationSummary } from '@/types/validation';
+import { TrendingUp, Target, CheckCircle2, XCircle, BarChart3, AlertTriangle, Layers, Ghost } from 'lucide-react';
+import { SQLTestCase, ScoringProfile } from '@/types/validation';
+import { getScoreGrade, scoreTestCase, summarizeResults } from '@/lib/scoring';
+import { formatRunLabel, summarizeByRun } from '@/lib/run-tags';
+import { SchemaIndex, rankHallucinatedIdentifiers } from '@/lib/schema-catalog';
 
 interface SummaryCardsProps {
   data: SQLTestCase[];
+  profile: ScoringProfile;
+  // Optional baseline run; when present each card shows the change against it
+  baseline?: SQLTestCase[];
+  // Uploaded database schema; enables the hallucinated identifier leaderboard
+  schemaIndex?: SchemaIndex | null;
 }
 
-export const SummaryCards: React.FC<SummaryCardsProps> = ({ data }) => {
-  const calculateSummary = (): ValidationSummary => {
-    if (data.length === 0) {
-      return {
-        totalTests: 0,
-        passRate: 0,
-        averageSemanticScore: 0,
-        averageSyntaxScore: 0,
-        codebertPassRate: 0,
-        flane5PassRate: 0,
-        commonErrors: [],
-        topUnknownTokens: []
-      };
-    }
-
-    const totalTests = data.length;
-    // New pass criteria: not all metrics are 0 and semantic score > 0.7
-    const overallPasses = data.filter(d => {
-      const notAllZero = !(d.precision === 0 && d.recall === 0 && d.f1_score === 0);
-      let semanticScore = 0;
-      if (
-        typeof d.codebert_intent_score === 'number' &&
-        typeof d.codebert_sqlsim_score === 'number' &&
-        typeof d.flane5_intent_score === 'number' &&
-        typeof d.flane5_sqlsim_score === 'number'
-      ) {
-        const codebertScore = d.codebert_intent_score * 0.5 + d.codebert_sqlsim_score * 0.5;
-        const flane5Score = d.flane5_intent_score * 0.5 + d.flane5_sqlsim_score * 0.5;
-        semanticScore = Math.max(codebertScore, flane5Score);
-      }
-      return notAllZero && semanticScore > 0.7;
-    }).length;
-
-    const avgSemantic = data.length === 0 ? 0 :
-      data.reduce((sum, d) => {
-        if (
-          typeof d.codebert_intent_score === 'number' &&
-          typeof d.codebert_sqlsim_score === 'number' &&
-          typeof d.flane5_intent_score === 'number' &&
-          typeof d.flane5_sqlsim_score === 'number'
-        ) {
-          const codebertScore = d.codebert_intent_score * 0.5 + d.codebert_sqlsim_score * 0.5;
-          const flane5Score = d.flane5_intent_score * 0.5 + d.flane5_sqlsim_score * 0.5;
-          return sum + Math.max(codebertScore, flane5Score);
-        }
-        return sum;
-      }, 0) / data.length;
-    const avgSyntax = data.reduce((sum, d) => sum + (d.syntax_score || 0), 0) / totalTests;
-
-    // Collect unknown tokens
-    const allUnknownTokens = data
-      .flatMap(d => d.unknown_tokens || [])
-      .reduce((acc, token) => {
-        acc[token] = (acc[token] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-
-    const topUnknownTokens = Object.entries(allUnknownTokens)
-      .sort(([,a], [,b]) => b - a)
-      .slice(0, 5)
-      .map(([token]) => token);
-
-    return {
-      totalTests,
-      passRate: (overallPasses / totalTests) * 100,
-      averageSemanticScore: avgSemantic,
-      averageSyntaxScore: avgSyntax,
-      codebertPassRate: 100,
-      flane5PassRate: 100,
-      commonErrors: [],
-      topUnknownTokens
-    };
-  };
-
-  const summary = calculateSummary();
+const LEADERBOARD_SIZE = 8;
+
+const DeltaNote = ({ current, previous, suffix = '', digits = 2 }: {
+  current: number;
+  previous?: number;
+  suffix?: string;
+  digits?: number;
+}) => {
+  if (previous === undefined) return null;
+  const delta = current - previous;
+  const color = Math.abs(delta) < Math.pow(10, -digits) / 2
+    ? 'text-muted-foreground'
+    : delta > 0 ? 'text-success' : 'text-error';
+  return (
+    <p className={`text-xs font-medium ${color}`}>
+      {delta > 0 ? '+' : ''}{delta.toFixed(digits)}{suffix} vs baseline
+    </p>
+  );
+};
+
+export const SummaryCards: React.FC<SummaryCardsProps> = ({ data, profile, baseline, schemaIndex }) => {
+  // Each of these scores every row, so they only rerun when the rows or the profile change
+  const summary = useMemo(() => summarizeResults(data, profile), [data, profile]);
+  const hallucinations = useMemo(
+    () => (schemaIndex ? rankHallucinatedIdentifiers(data, schemaIndex) : null),
+    [data, schemaIndex]
+  );
+  const baselineSummary = useMemo(
+    () => (baseline ? summarizeResults(baseline, profile) : undefined),
+    [baseline, profile]
+  );
+  const runSummaries = useMemo(() => summarizeByRun(data, profile), [data, profile]);
 
   const getScoreColor = (score: number): string => {
     if (score >= 0.9) return 'bg-metric-excellent text-white';
@@ -98,19 +63,10 @@ export const SummaryCards: React.FC<SummaryCardsProps> = ({ data }) => {
   };
 
   // Calculate semantic scores for distribution
-  const semanticScores = data.map(d => {
-    if (
-      typeof d.codebert_intent_score === 'number' &&
-      typeof d.codebert_sqlsim_score === 'number' &&
-      typeof d.flane5_intent_score === 'number' &&
-      typeof d.flane5_sqlsim_score === 'number'
-    ) {
-      const codebertScore = d.codebert_intent_score * 0.5 + d.codebert_sqlsim_score * 0.5;
-      const flane5Score = d.flane5_intent_score * 0.5 + d.flane5_sqlsim_score * 0.5;
-      return Math.max(codebertScore, flane5Score);
-    }
-    return 0;
-  });
+  const semanticScores = useMemo(
+    () => data.map(d => scoreTestCase(d, profile).semanticScore),
+    [data, profile]
+  );
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
@@ -125,6 +81,7 @@ export const SummaryCards: React.FC<SummaryCardsProps> = ({ data }) => {
           <p className="text-xs text-muted-foreground">
             Test cases analyzed
           </p>
+          <DeltaNote current={summary.totalTests} previous={baselineSummary?.totalTests} digits={0} />
         </CardContent>
       </Card>
 
@@ -139,8 +96,9 @@ export const SummaryCards: React.FC<SummaryCardsProps> = ({ data }) => {
             {summary.passRate.toFixed(1)}%
           </div>
           <p className="text-xs text-muted-foreground">
-            Both CodeBERT & FLANE5 match
+            Semantic score above {profile.passThreshold}
           </p>
+          <DeltaNote current={summary.passRate} previous={baselineSummary?.passRate} suffix=" pts" digits={1} />
         </CardContent>
       </Card>
 
@@ -153,10 +111,9 @@ export const SummaryCards: React.FC<SummaryCardsProps> = ({ data }) => {
         <CardContent>
           <div className="text-2xl font-bold">{summary.averageSemanticScore.toFixed(2)}</div>
           <Badge variant="outline" className={getScoreColor(summary.averageSemanticScore)}>
-            {summary.averageSemanticScore >= 0.9 ? 'Excellent' :
-             summary.averageSemanticScore >= 0.7 ? 'Good' :
-             summary.averageSemanticScore >= 0.5 ? 'Fair' : 'Poor'}
+            {getScoreGrade(summary.averageSemanticScore)}
           </Badge>
+          <DeltaNote current={summary.averageSemanticScore} previous={baselineSummary?.averageSemanticScore} digits={3} />
         </CardContent>
       </Card>
 
@@ -169,10 +126,9 @@ export const SummaryCards: React.FC<SummaryCardsProps> = ({ data }) => {
         <CardContent>
           <div className="text-2xl font-bold">{summary.averageSyntaxScore.toFixed(2)}</div>
           <Badge variant="outline" className={getScoreColor(summary.averageSyntaxScore)}>
-            {summary.averageSyntaxScore >= 0.9 ? 'Excellent' :
-             summary.averageSyntaxScore >= 0.7 ? 'Good' :
-             summary.averageSyntaxScore >= 0.5 ? 'Fair' : 'Poor'}
+            {getScoreGrade(summary.averageSyntaxScore)}
           </Badge>
+          <DeltaNote current={summary.averageSyntaxScore} previous={baselineSummary?.averageSyntaxScore} digits={3} />
         </CardContent>
       </Card>
 
@@ -187,8 +143,9 @@ export const SummaryCards: React.FC<SummaryCardsProps> = ({ data }) => {
             {summary.codebertPassRate.toFixed(1)}%
           </div>
           <p className="text-xs text-muted-foreground">
-            {summary.totalTests} of {summary.totalTests} tests
+            {Math.round(summary.codebertPassRate * summary.totalTests / 100)} of {summary.totalTests} tests
           </p>
+          <DeltaNote current={summary.codebertPassRate} previous={baselineSummary?.codebertPassRate} suffix=" pts" digits={1} />
         </CardContent>
       </Card>
 
@@ -203,8 +160,9 @@ export const SummaryCards: React.FC<SummaryCardsProps> = ({ data }) => {
             {summary.flane5PassRate.toFixed(1)}%
           </div>
           <p className="text-xs text-muted-foreground">
-            {summary.totalTests} of {summary.totalTests} tests
+            {Math.round(summary.flane5PassRate * summary.totalTests / 100)} of {summary.totalTests} tests
           </p>
+          <DeltaNote current={summary.flane5PassRate} previous={baselineSummary?.flane5PassRate} suffix=" pts" digits={1} />
         </CardContent>
       </Card>
 
@@ -235,6 +193,57 @@ export const SummaryCards: React.FC<SummaryCardsProps> = ({ data }) => {
           </div>
         </CardContent>
       </Card>
+
+      {/* Identifiers in generated SQL that the uploaded schema does not define */}
+      {hallucinations && (
+        <Card className="md:col-span-2">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Hallucinated Identifiers</CardTitle>
+            <Ghost className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            {hallucinations.identifiers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Every identifier in the generated SQL is in the schema.</p>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  {hallucinations.affectedCases} of {data.length} test cases use at least one
+                </p>
+                {hallucinations.identifiers.slice(0, LEADERBOARD_SIZE).map(({ identifier, cases }) => (
+                  <div key={identifier} className="flex justify-between gap-4 text-sm">
+                    <span className="truncate font-mono text-error">{identifier}</span>
+                    <span className="whitespace-nowrap">{cases} tests</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Per-run breakdown for datasets built from several tagged files */}
+      {runSummaries.length > 1 && (
+        <Card className="md:col-span-2">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">By Run</CardTitle>
+            <Layers className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {runSummaries.map(({ runId, modelLabel, summary: runSummary }) => (
+                <div key={runId} className="flex justify-between gap-4 text-sm">
+                  <span className="truncate">{formatRunLabel(runId, modelLabel)}</span>
+                  <span className="whitespace-nowrap">
+                    {runSummary.totalTests} tests ·{' '}
+                    <span className={getPassRateColor(runSummary.passRate)}>{runSummary.passRate.toFixed(1)}%</span>
+                    {' '}· {runSummary.averageSemanticScore.toFixed(2)} avg
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
\ No newline at end of file
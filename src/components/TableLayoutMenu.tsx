@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Separator } from '@/components/ui/separator';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Columns3, Save, Trash2 } from 'lucide-react';
+import { SQLTestCase, TableLayout } from '@/types/validation';
+import { FIELD_LABELS, TABLE_COLUMNS } from '@/lib/fields';
+import { isBuiltInLayout, setColumnVisible } from '@/lib/table-layouts';
+
+interface TableLayoutMenuProps {
+  layouts: TableLayout[];
+  activeLayout: TableLayout;
+  tableLayout: TableLayout;
+  isModified: boolean;
+  onSelect: (id: string) => void;
+  onChange: (changes: Partial<Pick<TableLayout, 'columns' | 'widths'>>) => void;
+  onSave: (name?: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const TableLayoutMenu: React.FC<TableLayoutMenuProps> = ({
+  layouts,
+  activeLayout,
+  tableLayout,
+  isModified,
+  onSelect,
+  onChange,
+  onSave,
+  onDelete
+}) => {
+  const [newLayoutName, setNewLayoutName] = useState('');
+  const builtIn = isBuiltInLayout(activeLayout.id);
+  const hiddenCount = TABLE_COLUMNS.length - tableLayout.columns.length;
+
+  const toggleColumn = (column: keyof SQLTestCase, visible: boolean) =>
+    onChange({ columns: setColumnVisible(tableLayout.columns, column, visible) });
+
+  const handleSaveAs = () => {
+    onSave(newLayoutName.trim() || undefined);
+    setNewLayoutName('');
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Columns3 className="h-4 w-4 mr-2" />
+          Columns
+          {hiddenCount > 0 && <span className="ml-1 text-muted-foreground">({hiddenCount} hidden)</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Layout</Label>
+          <div className="flex gap-2">
+            <Select value={activeLayout.id} onValueChange={onSelect}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {layouts.map(layout => (
+                  <SelectItem key={layout.id} value={layout.id}>{layout.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!builtIn && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onDelete(activeLayout.id)}
+                aria-label={`Delete layout ${activeLayout.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          {isModified && (
+            <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+              <span>Unsaved changes</span>
+              <span className="flex gap-1">
+                <Button variant="ghost" size="sm" className="h-7" onClick={() => onSelect(activeLayout.id)}>
+                  Revert
+                </Button>
+                {!builtIn && (
+                  <Button variant="ghost" size="sm" className="h-7" onClick={() => onSave()}>
+                    Save
+                  </Button>
+                )}
+              </span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            className="h-8"
+            value={newLayoutName}
+            onChange={(e) => setNewLayoutName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSaveAs()}
+            placeholder="New layout name"
+          />
+          <Button size="sm" className="h-8" onClick={handleSaveAs} disabled={!newLayoutName.trim()}>
+            <Save className="h-4 w-4 mr-1" />
+            Save as
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">
+            Drag headers to reorder; drag a header's right edge to resize.
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 shrink-0"
+            onClick={() => onChange({ columns: TABLE_COLUMNS, widths: {} })}
+          >
+            Show all
+          </Button>
+        </div>
+        <div className="max-h-72 overflow-y-auto space-y-1 pr-1">
+          {TABLE_COLUMNS.map(column => (
+            <div key={column} className="flex items-center gap-2">
+              <Checkbox
+                id={`column-${column}`}
+                checked={tableLayout.columns.includes(column)}
+                onCheckedChange={(checked) => toggleColumn(column, checked === true)}
+                disabled={column === 'id'}
+              />
+              <Label htmlFor={`column-${column}`} className="text-sm font-normal">
+                {FIELD_LABELS[column]}
+              </Label>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
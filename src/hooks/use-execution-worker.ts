@@ -0,0 +1,61 @@
+import * as React from "react"
+
+import { ExecutionOptions, ExecutionResult } from "@/types/validation"
+import { ExecutionCase, ExecutionDatabase, ExecutionWorkerResponse } from "@/workers/execution-protocol"
+
+// Runs one execution check at a time in a dedicated worker. run() resolves to null when
+// the check is cancelled; cancel() terminates the worker outright.
+export function useExecutionWorker() {
+  const workerRef = React.useRef<Worker | null>(null)
+  const resolveRef = React.useRef<((results: Map<string, ExecutionResult> | null) => void) | null>(null)
+  // Fraction of cases run; null while idle
+  const [progress, setProgress] = React.useState<number | null>(null)
+
+  const dispose = React.useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    resolveRef.current = null
+    setProgress(null)
+  }, [])
+
+  React.useEffect(() => dispose, [dispose])
+
+  const run = React.useCallback(
+    (database: ExecutionDatabase, cases: ExecutionCase[], options: ExecutionOptions) => {
+      dispose()
+      const worker = new Worker(new URL("../workers/execution.worker.ts", import.meta.url), {
+        type: "module",
+      })
+      workerRef.current = worker
+      setProgress(0)
+      return new Promise<Map<string, ExecutionResult> | null>((resolve, reject) => {
+        resolveRef.current = resolve
+        worker.onmessage = (event: MessageEvent<ExecutionWorkerResponse>) => {
+          const message = event.data
+          if (message.type === "progress") {
+            setProgress(message.fraction)
+            return
+          }
+          dispose()
+          if (message.type === "results") resolve(new Map(message.results))
+          else reject(new Error(message.message))
+        }
+        worker.onerror = (event) => {
+          dispose()
+          reject(new Error(event.message || "Execution worker failed"))
+        }
+        // Database files are copied rather than transferred so the same file can be rerun
+        worker.postMessage({ type: "run", database, cases, options })
+      })
+    },
+    [dispose]
+  )
+
+  const cancel = React.useCallback(() => {
+    const resolve = resolveRef.current
+    dispose()
+    resolve?.(null)
+  }, [dispose])
+
+  return { progress, run, cancel }
+}
@@ -0,0 +1,96 @@
+import * as React from "react"
+
+import { ColumnMapping, ImportReport } from "@/types/validation"
+import { ImportPhase, ImportWorkerRequest, ImportWorkerResponse } from "@/workers/import-protocol"
+
+export interface ImportProgress {
+  phase: ImportPhase
+  // Undefined while the phase has no measurable progress
+  fraction?: number
+}
+
+export type ImportStepResult =
+  | { type: "needs-mapping"; headers: string[]; sampleRow: Record<string, unknown> }
+  | { type: "report"; report: ImportReport }
+  | { type: "cancelled" }
+
+// Runs one import at a time in a dedicated worker. Each step resolves on the worker's
+// next needs-mapping/report message; cancel() terminates the worker outright.
+export function useImportWorker() {
+  const workerRef = React.useRef<Worker | null>(null)
+  const pendingRef = React.useRef<{
+    resolve: (result: ImportStepResult) => void
+    reject: (error: Error) => void
+  } | null>(null)
+  const [progress, setProgress] = React.useState<ImportProgress | null>(null)
+
+  const dispose = React.useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    pendingRef.current = null
+    setProgress(null)
+  }, [])
+
+  React.useEffect(() => dispose, [dispose])
+
+  const send = React.useCallback((request: ImportWorkerRequest) => {
+    const worker = workerRef.current
+    if (!worker) return Promise.resolve<ImportStepResult>({ type: "cancelled" })
+    return new Promise<ImportStepResult>((resolve, reject) => {
+      pendingRef.current = { resolve, reject }
+      worker.postMessage(request)
+    })
+  }, [])
+
+  const handleMessage = React.useCallback(
+    (event: MessageEvent<ImportWorkerResponse>) => {
+      const message = event.data
+      const pending = pendingRef.current
+      if (message.type === "progress") {
+        setProgress({ phase: message.phase, fraction: message.fraction })
+        return
+      }
+      if (message.type === "needs-mapping") {
+        setProgress(null)
+        pending?.resolve(message)
+        return
+      }
+      // A report or an error ends the import
+      dispose()
+      if (message.type === "report") pending?.resolve(message)
+      else pending?.reject(new Error(message.message))
+    },
+    [dispose]
+  )
+
+  const start = React.useCallback(
+    (file: File) => {
+      dispose()
+      const worker = new Worker(new URL("../workers/import.worker.ts", import.meta.url), {
+        type: "module",
+      })
+      worker.onmessage = handleMessage
+      worker.onerror = (event) => {
+        const pending = pendingRef.current
+        dispose()
+        pending?.reject(new Error(event.message || "Import worker failed"))
+      }
+      workerRef.current = worker
+      return send({ type: "parse", file })
+    },
+    [dispose, handleMessage, send]
+  )
+
+  const applyMapping = React.useCallback(
+    (mapping: ColumnMapping | null) => send({ type: "map", mapping }),
+    [send]
+  )
+
+  const cancel = React.useCallback(() => {
+    const pending = pendingRef.current
+    dispose()
+    pending?.resolve({ type: "cancelled" })
+  }, [dispose])
+
+  return { progress, start, applyMapping, cancel }
+}
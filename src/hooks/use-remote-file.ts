@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query"
+
+import { fetchRemoteFile } from "@/lib/remote"
+
+// Fetches a results file when url is set. Nothing is cached: each load re-downloads,
+// since CI overwrites artifacts in place.
+export function useRemoteFile(url: string | null) {
+  return useQuery({
+    queryKey: ["remote-file", url],
+    queryFn: ({ signal }) => fetchRemoteFile(url as string, signal),
+    enabled: !!url,
+    retry: false,
+    gcTime: 0,
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+  })
+}
@@ -0,0 +1,44 @@
+import * as React from "react"
+
+import { EvaluationRun, SQLTestCase } from "@/types/validation"
+import { deleteRun, listRuns, loadRunRows, saveRun } from "@/lib/runs"
+
+export function useRunRegistry() {
+  const [runs, setRuns] = React.useState<EvaluationRun[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const refresh = React.useCallback(async () => {
+    try {
+      setRuns(await listRuns())
+      setError(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "IndexedDB is unavailable")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const addRun = React.useCallback(
+    async (run: Omit<EvaluationRun, "id" | "rowCount" | "createdAt">, rows: SQLTestCase[]) => {
+      const saved = await saveRun(run, rows)
+      await refresh()
+      return saved
+    },
+    [refresh]
+  )
+
+  const removeRun = React.useCallback(
+    async (id: string) => {
+      await deleteRun(id)
+      await refresh()
+    },
+    [refresh]
+  )
+
+  return { runs, loading, error, addRun, removeRun, loadRunRows }
+}
@@ -0,0 +1,19 @@
+import * as React from "react"
+
+import { SchemaCatalog } from "@/types/validation"
+import { buildSchemaIndex, loadSchemaCatalog, saveSchemaCatalog } from "@/lib/schema-catalog"
+
+// The uploaded database schema, kept in localStorage, with its lookup index. A schema too
+// large to store stays in use for this session; isStored tells the user it will not survive a reload.
+export function useSchemaCatalog() {
+  const [schema, setSchema] = React.useState<SchemaCatalog | null>(loadSchemaCatalog)
+  const [isStored, setIsStored] = React.useState(true)
+
+  React.useEffect(() => {
+    setIsStored(saveSchemaCatalog(schema))
+  }, [schema])
+
+  const schemaIndex = React.useMemo(() => (schema ? buildSchemaIndex(schema) : null), [schema])
+
+  return { schema, schemaIndex, isStored, setSchema }
+}
@@ -0,0 +1,62 @@
+import * as React from "react"
+
+import { ScoringProfile } from "@/types/validation"
+import { DEFAULT_SCORING_PROFILE } from "@/lib/scoring"
+import {
+  loadActiveProfileId,
+  loadScoringProfiles,
+  parseScoringProfiles,
+  saveActiveProfileId,
+  saveScoringProfiles,
+} from "@/lib/scoring-profiles"
+
+export function useScoringProfiles() {
+  const [profiles, setProfiles] = React.useState<ScoringProfile[]>(loadScoringProfiles)
+  const [activeProfileId, setActiveProfileId] = React.useState<string>(loadActiveProfileId)
+
+  React.useEffect(() => {
+    saveScoringProfiles(profiles)
+  }, [profiles])
+
+  React.useEffect(() => {
+    saveActiveProfileId(activeProfileId)
+  }, [activeProfileId])
+
+  const activeProfile =
+    profiles.find((p) => p.id === activeProfileId) ?? DEFAULT_SCORING_PROFILE
+
+  const saveProfile = React.useCallback((profile: ScoringProfile) => {
+    setProfiles((prev) =>
+      prev.some((p) => p.id === profile.id)
+        ? prev.map((p) => (p.id === profile.id ? profile : p))
+        : [...prev, profile]
+    )
+  }, [])
+
+  const deleteProfile = React.useCallback((id: string) => {
+    if (id === DEFAULT_SCORING_PROFILE.id) return
+    setProfiles((prev) => prev.filter((p) => p.id !== id))
+    setActiveProfileId((prev) => (prev === id ? DEFAULT_SCORING_PROFILE.id : prev))
+  }, [])
+
+  // Imported profiles replace existing ones with the same id
+  const importProfiles = React.useCallback((json: string) => {
+    const imported = parseScoringProfiles(json).filter(
+      (p) => p.id !== DEFAULT_SCORING_PROFILE.id
+    )
+    setProfiles((prev) => [
+      ...prev.filter((p) => !imported.some((i) => i.id === p.id)),
+      ...imported,
+    ])
+    return imported.length
+  }, [])
+
+  return {
+    profiles,
+    activeProfile,
+    setActiveProfileId,
+    saveProfile,
+    deleteProfile,
+    importProfiles,
+  }
+}
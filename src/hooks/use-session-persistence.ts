@@ -0,0 +1,72 @@
+import * as React from "react"
+
+import { SessionSnapshot } from "@/types/validation"
+import { clearSession, getSessionSourceName, loadSession, saveSession } from "@/lib/session"
+
+export interface PendingSession {
+  snapshot: SessionSnapshot
+  name: string
+}
+
+// Typing in the search box changes the snapshot on every keystroke, so writes wait for a pause
+const SAVE_DELAY_MS = 1000
+
+// Saves the given snapshot shortly after it stops changing and offers the previous one for
+// resuming. A null snapshot (nothing loaded) leaves the stored session untouched.
+export function useSessionPersistence(snapshot: Omit<SessionSnapshot, "savedAt"> | null) {
+  const [pendingSession, setPendingSession] = React.useState<PendingSession | null>(null)
+  const hasSavedRef = React.useRef(false)
+  const unsavedRef = React.useRef<Omit<SessionSnapshot, "savedAt"> | null>(null)
+
+  // The timestamp is taken when the snapshot is written, not when it was built
+  const flushSession = React.useCallback(() => {
+    const unsaved = unsavedRef.current
+    if (!unsaved) return
+    unsavedRef.current = null
+    saveSession({ ...unsaved, savedAt: new Date().toISOString() }).catch(() => {})
+  }, [])
+
+  React.useEffect(() => {
+    let cancelled = false
+    loadSession()
+      .then(async (stored) => {
+        if (!stored) return
+        const name = await getSessionSourceName(stored)
+        if (!cancelled && !hasSavedRef.current && name !== undefined) setPendingSession({ snapshot: stored, name })
+      })
+      .catch(() => {
+        // Persistence is best effort; the dashboard works without IndexedDB
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  React.useEffect(() => {
+    if (!snapshot) return
+    hasSavedRef.current = true
+    setPendingSession(null)
+    unsavedRef.current = snapshot
+    const timer = window.setTimeout(flushSession, SAVE_DELAY_MS)
+    return () => window.clearTimeout(timer)
+  }, [snapshot, flushSession])
+
+  // Write a change that is still waiting when the page is closed or the dashboard unmounts
+  React.useEffect(() => {
+    window.addEventListener("pagehide", flushSession)
+    return () => {
+      window.removeEventListener("pagehide", flushSession)
+      flushSession()
+    }
+  }, [flushSession])
+
+  const dismissPendingSession = React.useCallback(() => setPendingSession(null), [])
+
+  const forgetSession = React.useCallback(() => {
+    unsavedRef.current = null
+    setPendingSession(null)
+    clearSession().catch(() => {})
+  }, [])
+
+  return { pendingSession, dismissPendingSession, forgetSession }
+}
@@ -0,0 +1,111 @@
+import * as React from "react"
+
+import { SQLTestCase, SqlAnalysis, SqlDialect } from "@/types/validation"
+import { AnalysisWorkerRequest, AnalysisWorkerResponse } from "@/workers/analysis-protocol"
+
+// Results by dialect, expected SQL and generated SQL. The keys are the rows' own strings, so
+// the cache copies no SQL, and switching back to a dialect or reopening a dataset that shares
+// queries with one already analyzed needs no new parse.
+type AnalysisCache = Map<SqlDialect, Map<string, Map<string, SqlAnalysis>>>
+let analysisCache: AnalysisCache = new Map()
+let cachedCount = 0
+// Dropped wholesale past this size, like the parsed-structure cache in sql-structure
+const MAX_CACHED_ANALYSES = 500_000
+
+const getCachedAnalysis = (cache: AnalysisCache, dialect: SqlDialect, row: SQLTestCase): SqlAnalysis | undefined =>
+  cache.get(dialect)?.get(row.expected_sql)?.get(row.generated_sql)
+
+const cacheAnalyses = (dialect: SqlDialect, pairs: [string, string][], results: SqlAnalysis[]) => {
+  if (cachedCount + pairs.length > MAX_CACHED_ANALYSES) {
+    analysisCache = new Map()
+    cachedCount = 0
+  }
+  if (!analysisCache.has(dialect)) analysisCache.set(dialect, new Map())
+  const byExpected = analysisCache.get(dialect)
+  pairs.forEach(([expectedSql, generatedSql], index) => {
+    if (!byExpected.has(expectedSql)) byExpected.set(expectedSql, new Map())
+    byExpected.get(expectedSql).set(generatedSql, results[index])
+  })
+  cachedCount += pairs.length
+  // A new outer map, so hooks holding the previous one recompute their rows
+  analysisCache = new Map(analysisCache)
+  return analysisCache
+}
+
+// Distinct expected/generated pairs with no cached result for the dialect
+const findUnanalyzedPairs = (rows: SQLTestCase[], dialect: SqlDialect): [string, string][] => {
+  const pairs = new Map<string, Set<string>>()
+  rows.forEach(row => {
+    if (getCachedAnalysis(analysisCache, dialect, row)) return
+    if (!pairs.has(row.expected_sql)) pairs.set(row.expected_sql, new Set())
+    pairs.get(row.expected_sql).add(row.generated_sql)
+  })
+  return [...pairs].flatMap(([expectedSql, generated]) =>
+    [...generated].map((generatedSql): [string, string] => [expectedSql, generatedSql])
+  )
+}
+
+// Sets structural_similarity and generated_sql_parses on the rows for the given dialect,
+// replacing whatever the rows carried. Queries not analyzed yet are parsed in a worker; until
+// it finishes their columns are unset, so nothing shows a result for another dialect.
+export function useSqlAnalysis(rows: SQLTestCase[] | null, dialect: SqlDialect) {
+  // Replaced whenever worker results land in the cache
+  const [cache, setCache] = React.useState(analysisCache)
+  // Fraction of pairs analyzed; null while idle
+  const [progress, setProgress] = React.useState<number | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    const pairs = rows ? findUnanalyzedPairs(rows, dialect) : []
+    if (pairs.length === 0) {
+      // Another hook may have analyzed these rows since this one last rendered, and an error
+      // from an earlier batch no longer applies
+      setCache(analysisCache)
+      setError(null)
+      return
+    }
+    const worker = new Worker(new URL("../workers/analysis.worker.ts", import.meta.url), {
+      type: "module",
+    })
+    const finish = () => {
+      worker.terminate()
+      setProgress(null)
+    }
+    setProgress(0)
+    setError(null)
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+      const message = event.data
+      if (message.type === "progress") {
+        setProgress(message.fraction)
+        return
+      }
+      finish()
+      if (message.type === "results") {
+        setCache(cacheAnalyses(dialect, pairs, message.results))
+      } else {
+        setError(message.message)
+      }
+    }
+    worker.onerror = (event) => {
+      finish()
+      setError(event.message || "SQL analysis worker failed")
+    }
+    const request: AnalysisWorkerRequest = { type: "analyze", dialect, pairs }
+    worker.postMessage(request)
+    // New rows or another dialect replace the batch in flight
+    return finish
+  }, [rows, dialect])
+
+  const analyzedRows = React.useMemo(
+    () =>
+      rows
+        ? rows.map(row => {
+            const analysis = getCachedAnalysis(cache, dialect, row)
+            return { ...row, generated_sql_parses: analysis?.parses, structural_similarity: analysis?.similarity }
+          })
+        : rows,
+    [rows, dialect, cache]
+  )
+
+  return { rows: analyzedRows, progress, error }
+}
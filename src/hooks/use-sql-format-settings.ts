@@ -0,0 +1,19 @@
+import * as React from "react"
+
+import { SqlFormatSettings } from "@/types/validation"
+import { loadSqlFormatSettings, saveSqlFormatSettings } from "@/lib/sql-format"
+
+// Dialect and formatting preferences, kept in localStorage across sessions
+export function useSqlFormatSettings() {
+  const [settings, setSettings] = React.useState<SqlFormatSettings>(loadSqlFormatSettings)
+
+  React.useEffect(() => {
+    saveSqlFormatSettings(settings)
+  }, [settings])
+
+  const updateSettings = React.useCallback((changes: Partial<SqlFormatSettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }))
+  }, [])
+
+  return { settings, updateSettings }
+}
@@ -0,0 +1,50 @@
+import * as React from "react"
+
+import { SQLTestCase, StoredDataset } from "@/types/validation"
+import { deleteDataset, listDatasets, loadDatasetRows, saveDataset, updateDatasetRows } from "@/lib/datasets"
+
+export function useStoredDatasets() {
+  const [datasets, setDatasets] = React.useState<StoredDataset[]>([])
+  const [error, setError] = React.useState<string | null>(null)
+
+  const refresh = React.useCallback(async () => {
+    try {
+      setDatasets(await listDatasets())
+      setError(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "IndexedDB is unavailable")
+    }
+  }, [])
+
+  React.useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const storeDataset = React.useCallback(
+    async (name: string, rows: SQLTestCase[], keepIds?: string[]) => {
+      const saved = await saveDataset(name, rows, keepIds)
+      await refresh()
+      return saved
+    },
+    [refresh]
+  )
+
+  const updateDataset = React.useCallback(
+    async (id: string, rows: SQLTestCase[]) => {
+      const updated = await updateDatasetRows(id, rows)
+      await refresh()
+      return updated
+    },
+    [refresh]
+  )
+
+  const removeDataset = React.useCallback(
+    async (id: string) => {
+      await deleteDataset(id)
+      await refresh()
+    },
+    [refresh]
+  )
+
+  return { datasets, error, storeDataset, updateDataset, removeDataset, loadDatasetRows }
+}
@@ -0,0 +1,104 @@
+import * as React from "react"
+
+import { TableLayout } from "@/types/validation"
+import {
+  DEFAULT_TABLE_LAYOUT,
+  createLayoutId,
+  isBuiltInLayout,
+  isSameLayout,
+  loadActiveLayoutId,
+  loadCurrentLayout,
+  loadTableLayouts,
+  saveActiveLayoutId,
+  saveCurrentLayout,
+  saveTableLayouts,
+} from "@/lib/table-layouts"
+
+// Named layouts plus the layout on screen. Column edits change only the on-screen
+// layout until they are saved over a custom layout or under a new name.
+export function useTableLayouts() {
+  const [layouts, setLayouts] = React.useState<TableLayout[]>(loadTableLayouts)
+  const [activeLayoutId, setActiveLayoutId] = React.useState<string>(loadActiveLayoutId)
+  const [tableLayout, setTableLayout] = React.useState<TableLayout>(
+    () =>
+      loadCurrentLayout() ??
+      layouts.find((l) => l.id === activeLayoutId) ??
+      DEFAULT_TABLE_LAYOUT
+  )
+
+  React.useEffect(() => {
+    saveTableLayouts(layouts)
+  }, [layouts])
+
+  React.useEffect(() => {
+    saveActiveLayoutId(activeLayoutId)
+  }, [activeLayoutId])
+
+  React.useEffect(() => {
+    saveCurrentLayout(tableLayout)
+  }, [tableLayout])
+
+  const activeLayout =
+    layouts.find((l) => l.id === activeLayoutId) ?? DEFAULT_TABLE_LAYOUT
+  const isModified = !isSameLayout(activeLayout, tableLayout)
+
+  const selectLayout = React.useCallback(
+    (id: string) => {
+      const layout = layouts.find((l) => l.id === id)
+      if (!layout) return
+      setActiveLayoutId(id)
+      setTableLayout(layout)
+    },
+    [layouts]
+  )
+
+  const updateTableLayout = React.useCallback(
+    (changes: Partial<Pick<TableLayout, "columns" | "widths">>) => {
+      setTableLayout((prev) => ({ ...prev, ...changes }))
+    },
+    []
+  )
+
+  // Built-in layouts are read-only, so saving one of them forks a copy
+  const saveLayout = React.useCallback(
+    (name?: string) => {
+      const overwrite = !name && !isBuiltInLayout(activeLayoutId)
+      const layout: TableLayout = {
+        ...tableLayout,
+        id: overwrite ? activeLayoutId : createLayoutId(),
+        name: overwrite ? activeLayout.name : name || `${activeLayout.name} (copy)`,
+      }
+      setLayouts((prev) =>
+        overwrite
+          ? prev.map((l) => (l.id === layout.id ? layout : l))
+          : [...prev, layout]
+      )
+      setActiveLayoutId(layout.id)
+      setTableLayout(layout)
+    },
+    [tableLayout, activeLayoutId, activeLayout.name]
+  )
+
+  const deleteLayout = React.useCallback(
+    (id: string) => {
+      if (isBuiltInLayout(id)) return
+      setLayouts((prev) => prev.filter((l) => l.id !== id))
+      if (id === activeLayoutId) {
+        setActiveLayoutId(DEFAULT_TABLE_LAYOUT.id)
+        setTableLayout(DEFAULT_TABLE_LAYOUT)
+      }
+    },
+    [activeLayoutId]
+  )
+
+  return {
+    layouts,
+    activeLayout,
+    tableLayout,
+    isModified,
+    selectLayout,
+    updateTableLayout,
+    saveLayout,
+    deleteLayout,
+  }
+}
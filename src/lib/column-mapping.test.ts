@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { installMemoryStorage } from '@/test/storage';
+import {
+  applyColumnMapping,
+  getHeaderSignature,
+  getMappingPreset,
+  hasRequiredHeaders,
+  mappingFromPreset,
+  saveMappingPreset,
+  suggestColumnMapping
+} from './column-mapping';
+
+describe('suggestColumnMapping', () => {
+  it('maps known aliases of other evaluation scripts', () => {
+    expect(suggestColumnMapping(['question', 'gold', 'prediction'])).toEqual({
+      question: 'user_prompt',
+      gold: 'expected_sql',
+      prediction: 'generated_sql',
+    });
+  });
+
+  it('prefers exact and normalized field names over aliases', () => {
+    expect(suggestColumnMapping(['Expected SQL', 'gold'])).toEqual({ 'Expected SQL': 'expected_sql', gold: null });
+  });
+
+  it('ignores headers that match no field', () => {
+    expect(suggestColumnMapping(['id', 'latency_ms'])).toEqual({ id: 'id', latency_ms: null });
+  });
+});
+
+describe('getHeaderSignature', () => {
+  it('does not depend on header order, case or surrounding spaces', () => {
+    expect(getHeaderSignature(['Gold', 'prediction', ' id'])).toBe(getHeaderSignature(['ID', 'gold', 'Prediction']));
+    expect(getHeaderSignature(['gold', 'prediction'])).not.toBe(getHeaderSignature(['gold', 'output']));
+  });
+});
+
+describe('applyColumnMapping', () => {
+  it('renames mapped columns and drops ignored ones', () => {
+    const rows = [{ gold: 'SELECT 1', latency_ms: 12 }, null];
+    expect(applyColumnMapping(rows, { gold: 'expected_sql', latency_ms: null })).toEqual([{ expected_sql: 'SELECT 1' }, null]);
+  });
+});
+
+describe('hasRequiredHeaders', () => {
+  it('needs every required field name', () => {
+    expect(hasRequiredHeaders(['id', 'gold'])).toBe(false);
+  });
+});
+
+describe('mapping presets', () => {
+  let restore: () => void;
+  afterEach(() => restore());
+
+  it('finds a saved preset for the same headers in another order and case', () => {
+    restore = installMemoryStorage();
+    saveMappingPreset('Spider', ['gold', 'prediction'], { gold: 'expected_sql', prediction: 'generated_sql' });
+    const preset = getMappingPreset(['Prediction', 'GOLD']);
+    expect(preset.name).toBe('Spider');
+    expect(mappingFromPreset(['Prediction', 'GOLD', 'extra'], preset))
+      .toEqual({ Prediction: 'generated_sql', GOLD: 'expected_sql', extra: null });
+  });
+
+  it('reports a preset that does not fit in storage', () => {
+    restore = installMemoryStorage(10);
+    expect(saveMappingPreset('Spider', ['gold'], { gold: 'expected_sql' })).toBeNull();
+    expect(getMappingPreset(['gold'])).toBeUndefined();
+  });
+});
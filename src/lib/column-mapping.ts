@@ -0,0 +1,112 @@
+import { ColumnMapping, ColumnMappingPreset, SQLTestCase } from '@/types/validation';
+import { FIELD_LABELS } from '@/lib/fields';
+import { REQUIRED_FIELDS } from '@/lib/schema';
+
+const PRESETS_KEY = 'sql-validation:column-mapping-presets';
+
+export const TARGET_FIELDS = Object.keys(FIELD_LABELS) as (keyof SQLTestCase)[];
+
+// Common names other evaluation scripts use for our fields, compared after normalizeHeader
+const HEADER_ALIASES: Partial<Record<keyof SQLTestCase, string[]>> = {
+  id: ['caseid', 'testid', 'exampleid', 'qid', 'index', 'idx'],
+  user_prompt: ['prompt', 'question', 'nlquestion', 'nl', 'input', 'utterance', 'instruction'],
+  expected_sql: ['gold', 'goldsql', 'reference', 'referencesql', 'target', 'targetsql', 'groundtruth', 'expected'],
+  generated_sql: ['prediction', 'predicted', 'predictedsql', 'pred', 'predsql', 'output', 'generated', 'modeloutput'],
+  true_label: ['label', 'truelabel', 'goldlabel'],
+  syntax_score: ['syntax', 'syntaxvalid'],
+  semantic_score: ['semantic', 'semanticsimilarity', 'similarity'],
+  execution_accuracy: ['execacc', 'executionmatch', 'exec', 'ex'],
+  exact_match: ['em', 'exactmatchaccuracy'],
+  bleu_score: ['bleu'],
+  rouge_score: ['rouge', 'rougel'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Order-insensitive key for a header set, so re-exports with shuffled columns reuse a preset
+export const getHeaderSignature = (headers: string[]): string =>
+  [...new Set(headers.map(h => h.trim().toLowerCase()))].sort().join('|');
+
+export const getHeaders = (rows: unknown[]): string[] =>
+  [...new Set(rows.flatMap(row => (row && typeof row === 'object' ? Object.keys(row) : [])))];
+
+// True when the headers already use our field names for every required column
+export const hasRequiredHeaders = (headers: string[]): boolean =>
+  REQUIRED_FIELDS.every(field => headers.includes(field));
+
+// Exact names win, then normalized names, then known aliases. Each target is used at most once.
+export const suggestColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<keyof SQLTestCase>();
+  const assign = (header: string, field: keyof SQLTestCase | undefined) => {
+    if (!field || used.has(field) || mapping[header] !== undefined) return;
+    mapping[header] = field;
+    used.add(field);
+  };
+
+  headers.forEach(header => assign(header, TARGET_FIELDS.find(field => field === header)));
+  headers.forEach(header =>
+    assign(header, TARGET_FIELDS.find(field => normalizeHeader(field) === normalizeHeader(header)))
+  );
+  headers.forEach(header =>
+    assign(header, TARGET_FIELDS.find(field => HEADER_ALIASES[field]?.includes(normalizeHeader(header))))
+  );
+  headers.forEach(header => {
+    if (mapping[header] === undefined) mapping[header] = null;
+  });
+  return mapping;
+};
+
+// Rename mapped columns and drop ignored ones
+export const applyColumnMapping = (rows: unknown[], mapping: ColumnMapping): unknown[] =>
+  rows.map(row => {
+    if (!row || typeof row !== 'object') return row;
+    const mapped: Record<string, unknown> = {};
+    Object.entries(row).forEach(([header, value]) => {
+      const field = mapping[header];
+      if (field) mapped[field] = value;
+    });
+    return mapped;
+  });
+
+export const loadMappingPresets = (): Record<string, ColumnMappingPreset> => {
+  try {
+    const stored = localStorage.getItem(PRESETS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const getMappingPreset = (headers: string[]): ColumnMappingPreset | undefined =>
+  loadMappingPresets()[getHeaderSignature(headers)];
+
+// Signatures ignore header case, so look preset entries up the same way
+export const mappingFromPreset = (headers: string[], preset: ColumnMappingPreset): ColumnMapping => {
+  const byLowerHeader = new Map(
+    Object.entries(preset.mapping).map(([header, field]) => [header.trim().toLowerCase(), field])
+  );
+  return Object.fromEntries(headers.map(header => [header, byLowerHeader.get(header.trim().toLowerCase()) ?? null]));
+};
+
+// Returns null when the presets do not fit in localStorage; the stored presets are left as they were
+export const saveMappingPreset = (name: string, headers: string[], mapping: ColumnMapping): ColumnMappingPreset | null => {
+  const preset: ColumnMappingPreset = {
+    signature: getHeaderSignature(headers),
+    name,
+    mapping,
+    updatedAt: new Date().toISOString(),
+  };
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify({ ...loadMappingPresets(), [preset.signature]: preset }));
+    return preset;
+  } catch {
+    return null;
+  }
+};
+
+export const deleteMappingPreset = (signature: string) => {
+  const presets = loadMappingPresets();
+  delete presets[signature];
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { makeTestCase } from '@/test/factories';
+import { DEFAULT_SCORING_PROFILE } from './scoring';
+import { DuplicateTestIdError, compareRuns, formatDelta } from './comparison';
+
+const failing = { flane5_intent_score: 0.1, flane5_sqlsim_score: 0.1 };
+
+describe('compareRuns', () => {
+  it('classifies cases by their pass/fail change', () => {
+    const baseline = [makeTestCase({ id: '1' }), makeTestCase({ id: '2', ...failing }), makeTestCase({ id: '3' })];
+    const candidate = [makeTestCase({ id: '1', ...failing }), makeTestCase({ id: '2' }), makeTestCase({ id: '4' })];
+    const comparison = compareRuns(baseline, candidate, DEFAULT_SCORING_PROFILE);
+
+    const statuses = Object.fromEntries(comparison.cases.map(c => [c.id, c.status]));
+    expect(statuses).toEqual({ '1': 'regression', '2': 'improvement', '3': 'removed', '4': 'added' });
+    expect(comparison.flips).toEqual({ passToPass: 0, passToFail: 1, failToPass: 1, failToFail: 0 });
+  });
+
+  it('computes per-case and average deltas', () => {
+    const baseline = [makeTestCase({ id: '1', bleu_score: 0.5 }), makeTestCase({ id: '2', bleu_score: 0.5 })];
+    const candidate = [makeTestCase({ id: '1', bleu_score: 0.7 }), makeTestCase({ id: '2', bleu_score: 0.9 })];
+    const comparison = compareRuns(baseline, candidate, DEFAULT_SCORING_PROFILE);
+
+    expect(comparison.cases[0].deltas.bleu_score).toBeCloseTo(0.2);
+    expect(comparison.averageDeltas.bleu_score).toBeCloseTo(0.3);
+    expect(comparison.comparedMetrics).toContain('computed_semantic');
+  });
+
+  it('compares each tagged candidate run with the baseline', () => {
+    const baseline = [makeTestCase({ id: '1' }), makeTestCase({ id: '2' })];
+    const candidate = [
+      makeTestCase({ id: '1', run_id: 'a', ...failing }),
+      makeTestCase({ id: '2', run_id: 'a' }),
+      makeTestCase({ id: '1', run_id: 'b' }),
+    ];
+    const comparison = compareRuns(baseline, candidate, DEFAULT_SCORING_PROFILE);
+
+    expect(comparison.cases.map(c => [c.runId, c.id, c.status])).toEqual([
+      ['a', '1', 'regression'],
+      ['a', '2', 'unchanged'],
+      ['b', '1', 'unchanged'],
+      ['b', '2', 'removed'],
+    ]);
+    expect(new Set(comparison.cases.map(c => c.key)).size).toBe(4);
+  });
+
+  it('rejects runs that repeat a test id', () => {
+    const rows = [makeTestCase({ id: '1' }), makeTestCase({ id: '1' })];
+    expect(() => compareRuns(rows, [makeTestCase()], DEFAULT_SCORING_PROFILE)).toThrow(DuplicateTestIdError);
+    expect(() => compareRuns([makeTestCase()], rows, DEFAULT_SCORING_PROFILE)).toThrow(/candidate run repeats test ids \(1\)/);
+  });
+});
+
+describe('formatDelta', () => {
+  it('signs positive deltas and dashes missing ones', () => {
+    expect(formatDelta(0.25)).toBe('+0.250');
+    expect(formatDelta(-0.1, 1)).toBe('-0.1');
+    expect(formatDelta(undefined)).toBe('—');
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  SQLTestCase,
+  ScoringProfile,
+  CaseComparison,
+  ComparedMetric,
+  ComparisonStatus,
+  PassFlipMatrix,
+  RunComparison
+} from '@/types/validation';
+import { scoreTestCase, summarizeResults } from '@/lib/scoring';
+import { FIELD_LABELS, NUMERIC_FIELDS } from '@/lib/fields';
+import { getRowKey, groupByRun } from '@/lib/run-tags';
+
+// Thrown by compareRuns when a run repeats a test id, so cases cannot be matched one to one
+export class DuplicateTestIdError extends Error {
+  constructor(readonly run: 'baseline' | 'candidate', readonly ids: string[]) {
+    const shown = ids.slice(0, 5).join(', ') + (ids.length > 5 ? ` and ${ids.length - 5} more` : '');
+    super(`The ${run} run repeats test ids (${shown}); ids must be unique within a run to compare cases`);
+    this.name = 'DuplicateTestIdError';
+  }
+}
+
+export const COMPARED_METRICS: ComparedMetric[] = ['computed_semantic', 'confidence', ...NUMERIC_FIELDS];
+
+export const getMetricLabel = (metric: ComparedMetric): string => {
+  if (metric === 'computed_semantic') return 'Computed Semantic';
+  if (metric === 'confidence') return 'Confidence';
+  return FIELD_LABELS[metric];
+};
+
+const getMetricValue = (testCase: SQLTestCase, metric: ComparedMetric, profile: ScoringProfile): number | undefined => {
+  if (metric === 'computed_semantic') return scoreTestCase(testCase, profile).semanticScore;
+  if (metric === 'confidence') return scoreTestCase(testCase, profile).confidence;
+  const value = testCase[metric];
+  return typeof value === 'number' && !Number.isNaN(value) ? value : undefined;
+};
+
+const getStatus = (baselinePassed?: boolean, candidatePassed?: boolean): ComparisonStatus => {
+  if (baselinePassed === undefined) return 'added';
+  if (candidatePassed === undefined) return 'removed';
+  if (baselinePassed && !candidatePassed) return 'regression';
+  if (!baselinePassed && candidatePassed) return 'improvement';
+  return 'unchanged';
+};
+
+const indexById = (rows: SQLTestCase[], run: 'baseline' | 'candidate'): Map<string, SQLTestCase> => {
+  const byId = new Map<string, SQLTestCase>();
+  const duplicates = new Set<string>();
+  rows.forEach(row => {
+    if (byId.has(row.id)) duplicates.add(row.id);
+    byId.set(row.id, row);
+  });
+  if (duplicates.size > 0) throw new DuplicateTestIdError(run, [...duplicates]);
+  return byId;
+};
+
+// Join two runs on SQLTestCase.id and compute per-case deltas (candidate - baseline). A candidate
+// holding several tagged runs compares each of them with the baseline.
+export const compareRuns = (
+  baseline: SQLTestCase[],
+  candidate: SQLTestCase[],
+  profile: ScoringProfile
+): RunComparison => {
+  const baselineById = indexById(baseline, 'baseline');
+
+  const flips: PassFlipMatrix = { passToPass: 0, passToFail: 0, failToPass: 0, failToFail: 0 };
+  const deltaTotals: Partial<Record<ComparedMetric, { sum: number; count: number }>> = {};
+
+  const compareCase = (id: string, runId: string, before?: SQLTestCase, after?: SQLTestCase): CaseComparison => {
+    const baselinePassed = before ? scoreTestCase(before, profile).passed : undefined;
+    const candidatePassed = after ? scoreTestCase(after, profile).passed : undefined;
+    const deltas: CaseComparison['deltas'] = {};
+
+    if (before && after) {
+      if (baselinePassed && candidatePassed) flips.passToPass++;
+      else if (baselinePassed) flips.passToFail++;
+      else if (candidatePassed) flips.failToPass++;
+      else flips.failToFail++;
+
+      COMPARED_METRICS.forEach(metric => {
+        const beforeValue = getMetricValue(before, metric, profile);
+        const afterValue = getMetricValue(after, metric, profile);
+        if (beforeValue === undefined || afterValue === undefined) return;
+        const delta = afterValue - beforeValue;
+        deltas[metric] = delta;
+        const total = deltaTotals[metric] ?? { sum: 0, count: 0 };
+        deltaTotals[metric] = { sum: total.sum + delta, count: total.count + 1 };
+      });
+    }
+
+    return {
+      // Removed cases have no candidate row, so the key takes the run from the group
+      key: getRowKey({ ...(after ?? before), run_id: runId || undefined }),
+      id,
+      runId: runId || undefined,
+      baseline: before,
+      candidate: after,
+      baselinePassed,
+      candidatePassed,
+      status: getStatus(baselinePassed, candidatePassed),
+      deltas
+    };
+  };
+
+  const cases = groupByRun(candidate).flatMap(group => {
+    const candidateById = indexById(group.rows, 'candidate');
+    const ids = [...new Set([...baselineById.keys(), ...candidateById.keys()])];
+    return ids.map(id => compareCase(id, group.runId, baselineById.get(id), candidateById.get(id)));
+  });
+
+  const comparedMetrics = COMPARED_METRICS.filter(metric => deltaTotals[metric]);
+  const averageDeltas = Object.fromEntries(
+    comparedMetrics.map(metric => [metric, deltaTotals[metric].sum / deltaTotals[metric].count])
+  ) as RunComparison['averageDeltas'];
+
+  return {
+    cases,
+    flips,
+    comparedMetrics,
+    averageDeltas,
+    baselineSummary: summarizeResults(baseline, profile),
+    candidateSummary: summarizeResults(candidate, profile)
+  };
+};
+
+export const formatDelta = (delta: number | undefined, digits = 3): string => {
+  if (delta === undefined) return '—';
+  const rounded = delta.toFixed(digits);
+  return delta > 0 ? `+${rounded}` : rounded;
+};
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { makeTestCase } from '@/test/factories';
+import { fingerprintRows } from './datasets';
+
+describe('fingerprintRows', () => {
+  it('is the same for equal rows', () => {
+    expect(fingerprintRows([makeTestCase(), makeTestCase({ id: '2' })]))
+      .toBe(fingerprintRows([makeTestCase(), makeTestCase({ id: '2' })]));
+  });
+
+  it('changes with any value or the row order', () => {
+    const rows = [makeTestCase(), makeTestCase({ id: '2' })];
+    const fingerprint = fingerprintRows(rows);
+    expect(fingerprintRows([makeTestCase(), makeTestCase({ id: '2', semantic_score: 0.5 })])).not.toBe(fingerprint);
+    expect(fingerprintRows([...rows].reverse())).not.toBe(fingerprint);
+    expect(fingerprintRows(rows.slice(0, 1))).not.toBe(fingerprint);
+  });
+});
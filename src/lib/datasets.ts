@@ -0,0 +1,81 @@
+import { SQLTestCase, StoredDataset } from '@/types/validation';
+import { getAll, getItem, putItem, deleteItem, STORES } from '@/lib/db';
+
+export const createDatasetId = () =>
+  `dataset_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Newest first, matching the order users load files in
+export const listDatasets = async (): Promise<StoredDataset[]> =>
+  (await getAll<StoredDataset>(STORES.datasets)).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+// Oldest datasets beyond this are evicted when another one is saved
+export const MAX_STORED_DATASETS = 20;
+
+// Cheap content hash (cyrb53) fed one row at a time, so large files are never one big string
+export const fingerprintRows = (rows: SQLTestCase[]): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  rows.forEach(row => {
+    const text = JSON.stringify(row);
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      h1 = Math.imul(h1 ^ code, 2654435761);
+      h2 = Math.imul(h2 ^ code, 1597334677);
+    }
+  });
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return `${rows.length}:${(4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)}`;
+};
+
+// Saving rows that are already stored refreshes that entry instead of adding a copy. Past the
+// cap the oldest datasets are deleted, except those in keepIds (e.g. the open session's).
+export const saveDataset = async (
+  name: string,
+  rows: SQLTestCase[],
+  keepIds: string[] = []
+): Promise<StoredDataset> => {
+  const fingerprint = fingerprintRows(rows);
+  const existing = await listDatasets();
+  const duplicate = existing.find(dataset => dataset.fingerprint === fingerprint);
+
+  const saved: StoredDataset = {
+    id: duplicate?.id ?? createDatasetId(),
+    name,
+    rowCount: rows.length,
+    createdAt: new Date().toISOString(),
+    fingerprint,
+  };
+  if (!duplicate) await putItem(STORES.datasetRows, rows, saved.id);
+  await putItem(STORES.datasets, saved);
+
+  const kept = new Set([saved.id, ...keepIds]);
+  const evicted = existing
+    .filter(dataset => dataset.id !== saved.id)
+    .slice(MAX_STORED_DATASETS - 1)
+    .filter(dataset => !kept.has(dataset.id));
+  for (const dataset of evicted) await deleteDataset(dataset.id);
+  return saved;
+};
+
+// Replaces the rows of a stored dataset in place, e.g. once an execution check has scored them.
+// Resolves to undefined when the dataset no longer exists.
+export const updateDatasetRows = async (id: string, rows: SQLTestCase[]): Promise<StoredDataset | undefined> => {
+  const dataset = await getDataset(id);
+  if (!dataset) return undefined;
+  const updated: StoredDataset = { ...dataset, rowCount: rows.length, fingerprint: fingerprintRows(rows) };
+  await putItem(STORES.datasetRows, rows, id);
+  await putItem(STORES.datasets, updated);
+  return updated;
+};
+
+export const getDataset = (id: string): Promise<StoredDataset | undefined> =>
+  getItem<StoredDataset>(STORES.datasets, id);
+
+export const loadDatasetRows = async (id: string): Promise<SQLTestCase[]> =>
+  (await getItem<SQLTestCase[]>(STORES.datasetRows, id)) ?? [];
+
+export const deleteDataset = async (id: string): Promise<void> => {
+  await deleteItem(STORES.datasets, id);
+  await deleteItem(STORES.datasetRows, id);
+};
@@ -0,0 +1,76 @@
+// Minimal promise wrapper around IndexedDB for locally persisted dashboard data.
+// Bump DB_VERSION and extend the upgrade handler when adding a store.
+
+const DB_NAME = 'sql-validation-dashboard';
+const DB_VERSION = 2;
+
+export const STORES = {
+  runs: 'runs',
+  runRows: 'run-rows',
+  datasets: 'datasets',
+  datasetRows: 'dataset-rows',
+  session: 'session',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.runs)) {
+          db.createObjectStore(STORES.runs, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.runRows)) {
+          db.createObjectStore(STORES.runRows);
+        }
+        if (!db.objectStoreNames.contains(STORES.datasets)) {
+          db.createObjectStore(STORES.datasets, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.datasetRows)) {
+          db.createObjectStore(STORES.datasetRows);
+        }
+        if (!db.objectStoreNames.contains(STORES.session)) {
+          db.createObjectStore(STORES.session);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).getAll() as IDBRequest<T[]>);
+};
+
+export const getItem = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).get(key) as IDBRequest<T | undefined>);
+};
+
+// Stores with an in-line keyPath take the value only; out-of-line stores need a key
+export const putItem = async (store: StoreName, value: unknown, key?: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+};
+
+export const deleteItem = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
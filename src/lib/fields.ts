@@ -0,0 +1,134 @@
+import { BooleanField, NumericField, SQLTestCase } from '@/types/validation';
+
+// Display labels for SQLTestCase fields, matching the DataTable headers
+export const FIELD_LABELS: Record<keyof SQLTestCase, string> = {
+  id: 'ID',
+  user_prompt: 'User Prompt',
+  expected_sql: 'Expected SQL',
+  generated_sql: 'Generated SQL',
+  syntax_score: 'Syntax Score',
+  semantic_score: 'Semantic Score',
+  codebert_match: 'CodeBERT Match',
+  flane5_match: 'FLANE5 Match',
+  true_label: 'True Label',
+  n_gram_score: 'N-Gram Score',
+  bleu_score: 'BLEU Score',
+  rouge_score: 'ROUGE Score',
+  exact_match: 'Exact Match',
+  token_count: 'Token Count',
+  unknown_tokens: 'Unknown Tokens',
+  has_limit: 'Has Limit',
+  has_offset: 'Has Offset',
+  has_result_type: 'Has Result Type',
+  has_cte: 'Has CTE',
+  has_order_by: 'Has Order By',
+  has_group_by: 'Has Group By',
+  has_join: 'Has Join',
+  codebert_intent_score: 'CodeBERT Intent Score',
+  codebert_sqlsim_score: 'CodeBERT SQLSim Score',
+  flane5_intent_score: 'FLANE5 Intent Score',
+  flane5_sqlsim_score: 'FLANE5 SQLSim Score',
+  ngram1_precision: 'NGram1 Precision',
+  ngram1_recall: 'NGram1 Recall',
+  ngram1_f1: 'NGram1 F1',
+  ngram2_precision: 'NGram2 Precision',
+  ngram2_recall: 'NGram2 Recall',
+  ngram2_f1: 'NGram2 F1',
+  edit_similarity: 'Edit Similarity',
+  vocab_unknown_count: 'Vocab Unknown Count',
+  vocab_unknown_ratio: 'Vocab Unknown Ratio',
+  precision: 'Precision',
+  recall: 'Recall',
+  f1_score: 'F1 Score',
+  execution_accuracy: 'Execution Accuracy',
+  structural_similarity: 'Structural Similarity',
+  generated_sql_parses: 'Generated SQL Parses',
+  run_id: 'Run',
+  model_label: 'Model Label',
+};
+
+export const NUMERIC_FIELDS: NumericField[] = [
+  'syntax_score',
+  'semantic_score',
+  'codebert_intent_score',
+  'codebert_sqlsim_score',
+  'flane5_intent_score',
+  'flane5_sqlsim_score',
+  'ngram1_precision',
+  'ngram1_recall',
+  'ngram1_f1',
+  'ngram2_precision',
+  'ngram2_recall',
+  'ngram2_f1',
+  'edit_similarity',
+  'vocab_unknown_count',
+  'vocab_unknown_ratio',
+  'precision',
+  'recall',
+  'f1_score',
+  'execution_accuracy',
+  'structural_similarity',
+  'n_gram_score',
+  'bleu_score',
+  'rouge_score',
+  'token_count',
+];
+
+export const BOOLEAN_FIELDS: BooleanField[] = [
+  'has_limit',
+  'has_offset',
+  'has_result_type',
+  'has_cte',
+  'has_order_by',
+  'has_group_by',
+  'has_join',
+  'generated_sql_parses',
+  'codebert_match',
+  'flane5_match',
+  'exact_match',
+];
+
+// Counts rather than 0-1 scores; the filter builder does not clamp these
+export const UNBOUNDED_FIELDS: NumericField[] = ['vocab_unknown_count', 'token_count'];
+
+// Every data column the DataTable can show, in default order; table layouts choose and reorder from these
+export const TABLE_COLUMNS: (keyof SQLTestCase)[] = [
+  'id',
+  'run_id',
+  'model_label',
+  'user_prompt',
+  'expected_sql',
+  'generated_sql',
+  'syntax_score',
+  'generated_sql_parses',
+  'semantic_score',
+  'has_limit',
+  'has_offset',
+  'has_result_type',
+  'has_cte',
+  'has_order_by',
+  'has_group_by',
+  'has_join',
+  'codebert_intent_score',
+  'codebert_sqlsim_score',
+  'flane5_intent_score',
+  'flane5_sqlsim_score',
+  'ngram1_precision',
+  'ngram1_recall',
+  'ngram1_f1',
+  'ngram2_precision',
+  'ngram2_recall',
+  'ngram2_f1',
+  'edit_similarity',
+  'structural_similarity',
+  'vocab_unknown_count',
+  'vocab_unknown_ratio',
+  'unknown_tokens',
+  'precision',
+  'recall',
+  'f1_score',
+  'codebert_match',
+  'flane5_match',
+  'true_label',
+  'execution_accuracy',
+];
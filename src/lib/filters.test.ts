@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { FilterCondition, FilterGroup, FilterState, ScoringProfile } from '@/types/validation';
+import { makeTestCase } from '@/test/factories';
+import { DEFAULT_SCORING_PROFILE } from './scoring';
+import { DEFAULT_FILTER_STATE, describeCondition, matchesCondition, matchesFilterGroups, matchesFilters } from './filters';
+
+const numeric = (field: 'semantic_score' | 'bleu_score', min: number, max: number): FilterCondition =>
+  ({ id: field, kind: 'numeric', field, min, max });
+
+const group = (combinator: FilterGroup['combinator'], ...conditions: FilterCondition[]): FilterGroup =>
+  ({ id: combinator, combinator, conditions });
+
+const filters = (overrides: Partial<FilterState>): FilterState => ({ ...DEFAULT_FILTER_STATE, ...overrides });
+
+describe('matchesCondition', () => {
+  it('filters the semantic score computed by the profile, not the uploaded value', () => {
+    // Uploaded 0.1, but the default profile computes 0.9 from the model scores
+    const row = makeTestCase({ semantic_score: 0.1 });
+    expect(matchesCondition(row, numeric('semantic_score', 0.8, 1), DEFAULT_SCORING_PROFILE)).toBe(true);
+    expect(matchesCondition(row, numeric('semantic_score', 0, 0.5), DEFAULT_SCORING_PROFILE)).toBe(false);
+
+    const codebertOnly: ScoringProfile = { ...DEFAULT_SCORING_PROFILE, models: ['codebert'] };
+    expect(matchesCondition(row, numeric('semantic_score', 0.8, 1), codebertOnly)).toBe(false);
+  });
+
+  it('never matches a range on a missing metric', () => {
+    expect(matchesCondition(makeTestCase(), numeric('bleu_score', 0, 1), DEFAULT_SCORING_PROFILE)).toBe(false);
+    expect(matchesCondition(makeTestCase({ bleu_score: 0.4 }), numeric('bleu_score', 0, 1), DEFAULT_SCORING_PROFILE)).toBe(true);
+  });
+
+  it('matches a flag only when the row sets it', () => {
+    const isFalse: FilterCondition = { id: 'b', kind: 'boolean', field: 'generated_sql_parses', value: false };
+    expect(matchesCondition(makeTestCase({ generated_sql_parses: false }), isFalse, DEFAULT_SCORING_PROFILE)).toBe(true);
+    expect(matchesCondition(makeTestCase({ generated_sql_parses: true }), isFalse, DEFAULT_SCORING_PROFILE)).toBe(false);
+    expect(matchesCondition(makeTestCase(), isFalse, DEFAULT_SCORING_PROFILE)).toBe(false);
+  });
+
+  it('matches the pass/fail outcome', () => {
+    const failing = makeTestCase({ flane5_intent_score: 0.1, flane5_sqlsim_score: 0.1 });
+    const condition: FilterCondition = { id: 'o', kind: 'outcome', value: 'fail' };
+    expect(matchesCondition(failing, condition, DEFAULT_SCORING_PROFILE)).toBe(true);
+    expect(matchesCondition(makeTestCase(), condition, DEFAULT_SCORING_PROFILE)).toBe(false);
+  });
+});
+
+describe('matchesFilterGroups', () => {
+  const row = makeTestCase({ bleu_score: 0.4 });
+
+  it('ignores empty groups', () => {
+    expect(matchesFilterGroups(row, [group('and')], 'and', DEFAULT_SCORING_PROFILE)).toBe(true);
+  });
+
+  it('combines conditions within and across groups', () => {
+    const inRange = numeric('bleu_score', 0, 0.5);
+    const outOfRange = numeric('bleu_score', 0.6, 1);
+    expect(matchesFilterGroups(row, [group('and', inRange, outOfRange)], 'and', DEFAULT_SCORING_PROFILE)).toBe(false);
+    expect(matchesFilterGroups(row, [group('or', inRange, outOfRange)], 'and', DEFAULT_SCORING_PROFILE)).toBe(true);
+    expect(matchesFilterGroups(row, [group('and', outOfRange), group('and', inRange)], 'or', DEFAULT_SCORING_PROFILE)).toBe(true);
+  });
+});
+
+describe('matchesFilters', () => {
+  it('applies the score range to the computed semantic score', () => {
+    const row = makeTestCase({ semantic_score: 0.1 });
+    expect(matchesFilters(row, filters({ scoreRange: [0.8, 1] }), DEFAULT_SCORING_PROFILE)).toBe(true);
+    expect(matchesFilters(row, filters({ scoreRange: [0, 0.5] }), DEFAULT_SCORING_PROFILE)).toBe(false);
+  });
+
+  it('treats rows without a computed score as 0, as the table shows them', () => {
+    const row = makeTestCase({ semantic_score: 0.9, codebert_sqlsim_score: undefined, flane5_sqlsim_score: undefined });
+    expect(matchesFilters(row, filters({ scoreRange: [0, 0.1] }), DEFAULT_SCORING_PROFILE)).toBe(true);
+  });
+
+  it('applies the search term and pass/fail filter', () => {
+    const row = makeTestCase();
+    expect(matchesFilters(row, filters({ searchTerm: 'users' }), DEFAULT_SCORING_PROFILE)).toBe(true);
+    expect(matchesFilters(row, filters({ searchTerm: 'orders' }), DEFAULT_SCORING_PROFILE)).toBe(false);
+    expect(matchesFilters(row, filters({ passFailFilter: 'fail' }), DEFAULT_SCORING_PROFILE)).toBe(false);
+  });
+});
+
+describe('describeCondition', () => {
+  it('labels conditions for the filter chips', () => {
+    expect(describeCondition(numeric('semantic_score', 0.5, 1))).toBe('Semantic Score 0.50–1');
+    expect(describeCondition({ id: 'b', kind: 'boolean', field: 'has_join', value: true })).toBe('Has Join = Yes');
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  SQLTestCase,
+  FilterState,
+  FilterCondition,
+  FilterGroup,
+  FilterCombinator,
+  NumericField,
+  ScoringProfile
+} from '@/types/validation';
+import { getSemanticScore, isPassing } from '@/lib/scoring';
+import { compileSearch, matchesSearch } from '@/lib/search';
+import { FIELD_LABELS } from '@/lib/fields';
+
+export const DEFAULT_FILTER_STATE: FilterState = {
+  searchTerm: '',
+  searchMode: 'text',
+  passFailFilter: 'all',
+  scoreRange: [0, 1],
+  groups: [],
+  groupCombinator: 'and'
+};
+
+export const createFilterId = () => Math.random().toString(36).slice(2, 10);
+
+export const createFilterGroup = (condition?: FilterCondition): FilterGroup => ({
+  id: createFilterId(),
+  combinator: 'and',
+  conditions: condition ? [condition] : []
+});
+
+// The table shows the profile's computed semantic score in the Semantic Score column, so
+// filters compare against that rather than the uploaded value
+const getFilterValue = (row: SQLTestCase, field: NumericField, profile: ScoringProfile): unknown =>
+  field === 'semantic_score' ? getSemanticScore(row, profile) ?? 0 : row[field];
+
+export const matchesCondition = (
+  row: SQLTestCase,
+  condition: FilterCondition,
+  profile: ScoringProfile
+): boolean => {
+  switch (condition.kind) {
+    case 'numeric': {
+      const value = getFilterValue(row, condition.field, profile);
+      // Rows without the metric never satisfy a range condition
+      return typeof value === 'number' && value >= condition.min && value <= condition.max;
+    }
+    case 'boolean':
+      // Like numeric conditions, rows without the flag match neither Yes nor No
+      return row[condition.field] === condition.value;
+    case 'outcome':
+      return isPassing(row, profile) === (condition.value === 'pass');
+  }
+};
+
+const combine = <T>(items: T[], combinator: FilterCombinator, test: (item: T) => boolean): boolean =>
+  combinator === 'and' ? items.every(test) : items.some(test);
+
+// Empty groups are ignored so a half-built filter does not hide every row
+export const matchesFilterGroups = (
+  row: SQLTestCase,
+  groups: FilterGroup[],
+  groupCombinator: FilterCombinator,
+  profile: ScoringProfile
+): boolean => {
+  const activeGroups = groups.filter(group => group.conditions.length > 0);
+  if (activeGroups.length === 0) return true;
+  return combine(activeGroups, groupCombinator, group =>
+    combine(group.conditions, group.combinator, condition => matchesCondition(row, condition, profile))
+  );
+};
+
+export const matchesFilters = (
+  row: SQLTestCase,
+  filters: FilterState,
+  profile: ScoringProfile
+): boolean => {
+  // Search filter; sessions saved before regex mode have no searchMode
+  if (filters.searchTerm && !matchesSearch(row, compileSearch(filters.searchTerm, filters.searchMode ?? 'text'))) {
+    return false;
+  }
+
+  // Pass/Fail filter
+  if (filters.passFailFilter !== 'all') {
+    if (isPassing(row, profile) !== (filters.passFailFilter === 'pass')) {
+      return false;
+    }
+  }
+
+  // Score range filter
+  const semanticScore = getFilterValue(row, 'semantic_score', profile) as number;
+  if (semanticScore < filters.scoreRange[0] || semanticScore > filters.scoreRange[1]) {
+    return false;
+  }
+
+  return matchesFilterGroups(row, filters.groups, filters.groupCombinator, profile);
+};
+
+const formatBound = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(2));
+
+export const describeCondition = (condition: FilterCondition): string => {
+  switch (condition.kind) {
+    case 'numeric':
+      return `${FIELD_LABELS[condition.field]} ${formatBound(condition.min)}–${formatBound(condition.max)}`;
+    case 'boolean':
+      return `${FIELD_LABELS[condition.field]} = ${condition.value ? 'Yes' : 'No'}`;
+    case 'outcome':
+      return condition.value === 'pass' ? 'Passing' : 'Failing';
+  }
+};
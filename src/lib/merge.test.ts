@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { makeTestCase } from '@/test/factories';
+import { mergeTestCases } from './merge';
+
+const existing = [makeTestCase({ id: '1' }), makeTestCase({ id: '2' })];
+const incoming = [makeTestCase({ id: '2', semantic_score: 0.1 }), makeTestCase({ id: '3' })];
+
+describe('mergeTestCases', () => {
+  it('keeps existing rows on conflict', () => {
+    const result = mergeTestCases(existing, incoming, 'keep-existing');
+    expect(result).toMatchObject({ added: 1, updated: 0, skipped: 1 });
+    expect(result.rows.map(row => row.id)).toEqual(['1', '2', '3']);
+    expect(result.rows[1].semantic_score).toBe(0.9);
+  });
+
+  it('overwrites conflicting rows in place', () => {
+    const result = mergeTestCases(existing, incoming, 'overwrite');
+    expect(result).toMatchObject({ added: 1, updated: 1, skipped: 0 });
+    expect(result.rows.map(row => row.id)).toEqual(['1', '2', '3']);
+    expect(result.rows[1].semantic_score).toBe(0.1);
+  });
+
+  it('keeps both rows, suffixing the first free id', () => {
+    const result = mergeTestCases([...existing, makeTestCase({ id: '2_2' })], incoming, 'keep-both');
+    expect(result).toMatchObject({ added: 2, updated: 0, skipped: 0 });
+    expect(result.rows.map(row => row.id)).toEqual(['1', '2', '2_2', '2_3', '3']);
+  });
+
+  it('resolves duplicates within the upload in file order', () => {
+    const result = mergeTestCases([], [makeTestCase({ id: '1' }), makeTestCase({ id: '1', semantic_score: 0.2 })], 'overwrite');
+    expect(result.rows).toHaveLength(1);
+    expect(result.rows[0].semantic_score).toBe(0.2);
+  });
+
+  it('treats equal ids in different runs as different rows', () => {
+    const result = mergeTestCases([makeTestCase({ run_id: 'a' })], [makeTestCase({ run_id: 'b' })], 'keep-existing');
+    expect(result).toMatchObject({ added: 1, skipped: 0 });
+  });
+
+  it('leaves the existing array untouched', () => {
+    const rows = [...existing];
+    mergeTestCases(rows, incoming, 'overwrite');
+    expect(rows).toEqual(existing);
+  });
+});
@@ -0,0 +1,48 @@
+import { MergePolicy, MergeResult, SQLTestCase } from '@/types/validation';
+import { getRowKey } from '@/lib/run-tags';
+
+export const MERGE_POLICY_LABELS: Record<MergePolicy, string> = {
+  'keep-existing': 'Keep existing row',
+  'overwrite': 'Overwrite with new row',
+  'keep-both': 'Keep both (suffix new id)',
+};
+
+// First free "<id>_<n>" within the row's run, starting at 2, so the original id stays untouched
+const getSuffixedRow = (row: SQLTestCase, taken: ReadonlyMap<string, number>): SQLTestCase => {
+  let n = 2;
+  while (taken.has(getRowKey({ ...row, id: `${row.id}_${n}` }))) n++;
+  return { ...row, id: `${row.id}_${n}` };
+};
+
+// Append incoming rows to existing ones. Rows are duplicates when run and id match;
+// duplicates inside the upload itself are resolved with the same policy, in file order.
+export const mergeTestCases = (
+  existing: SQLTestCase[],
+  incoming: SQLTestCase[],
+  policy: MergePolicy
+): MergeResult => {
+  const rows = [...existing];
+  const indexByKey = new Map(rows.map((row, index) => [getRowKey(row), index]));
+  const result = { added: 0, updated: 0, skipped: 0 };
+
+  incoming.forEach(row => {
+    const key = getRowKey(row);
+    const existingIndex = indexByKey.get(key);
+
+    if (existingIndex === undefined) {
+      indexByKey.set(key, rows.push(row) - 1);
+      result.added++;
+    } else if (policy === 'overwrite') {
+      rows[existingIndex] = row;
+      result.updated++;
+    } else if (policy === 'keep-both') {
+      const suffixed = getSuffixedRow(row, indexByKey);
+      indexByKey.set(getRowKey(suffixed), rows.push(suffixed) - 1);
+      result.added++;
+    } else {
+      result.skipped++;
+    }
+  });
+
+  return { rows, ...result };
+};
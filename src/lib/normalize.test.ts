@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { SQLTestCase } from '@/types/validation';
+import { normalizeTestCases } from './normalize';
+
+// Rows as a CSV parser hands them over, with every value a string
+const raw = (overrides: Record<string, unknown>) => ({
+  id: '1',
+  user_prompt: 'List users',
+  expected_sql: 'SELECT * FROM users',
+  generated_sql: 'SELECT * FROM users',
+  syntax_score: '1',
+  semantic_score: '0.8',
+  codebert_match: true,
+  flane5_match: false,
+  true_label: 'select',
+  ...overrides,
+}) as unknown as SQLTestCase;
+
+describe('normalizeTestCases', () => {
+  it('coerces numeric strings and leaves blank optional scores undefined', () => {
+    const [row] = normalizeTestCases([raw({ bleu_score: '0.4', rouge_score: '', codebert_intent_score: '0.7' })]);
+    expect(row.syntax_score).toBe(1);
+    expect(row.semantic_score).toBe(0.8);
+    expect(row.bleu_score).toBe(0.4);
+    expect(row.rouge_score).toBeUndefined();
+    expect(row.codebert_intent_score).toBe(0.7);
+  });
+
+  it('zeroes the syntax and model scores of a blank generated query', () => {
+    const [row] = normalizeTestCases([raw({ generated_sql: '  ', syntax_score: '1', flane5_intent_score: '0.9' })]);
+    expect(row.syntax_score).toBe(0);
+    expect(row.flane5_intent_score).toBe(0);
+    expect(row.codebert_sqlsim_score).toBe(0);
+  });
+
+  it('reads flags from 0/1 and splits semicolon-separated token lists', () => {
+    const [row] = normalizeTestCases([raw({ has_join: '0', has_cte: '1', unknown_tokens: 'foo; bar;' })]);
+    expect(row.has_join).toBe(false);
+    expect(row.has_cte).toBe(true);
+    expect(row.has_limit).toBeUndefined();
+    expect(row.unknown_tokens).toEqual(['foo', 'bar']);
+  });
+});
@@ -0,0 +1,51 @@
+import { SQLTestCase } from '@/types/validation';
+
+const toOptionalNumber = (value: unknown): number | undefined =>
+  value === undefined || value === null || value === '' ? undefined : Number(value);
+
+// Coerce raw parsed rows (CSV strings, loose JSON) into typed test cases.
+// A blank generated_sql zeroes its syntax and model scores.
+export const normalizeTestCases = (rows: SQLTestCase[]): SQLTestCase[] =>
+  rows.map(item => {
+    const isGeneratedSqlBlank = !item.generated_sql || String(item.generated_sql).trim() === '';
+    return {
+      ...item,
+      syntax_score: isGeneratedSqlBlank ? 0 : (Number(item.syntax_score) || 0),
+      semantic_score: Number(item.semantic_score) || 0,
+      n_gram_score: toOptionalNumber(item.n_gram_score),
+      bleu_score: toOptionalNumber(item.bleu_score),
+      rouge_score: toOptionalNumber(item.rouge_score),
+      codebert_match: Boolean(item.codebert_match),
+      flane5_match: Boolean(item.flane5_match),
+      exact_match: item.exact_match !== undefined ? Boolean(item.exact_match) : undefined,
+      unknown_tokens: Array.isArray(item.unknown_tokens)
+        ? item.unknown_tokens
+        : (typeof item.unknown_tokens === 'string' && item.unknown_tokens
+            ? (item.unknown_tokens as string).split(';').map(t => t.trim()).filter(Boolean)
+            : []),
+      has_limit: item.has_limit !== undefined ? Boolean(Number(item.has_limit)) : undefined,
+      has_offset: item.has_offset !== undefined ? Boolean(Number(item.has_offset)) : undefined,
+      has_result_type: item.has_result_type !== undefined ? Boolean(Number(item.has_result_type)) : undefined,
+      has_cte: item.has_cte !== undefined ? Boolean(Number(item.has_cte)) : undefined,
+      has_order_by: item.has_order_by !== undefined ? Boolean(Number(item.has_order_by)) : undefined,
+      has_group_by: item.has_group_by !== undefined ? Boolean(Number(item.has_group_by)) : undefined,
+      has_join: item.has_join !== undefined ? Boolean(Number(item.has_join)) : undefined,
+      codebert_intent_score: isGeneratedSqlBlank ? 0 : (toOptionalNumber(item.codebert_intent_score)),
+      codebert_sqlsim_score: isGeneratedSqlBlank ? 0 : (toOptionalNumber(item.codebert_sqlsim_score)),
+      flane5_intent_score: isGeneratedSqlBlank ? 0 : (toOptionalNumber(item.flane5_intent_score)),
+      flane5_sqlsim_score: isGeneratedSqlBlank ? 0 : (toOptionalNumber(item.flane5_sqlsim_score)),
+      ngram1_precision: toOptionalNumber(item.ngram1_precision),
+      ngram1_recall: toOptionalNumber(item.ngram1_recall),
+      ngram1_f1: toOptionalNumber(item.ngram1_f1),
+      ngram2_precision: toOptionalNumber(item.ngram2_precision),
+      ngram2_recall: toOptionalNumber(item.ngram2_recall),
+      ngram2_f1: toOptionalNumber(item.ngram2_f1),
+      edit_similarity: toOptionalNumber(item.edit_similarity),
+      vocab_unknown_count: toOptionalNumber(item.vocab_unknown_count),
+      vocab_unknown_ratio: toOptionalNumber(item.vocab_unknown_ratio),
+      precision: toOptionalNumber(item.precision),
+      recall: toOptionalNumber(item.recall),
+      f1_score: toOptionalNumber(item.f1_score),
+      execution_accuracy: toOptionalNumber(item.execution_accuracy),
+    };
+  });
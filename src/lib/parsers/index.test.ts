@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { getAcceptedFileTypes, getParserForFile, getParserForMimeType } from '.';
+
+describe('parser registry', () => {
+  it('picks a parser by extension, ignoring case', () => {
+    expect(getParserForFile('results.CSV')?.id).toBe('csv');
+    expect(getParserForFile('results.ndjson')?.id).toBe('jsonl');
+    expect(getParserForFile('results.tab')?.id).toBe('tsv');
+    expect(getParserForFile('results.xlsx')).toBeUndefined();
+  });
+
+  it('picks a parser by MIME type, ignoring parameters', () => {
+    expect(getParserForMimeType('application/json; charset=utf-8')?.id).toBe('json');
+    expect(getParserForMimeType('text/html')).toBeUndefined();
+  });
+
+  it('lists every extension for the upload dialog', () => {
+    expect(getAcceptedFileTypes()['text/csv']).toEqual(['.csv']);
+    expect(getAcceptedFileTypes()['application/x-ndjson']).toEqual(['.jsonl', '.ndjson']);
+  });
+});
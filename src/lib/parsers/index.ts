@@ -0,0 +1,36 @@
+import { FileParser } from './types';
+import { csvParser, tsvParser } from './delimited';
+import { jsonParser, jsonlParser } from './json';
+import { parquetParser } from './parquet';
+
+export type { FileParser, ParsedFile } from './types';
+export { ParseError } from './types';
+
+const registry: FileParser[] = [];
+
+// Later registrations win for a shared extension, so a custom parser can replace a built-in one
+export const registerParser = (parser: FileParser) => {
+  registry.unshift(parser);
+};
+
+[csvParser, tsvParser, jsonParser, jsonlParser, parquetParser].forEach(registerParser);
+
+export const getParserForFile = (fileName: string): FileParser | undefined => {
+  const name = fileName.toLowerCase();
+  return registry.find(parser => parser.extensions.some(ext => name.endsWith(ext)));
+};
+
+export const getRegisteredParsers = (): FileParser[] => [...registry].reverse();
+
+// react-dropzone `accept` map covering every registered format
+export const getAcceptedFileTypes = (): Record<string, string[]> =>
+  getRegisteredParsers().reduce<Record<string, string[]>>((accept, parser) => {
+    accept[parser.mimeType] = [...(accept[parser.mimeType] ?? []), ...parser.extensions];
+    return accept;
+  }, {});
+
+// Used when a file name carries no extension, e.g. a download served by an API endpoint
+export const getParserForMimeType = (mimeType: string): FileParser | undefined => {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  return registry.find(parser => parser.mimeType === type);
+};
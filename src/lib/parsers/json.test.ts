@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { ParseError } from './types';
+import { jsonParser, jsonlParser } from './json';
+
+const file = (name: string, text: string) => new File([text], name);
+
+describe('jsonParser', () => {
+  it('reads an array or a single object', async () => {
+    expect((await jsonParser.parse(file('a.json', '[{"id": 1}, {"id": 2}]'))).rows).toHaveLength(2);
+    expect((await jsonParser.parse(file('a.json', '{"id": 1}'))).rows).toEqual([{ id: 1 }]);
+  });
+
+  it('throws a ParseError for invalid JSON', async () => {
+    await expect(jsonParser.parse(file('a.json', '[{'))).rejects.toBeInstanceOf(ParseError);
+  });
+});
+
+describe('jsonlParser', () => {
+  it('reads one object per line and skips blank lines', async () => {
+    const { rows } = await jsonlParser.parse(file('a.jsonl', '{"id": 1}\r\n\n{"id": 2}'));
+    expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it('reports the line of invalid JSON', async () => {
+    await expect(jsonlParser.parse(file('a.jsonl', '{"id": 1}\n{oops}'))).rejects.toThrow(/^Line 2: /);
+  });
+});
@@ -0,0 +1,57 @@
+import { FileParser, ParseError } from './types';
+
+export const jsonParser: FileParser = {
+  id: 'json',
+  label: 'JSON',
+  extensions: ['.json'],
+  mimeType: 'application/json',
+  parse: async (file) => {
+    try {
+      const data = JSON.parse(await file.text());
+      return { rows: Array.isArray(data) ? data : [data] };
+    } catch (error) {
+      throw new ParseError(error instanceof Error ? error.message : 'Invalid JSON');
+    }
+  },
+};
+
+// Reads the file as a stream so large JSONL exports are never held as one string
+async function* readLines(file: File, onProgress?: (fraction: number) => void): AsyncGenerator<string> {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let bytesRead = 0;
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    onProgress?.(bytesRead / file.size);
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? '';
+    yield* lines;
+  }
+  buffer += decoder.decode();
+  if (buffer) yield buffer;
+}
+
+export const jsonlParser: FileParser = {
+  id: 'jsonl',
+  label: 'JSON Lines',
+  extensions: ['.jsonl', '.ndjson'],
+  mimeType: 'application/x-ndjson',
+  parse: async (file, onProgress) => {
+    const rows: unknown[] = [];
+    let line = 0;
+    for await (const text of readLines(file, onProgress)) {
+      line++;
+      if (text.trim() === '') continue;
+      try {
+        rows.push(JSON.parse(text));
+      } catch (error) {
+        throw new ParseError(error instanceof Error ? error.message : 'Invalid JSON', { line });
+      }
+    }
+    return { rows };
+  },
+};
@@ -0,0 +1,25 @@
+import { parquetReadObjects } from 'hyparquet';
+import { FileParser, ParseError } from './types';
+
+// INT64 columns come back as BigInt, which JSON, IndexedDB clones and the schema do not expect
+const toPlainValue = (value: unknown) => (typeof value === 'bigint' ? Number(value) : value);
+
+export const parquetParser: FileParser = {
+  id: 'parquet',
+  label: 'Parquet',
+  extensions: ['.parquet'],
+  mimeType: 'application/vnd.apache.parquet',
+  parse: async (file) => {
+    let rows: Record<string, unknown>[];
+    try {
+      rows = await parquetReadObjects({ file: await file.arrayBuffer() });
+    } catch (error) {
+      throw new ParseError(`Could not read Parquet file: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+    return {
+      rows: rows.map(row =>
+        Object.fromEntries(Object.entries(row).map(([key, value]) => [key, toPlainValue(value)]))
+      ),
+    };
+  },
+};
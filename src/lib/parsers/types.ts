@@ -0,0 +1,29 @@
+// Result of reading an upload, before column mapping and schema validation
+export interface ParsedFile {
+  rows: unknown[];
+  // Header order from the file when the format has one; otherwise derived from the rows
+  headers?: string[];
+}
+
+export interface FileParser {
+  id: string;
+  label: string;
+  // Lower-case, with the leading dot
+  extensions: string[];
+  // Passed to react-dropzone's `accept`
+  mimeType: string;
+  // onProgress receives the fraction of the file read so far (0-1), when the format can stream
+  parse: (file: File, onProgress?: (fraction: number) => void) => Promise<ParsedFile>;
+}
+
+// Thrown by parsers so the upload error can point at the offending line or row
+export class ParseError extends Error {
+  constructor(message: string, readonly location?: { line?: number; row?: number }) {
+    super(
+      location?.line !== undefined ? `Line ${location.line}: ${message}`
+        : location?.row !== undefined ? `Row ${location.row}: ${message}`
+        : message
+    );
+    this.name = 'ParseError';
+  }
+}
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RemoteFetchError, fetchRemoteFile, resolveRemoteUrl } from './remote';
+
+const respond = (body: string, init: ResponseInit = {}) =>
+  vi.fn().mockResolvedValue(new Response(body, init));
+
+beforeEach(() => {
+  vi.stubGlobal('window', { location: { href: 'https://dashboard.test/app', origin: 'https://dashboard.test' } });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('resolveRemoteUrl', () => {
+  it('resolves relative URLs against the dashboard', () => {
+    expect(resolveRemoteUrl(' /artifacts/run.csv ').href).toBe('https://dashboard.test/artifacts/run.csv');
+  });
+
+  it('rejects other protocols and invalid URLs', () => {
+    expect(() => resolveRemoteUrl('file:///tmp/run.csv')).toThrow(RemoteFetchError);
+    expect(() => resolveRemoteUrl('http://')).toThrow(/is not a valid URL/);
+  });
+});
+
+describe('fetchRemoteFile', () => {
+  it('names the file after the last path segment', async () => {
+    vi.stubGlobal('fetch', respond('[]'));
+    expect((await fetchRemoteFile('https://ci.test/runs/nightly%20run.json')).name).toBe('nightly run.json');
+  });
+
+  it('keeps a segment with a malformed escape as it is', async () => {
+    vi.stubGlobal('fetch', respond('[]'));
+    expect((await fetchRemoteFile('https://ci.test/runs/bad%E0%A4%A.json')).name).toBe('bad%E0%A4%A.json');
+  });
+
+  it('adds an extension from the content type', async () => {
+    vi.stubGlobal('fetch', respond('[]', { headers: { 'content-type': 'application/json; charset=utf-8' } }));
+    expect((await fetchRemoteFile('https://ci.test/api/results')).name).toBe('results.json');
+  });
+
+  it('rejects responses of unknown format', async () => {
+    vi.stubGlobal('fetch', respond('<html>', { headers: { 'content-type': 'text/html' } }));
+    await expect(fetchRemoteFile('https://ci.test/api/results')).rejects.toThrow(/Cannot tell the format/);
+  });
+
+  it('reports HTTP errors with their status', async () => {
+    vi.stubGlobal('fetch', respond('', { status: 404 }));
+    await expect(fetchRemoteFile('https://ci.test/run.csv')).rejects.toMatchObject({
+      name: 'RemoteFetchError',
+      status: 404,
+      message: 'https://ci.test/run.csv returned HTTP 404 (not found)',
+    });
+  });
+
+  it('explains cross-origin network failures', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+    await expect(fetchRemoteFile('https://ci.test/run.csv')).rejects.toThrow(/CORS/);
+  });
+});
@@ -0,0 +1,78 @@
+import { getParserForFile, getParserForMimeType } from '@/lib/parsers';
+
+// Thrown by fetchRemoteFile with a message that can be shown to the user as is
+export class RemoteFetchError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'RemoteFetchError';
+  }
+}
+
+export const REMOTE_SOURCE_PARAM = 'src';
+
+// Relative URLs resolve against the dashboard, so `?src=/artifacts/run.csv` works on the same host
+export const resolveRemoteUrl = (url: string): URL => {
+  try {
+    const resolved = new URL(url.trim(), window.location.href);
+    if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') {
+      throw new RemoteFetchError(`Only http and https URLs are supported, got "${resolved.protocol}"`);
+    }
+    return resolved;
+  } catch (error) {
+    if (error instanceof RemoteFetchError) throw error;
+    throw new RemoteFetchError(`"${url}" is not a valid URL`);
+  }
+};
+
+// A malformed escape such as "%E0%A4%A" would throw a URIError; keep the segment as it is
+const decodePathSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+const getRemoteFileName = (url: URL, contentType: string): string => {
+  const name = decodePathSegment(url.pathname.split('/').pop() ?? '') || url.hostname;
+  if (getParserForFile(name)) return name;
+  // API endpoints often have no extension; fall back to the response's content type
+  const parser = getParserForMimeType(contentType);
+  if (parser) return `${name}${parser.extensions[0]}`;
+  throw new RemoteFetchError(
+    `Cannot tell the format of ${url.href} (content type "${contentType || 'unknown'}"). ` +
+    'Use a URL ending in a supported extension or serve it with a matching Content-Type.'
+  );
+};
+
+// Downloads a results file so it can go through the same import pipeline as a dropped file
+export const fetchRemoteFile = async (url: string, signal?: AbortSignal): Promise<File> => {
+  const resolved = resolveRemoteUrl(url);
+
+  let response: Response;
+  try {
+    response = await fetch(resolved.href, { signal });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    // Browsers report CORS rejections and unreachable hosts as the same opaque TypeError
+    const crossOrigin = resolved.origin !== window.location.origin;
+    throw new RemoteFetchError(
+      crossOrigin
+        ? `Could not fetch ${resolved.href}. The server is unreachable or does not allow requests from ` +
+          `${window.location.origin} (CORS). Add an Access-Control-Allow-Origin header on the server.`
+        : `Could not fetch ${resolved.href}. Check that the server is running.`
+    );
+  }
+
+  if (!response.ok) {
+    const reason = response.status === 404 ? 'not found'
+      : response.status === 401 || response.status === 403 ? 'access denied'
+      : response.statusText || 'request failed';
+    throw new RemoteFetchError(`${resolved.href} returned HTTP ${response.status} (${reason})`, response.status);
+  }
+
+  const contentType = response.headers.get('content-type') ?? '';
+  const fileName = getRemoteFileName(resolved, contentType);
+  const blob = await response.blob();
+  return new File([blob], fileName, { type: blob.type });
+};
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { ExecutionResult, QueryResult, ResultValue } from '@/types/validation';
+import { makeTestCase } from '@/test/factories';
+import { getRowKey } from './run-tags';
+import {
+  DEFAULT_EXECUTION_OPTIONS,
+  alignColumns,
+  compareResultSets,
+  diffResultSets,
+  getExecutionResult,
+  isPositionalAlignment,
+  toResultValue,
+  valuesEqual
+} from './result-sets';
+
+const result = (columns: string[], rows: ResultValue[][]): QueryResult => ({ columns, rows, rowCount: rows.length });
+
+const ordered = { ...DEFAULT_EXECUTION_OPTIONS, orderSensitive: true };
+
+describe('toResultValue', () => {
+  it('shows blobs as hex literals and keeps other values', () => {
+    expect(toResultValue(new Uint8Array([0, 171, 255]))).toBe("x'00abff'");
+    expect(toResultValue(1.5)).toBe(1.5);
+    expect(toResultValue(null)).toBeNull();
+  });
+});
+
+describe('valuesEqual', () => {
+  it('compares numbers within the tolerance and everything else exactly', () => {
+    expect(valuesEqual(0.1 + 0.2, 0.3, 1e-6)).toBe(true);
+    expect(valuesEqual(1, 1.1, 1e-6)).toBe(false);
+    expect(valuesEqual(1, '1', 1)).toBe(false);
+    expect(valuesEqual(null, null, 0)).toBe(true);
+  });
+});
+
+describe('compareResultSets', () => {
+  const expected = result(['id', 'name'], [[1, 'a'], [2, 'b'], [null, 'c']]);
+
+  it('compares rows as multisets unless order matters', () => {
+    const shuffled = result(['id', 'name'], [[null, 'c'], [2, 'b'], [1, 'a']]);
+    expect(compareResultSets(expected, shuffled, DEFAULT_EXECUTION_OPTIONS)).toBe(true);
+    expect(compareResultSets(expected, shuffled, ordered)).toBe(false);
+    expect(compareResultSets(expected, expected, ordered)).toBe(true);
+  });
+
+  it('counts duplicate rows', () => {
+    const duplicated = result(['id', 'name'], [[1, 'a'], [1, 'a'], [null, 'c']]);
+    expect(compareResultSets(expected, duplicated, DEFAULT_EXECUTION_OPTIONS)).toBe(false);
+  });
+
+  it('matches a reordered SELECT list by column name', () => {
+    const reordered = result(['name', 'id'], [['a', 1], ['b', 2], ['c', null]]);
+    expect(compareResultSets(expected, reordered, ordered)).toBe(true);
+  });
+
+  it('fails on a different column or row count', () => {
+    expect(compareResultSets(expected, result(['id'], [[1], [2], [null]]), DEFAULT_EXECUTION_OPTIONS)).toBe(false);
+    expect(compareResultSets(expected, result(['id', 'name'], [[1, 'a']]), DEFAULT_EXECUTION_OPTIONS)).toBe(false);
+  });
+
+  it('applies the float tolerance', () => {
+    const close = result(['total'], [[10.0000001]]);
+    expect(compareResultSets(result(['total'], [[10]]), close, DEFAULT_EXECUTION_OPTIONS)).toBe(true);
+    expect(compareResultSets(result(['total'], [[10]]), close, { ...DEFAULT_EXECUTION_OPTIONS, floatTolerance: 0 })).toBe(false);
+  });
+});
+
+describe('alignColumns', () => {
+  it('pairs reordered columns by name, ignoring case', () => {
+    expect(alignColumns(['id', 'name'], ['NAME', 'ID'])).toEqual([1, 0]);
+  });
+
+  it('pairs renamed columns by position when the counts agree', () => {
+    const columnMap = alignColumns(['id', 'total'], ['id', 'sum']);
+    expect(columnMap).toEqual([0, 1]);
+    expect(isPositionalAlignment(columnMap)).toBe(true);
+  });
+
+  it('pairs only shared names when the counts differ', () => {
+    const columnMap = alignColumns(['id', 'name', 'age'], ['name', 'id']);
+    expect(columnMap).toEqual([1, 0, -1]);
+    expect(isPositionalAlignment(columnMap)).toBe(false);
+  });
+
+  it('does not pair a name the generated result repeats', () => {
+    expect(alignColumns(['id', 'name'], ['id', 'id', 'name'])).toEqual([-1, 2]);
+  });
+});
+
+describe('diffResultSets', () => {
+  const expected = result(['id', 'name'], [[1, 'a'], [2, 'b'], [3, 'c']]);
+
+  it('pairs equal rows, then the closest changed row, and leaves the rest missing or extra', () => {
+    const generated = result(['id', 'name'], [[9, 'z'], [2, 'x'], [1, 'a'], [8, 'y']]);
+    const diff = diffResultSets(expected, generated, DEFAULT_EXECUTION_OPTIONS);
+    expect(diff.counts).toEqual({ match: 1, changed: 1, missing: 1, extra: 2 });
+    expect(diff.expectedRows[0]).toEqual({ status: 'match', cells: [false, false], pairedIndex: 2 });
+    expect(diff.expectedRows[1]).toEqual({ status: 'changed', cells: [false, true], pairedIndex: 1 });
+    expect(diff.expectedRows[2].status).toBe('missing');
+    expect(diff.generatedRows[1]).toEqual({ status: 'changed', cells: [false, true], pairedIndex: 1 });
+    expect(diff.generatedRows[0].status).toBe('extra');
+  });
+
+  it('pairs rows by position when order matters', () => {
+    const generated = result(['id', 'name'], [[2, 'b'], [1, 'a']]);
+    const diff = diffResultSets(expected, generated, ordered);
+    expect(diff.counts).toEqual({ match: 0, changed: 2, missing: 1, extra: 0 });
+    expect(diff.expectedRows[0].pairedIndex).toBe(0);
+  });
+
+  it('flags cells through the column map', () => {
+    const generated = result(['name', 'id', 'extra'], [['a', 1, 'x']]);
+    const diff = diffResultSets(result(['id', 'name'], [[1, 'a']]), generated, DEFAULT_EXECUTION_OPTIONS);
+    expect(diff.columnMap).toEqual([1, 0]);
+    expect(diff.expectedRows[0]).toMatchObject({ status: 'match', cells: [false, false] });
+    // The generated-only column has nothing to match against
+    expect(diff.generatedRows[0].cells).toEqual([false, false, true]);
+  });
+});
+
+describe('getExecutionResult', () => {
+  const row = makeTestCase({ run_id: 'a' });
+  const stored = {
+    expectedSql: row.expected_sql,
+    generatedSql: row.generated_sql,
+    match: true,
+  } as ExecutionResult;
+
+  it('looks results up by run and id', () => {
+    expect(getExecutionResult(new Map([[getRowKey(row), stored]]), row)).toBe(stored);
+    expect(getExecutionResult(new Map([[getRowKey({ ...row, run_id: undefined }), stored]]), row)).toBeUndefined();
+    expect(getExecutionResult(null, row)).toBeUndefined();
+  });
+
+  it('ignores results for SQL the row no longer has', () => {
+    const edited = { ...row, generated_sql: 'SELECT id FROM users' };
+    expect(getExecutionResult(new Map([[getRowKey(row), stored]]), edited)).toBeUndefined();
+  });
+});
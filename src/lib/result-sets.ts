@@ -0,0 +1,181 @@
+import {
+  ExecutionOptions,
+  ExecutionResult,
+  QueryResult,
+  ResultRowDiff,
+  ResultRowStatus,
+  ResultSetDiff,
+  ResultValue,
+  SQLTestCase
+} from '@/types/validation';
+import { getRowKey } from '@/lib/run-tags';
+
+export const DEFAULT_EXECUTION_OPTIONS: ExecutionOptions = {
+  orderSensitive: false,
+  floatTolerance: 1e-6,
+};
+
+// Rows kept per result for display; comparisons always use the full result
+export const MAX_DISPLAYED_RESULT_ROWS = 500;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const toResultValue = (value: number | string | Uint8Array | null): ResultValue =>
+  value instanceof Uint8Array ? `x'${toHex(value)}'` : value;
+
+export const valuesEqual = (a: ResultValue, b: ResultValue, tolerance: number): boolean => {
+  if (typeof a === 'number' && typeof b === 'number') return Math.abs(a - b) <= tolerance;
+  return a === b;
+};
+
+// NULLs first, then numbers, then text, so both sides of an unordered comparison sort alike
+const TYPE_ORDER = { null: 0, number: 1, string: 2 };
+
+const compareValues = (a: ResultValue, b: ResultValue): number => {
+  const typeA = a === null ? 'null' : typeof a as 'number' | 'string';
+  const typeB = b === null ? 'null' : typeof b as 'number' | 'string';
+  if (typeA !== typeB) return TYPE_ORDER[typeA] - TYPE_ORDER[typeB];
+  if (a === null || a === b) return 0;
+  return a < b ? -1 : 1;
+};
+
+const compareRows = (a: ResultValue[], b: ResultValue[]): number => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const order = compareValues(a[i], b[i]);
+    if (order !== 0) return order;
+  }
+  return a.length - b.length;
+};
+
+export const rowsEqual = (a: ResultValue[], b: ResultValue[], tolerance: number): boolean =>
+  a.length === b.length && a.every((value, i) => valuesEqual(value, b[i], tolerance));
+
+// Maps each expected column to the generated column it is compared with, or -1 for none.
+// Columns pair up by name when the generated query returns the same names in another order;
+// otherwise by position when the counts agree (aliases often differ), and by name for the
+// columns they share when they do not.
+export const alignColumns = (expected: string[], generated: string[]): number[] => {
+  const generatedNames = generated.map(name => name.toLowerCase());
+  const byName = expected.map(name => {
+    const index = generatedNames.indexOf(name.toLowerCase());
+    return index !== -1 && generatedNames.lastIndexOf(name.toLowerCase()) === index ? index : -1;
+  });
+  if (expected.length !== generated.length) return byName;
+  const isPermutation = new Set(byName).size === byName.length && !byName.includes(-1);
+  return isPermutation ? byName : expected.map((_, i) => i);
+};
+
+export const isPositionalAlignment = (columnMap: number[]): boolean =>
+  columnMap.every((index, i) => index === i);
+
+const pickColumns = (row: ResultValue[], columnMap: number[]) => columnMap.map(index => row[index]);
+
+// Execution match: same column count and the same rows, in order or as multisets. Columns
+// are paired with alignColumns, so reordered SELECT lists still match.
+export const compareResultSets = (expected: QueryResult, generated: QueryResult, options: ExecutionOptions): boolean => {
+  if (expected.columns.length !== generated.columns.length) return false;
+  if (expected.rows.length !== generated.rows.length) return false;
+  const columnMap = alignColumns(expected.columns, generated.columns);
+  const aligned = isPositionalAlignment(columnMap) ? generated.rows : generated.rows.map(row => pickColumns(row, columnMap));
+  const expectedRows = options.orderSensitive ? expected.rows : [...expected.rows].sort(compareRows);
+  const generatedRows = options.orderSensitive ? aligned : [...aligned].sort(compareRows);
+  return expectedRows.every((row, i) => rowsEqual(row, generatedRows[i], options.floatTolerance));
+};
+
+// Cells of expected row a that differ from generated row b under the column map
+const diffCells = (a: ResultValue[], b: ResultValue[], columnMap: number[], tolerance: number): boolean[] =>
+  columnMap.map((index, i) => index === -1 || !valuesEqual(a[i], b[index], tolerance));
+
+// Generated-side cell flags: a cell differs unless an expected column maps to it with an equal value
+const mirrorCells = (cells: boolean[], columnMap: number[], width: number): boolean[] => {
+  const mirrored = new Array<boolean>(width).fill(true);
+  columnMap.forEach((index, i) => {
+    if (index !== -1) mirrored[index] = cells[i];
+  });
+  return mirrored;
+};
+
+const rowDiff = (status: ResultRowStatus, cells: boolean[], pairedIndex?: number): ResultRowDiff =>
+  ({ status, cells, pairedIndex });
+
+// Row- and cell-level differences between the displayed rows of two results. In order-sensitive
+// mode rows pair by position. Otherwise equal rows pair first, then each remaining expected row
+// pairs with the unpaired generated row sharing the most cells; rows left over are missing
+// or extra.
+export const diffResultSets = (
+  expected: QueryResult,
+  generated: QueryResult,
+  options: ExecutionOptions
+): ResultSetDiff => {
+  const columnMap = alignColumns(expected.columns, generated.columns);
+  const width = generated.columns.length;
+  const expectedRows: ResultRowDiff[] = new Array(expected.rows.length);
+  const generatedRows: ResultRowDiff[] = new Array(generated.rows.length);
+  const pair = (i: number, j: number) => {
+    const cells = diffCells(expected.rows[i], generated.rows[j], columnMap, options.floatTolerance);
+    const status = cells.some(Boolean) ? 'changed' : 'match';
+    expectedRows[i] = rowDiff(status, cells, j);
+    generatedRows[j] = rowDiff(status, mirrorCells(cells, columnMap, width), i);
+  };
+
+  if (options.orderSensitive) {
+    const shared = Math.min(expected.rows.length, generated.rows.length);
+    for (let i = 0; i < shared; i++) pair(i, i);
+  } else {
+    const unpaired = new Set(generated.rows.map((_, j) => j));
+    const equalCount = (i: number, j: number) =>
+      diffCells(expected.rows[i], generated.rows[j], columnMap, options.floatTolerance).filter(differs => !differs).length;
+    expected.rows.forEach((_, i) => {
+      const j = Array.from(unpaired).find(candidate => equalCount(i, candidate) === columnMap.length);
+      if (j === undefined) return;
+      unpaired.delete(j);
+      pair(i, j);
+    });
+    expected.rows.forEach((_, i) => {
+      if (expectedRows[i]) return;
+      let best = -1;
+      let bestCount = 0;
+      unpaired.forEach(j => {
+        const count = equalCount(i, j);
+        if (count > bestCount) {
+          best = j;
+          bestCount = count;
+        }
+      });
+      if (best === -1) return;
+      unpaired.delete(best);
+      pair(i, best);
+    });
+  }
+
+  for (let i = 0; i < expectedRows.length; i++) {
+    expectedRows[i] ??= rowDiff('missing', expected.columns.map(() => true));
+  }
+  for (let j = 0; j < generatedRows.length; j++) {
+    generatedRows[j] ??= rowDiff('extra', generated.columns.map(() => true));
+  }
+
+  const count = (rows: ResultRowDiff[], status: ResultRowStatus) => rows.filter(row => row.status === status).length;
+  return {
+    columnMap,
+    expectedRows,
+    generatedRows,
+    counts: {
+      match: count(expectedRows, 'match'),
+      changed: count(expectedRows, 'changed'),
+      missing: count(expectedRows, 'missing'),
+      extra: count(generatedRows, 'extra'),
+    },
+  };
+};
+
+// A stored result only applies while the row still has the SQL it was run with
+export const getExecutionResult = (
+  results: Map<string, ExecutionResult> | null,
+  row: SQLTestCase
+): ExecutionResult | undefined => {
+  const result = results?.get(getRowKey(row));
+  return result && result.expectedSql === row.expected_sql && result.generatedSql === row.generated_sql
+    ? result
+    : undefined;
+};
@@ -0,0 +1,38 @@
+import { RunGroupSummary, ScoringProfile, SQLTestCase } from '@/types/validation';
+import { summarizeResults } from '@/lib/scoring';
+
+// Test ids repeat across runs, so rows are identified by run and id together
+export const getRowKey = (row: SQLTestCase): string =>
+  row.run_id ? `${row.run_id}\u0000${row.id}` : String(row.id);
+
+export const tagTestCases = (rows: SQLTestCase[], runId: string, modelLabel?: string): SQLTestCase[] =>
+  rows.map(row => ({ ...row, run_id: runId, model_label: modelLabel || undefined }));
+
+// Runs in order of first appearance; untagged rows form a group with an empty run id
+export const groupByRun = (rows: SQLTestCase[]): { runId: string; modelLabel?: string; rows: SQLTestCase[] }[] => {
+  const groups = new Map<string, { runId: string; modelLabel?: string; rows: SQLTestCase[] }>();
+  rows.forEach(row => {
+    const runId = row.run_id ?? '';
+    if (!groups.has(runId)) groups.set(runId, { runId, modelLabel: row.model_label, rows: [] });
+    groups.get(runId).rows.push(row);
+  });
+  return [...groups.values()];
+};
+
+export const hasMultipleRuns = (rows: SQLTestCase[]): boolean => {
+  const first = rows[0]?.run_id;
+  return rows.some(row => row.run_id !== first);
+};
+
+export const summarizeByRun = (rows: SQLTestCase[], profile: ScoringProfile): RunGroupSummary[] =>
+  groupByRun(rows).map(group => ({
+    runId: group.runId,
+    modelLabel: group.modelLabel,
+    summary: summarizeResults(group.rows, profile),
+  }));
+
+export const formatRunLabel = (runId: string, modelLabel?: string): string =>
+  `${runId || 'Untagged'}${modelLabel ? ` (${modelLabel})` : ''}`;
+
+// A file's base name is the default run name, e.g. "gpt4_eval.csv" -> "gpt4_eval"
+export const getDefaultRunName = (fileName: string): string => fileName.replace(/\.[^.]+$/, '');
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { EvaluationRun } from '@/types/validation';
+import { makeTestCase } from '@/test/factories';
+import { DEFAULT_SCORING_PROFILE } from './scoring';
+import { computeRunTrendPoint, createRunId } from './runs';
+
+const run: EvaluationRun = {
+  id: 'run_1',
+  name: 'Nightly',
+  date: '2026-01-02',
+  modelLabel: 'gpt',
+  sourceFile: 'nightly.csv',
+  rowCount: 3,
+  createdAt: '2026-01-02T00:00:00.000Z',
+};
+
+describe('computeRunTrendPoint', () => {
+  const failing = { flane5_intent_score: 0.1, flane5_sqlsim_score: 0.1 };
+  const rows = [
+    makeTestCase({ id: '1', has_join: true, execution_accuracy: 1 }),
+    makeTestCase({ id: '2', has_join: true, ...failing, execution_accuracy: 0 }),
+    makeTestCase({ id: '3', has_join: false }),
+  ];
+
+  it('summarizes the run with the profile', () => {
+    const point = computeRunTrendPoint(run, rows, DEFAULT_SCORING_PROFILE);
+    expect(point).toMatchObject({ runId: 'run_1', name: 'Nightly', date: '2026-01-02', modelLabel: 'gpt' });
+    expect(point.passRate).toBeCloseTo(200 / 3);
+    expect(point.executionAccuracy).toBe(0.5);
+  });
+
+  it('reports pass rates only for constructs the run contains', () => {
+    const point = computeRunTrendPoint(run, rows, DEFAULT_SCORING_PROFILE);
+    expect(point.constructPassRates).toEqual({ has_join: 50 });
+  });
+
+  it('leaves execution accuracy undefined when no row has it', () => {
+    expect(computeRunTrendPoint(run, [makeTestCase()], DEFAULT_SCORING_PROFILE).executionAccuracy).toBeUndefined();
+  });
+});
+
+describe('createRunId', () => {
+  it('creates distinct prefixed ids', () => {
+    const id = createRunId();
+    expect(id).toMatch(/^run_/);
+    expect(createRunId()).not.toBe(id);
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  SQLTestCase,
+  ScoringProfile,
+  EvaluationRun,
+  ConstructField,
+  RunTrendPoint
+} from '@/types/validation';
+import { getAll, getItem, putItem, deleteItem, STORES } from '@/lib/db';
+import { isPassing, summarizeResults } from '@/lib/scoring';
+
+export const CONSTRUCT_FIELDS: ConstructField[] = [
+  'has_join',
+  'has_cte',
+  'has_group_by',
+  'has_order_by',
+  'has_limit',
+  'has_offset',
+  'has_result_type',
+];
+
+export const createRunId = () =>
+  `run_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Oldest first, so the list and trend charts read left to right in time
+const byDate = (a: EvaluationRun, b: EvaluationRun) =>
+  a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt);
+
+export const listRuns = async (): Promise<EvaluationRun[]> =>
+  (await getAll<EvaluationRun>(STORES.runs)).sort(byDate);
+
+export const saveRun = async (
+  run: Omit<EvaluationRun, 'id' | 'rowCount' | 'createdAt'>,
+  rows: SQLTestCase[]
+): Promise<EvaluationRun> => {
+  const saved: EvaluationRun = {
+    ...run,
+    id: createRunId(),
+    rowCount: rows.length,
+    createdAt: new Date().toISOString(),
+  };
+  await putItem(STORES.runRows, rows, saved.id);
+  await putItem(STORES.runs, saved);
+  return saved;
+};
+
+export const getRun = (id: string): Promise<EvaluationRun | undefined> =>
+  getItem<EvaluationRun>(STORES.runs, id);
+
+export const loadRunRows = async (id: string): Promise<SQLTestCase[]> =>
+  (await getItem<SQLTestCase[]>(STORES.runRows, id)) ?? [];
+
+export const deleteRun = async (id: string): Promise<void> => {
+  await deleteItem(STORES.runs, id);
+  await deleteItem(STORES.runRows, id);
+};
+
+const average = (values: number[]): number | undefined =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+
+export const computeRunTrendPoint = (
+  run: EvaluationRun,
+  rows: SQLTestCase[],
+  profile: ScoringProfile
+): RunTrendPoint => {
+  const summary = summarizeResults(rows, profile);
+  const constructPassRates: RunTrendPoint['constructPassRates'] = {};
+  CONSTRUCT_FIELDS.forEach(field => {
+    const withConstruct = rows.filter(row => row[field]);
+    if (withConstruct.length === 0) return;
+    constructPassRates[field] =
+      (withConstruct.filter(row => isPassing(row, profile)).length / withConstruct.length) * 100;
+  });
+
+  return {
+    runId: run.id,
+    name: run.name,
+    date: run.date,
+    modelLabel: run.modelLabel,
+    passRate: summary.passRate,
+    averageSemanticScore: summary.averageSemanticScore,
+    averageSyntaxScore: summary.averageSyntaxScore,
+    executionAccuracy: average(
+      rows.map(row => row.execution_accuracy).filter((v): v is number => typeof v === 'number')
+    ),
+    constructPassRates,
+  };
+};
@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { SchemaCatalog } from '@/types/validation';
+import { makeTestCase } from '@/test/factories';
+import { installMemoryStorage } from '@/test/storage';
+import {
+  buildSchemaIndex,
+  classifySqlTokens,
+  findHallucinatedIdentifiers,
+  loadSchemaCatalog,
+  parseSchemaDdl,
+  parseSchemaFile,
+  parseSchemaJson,
+  rankHallucinatedIdentifiers,
+  saveSchemaCatalog
+} from './schema-catalog';
+
+const catalog: SchemaCatalog = {
+  source: 'schema.sql',
+  tables: [
+    { name: 'users', columns: ['id', 'name', 'age'] },
+    { name: 'orders', columns: ['id', 'user_id', 'total'] },
+  ],
+};
+const index = buildSchemaIndex(catalog);
+
+describe('parseSchemaDdl', () => {
+  it('reads tables, views and columns, skipping constraints and other statements', () => {
+    const ddl = `
+      -- users
+      CREATE TABLE IF NOT EXISTS "main"."users" (
+        id INTEGER PRIMARY KEY,
+        "name" TEXT NOT NULL,
+        price NUMERIC(10, 2),
+        CONSTRAINT users_name UNIQUE (name)
+      );
+      INSERT INTO users VALUES (1, 'a', 2.5);
+      CREATE VIEW adults AS SELECT * FROM users WHERE age > 17;
+    `;
+    expect(parseSchemaDdl(ddl)).toEqual([
+      { name: 'users', columns: ['id', 'name', 'price'] },
+      { name: 'adults', columns: [] },
+    ]);
+  });
+});
+
+describe('parseSchemaJson', () => {
+  it('accepts a table list, a bare array and a map of columns or types', () => {
+    const expected = [{ name: 'users', columns: ['id', 'name'] }];
+    expect(parseSchemaJson('{"tables": [{"name": "users", "columns": ["id", {"name": "name"}]}]}')).toEqual(expected);
+    expect(parseSchemaJson('[{"name": "users", "columns": ["id", "name"]}]')).toEqual(expected);
+    expect(parseSchemaJson('{"users": ["id", "name"]}')).toEqual(expected);
+    expect(parseSchemaJson('{"users": {"id": "int", "name": "text"}}')).toEqual(expected);
+  });
+
+  it('rejects other shapes', () => {
+    expect(() => parseSchemaJson('{"users": 1}')).toThrow(/Expected/);
+  });
+});
+
+describe('parseSchemaFile', () => {
+  it('fails when no tables are found', () => {
+    expect(() => parseSchemaFile('schema.sql', 'SELECT 1')).toThrow(/No CREATE TABLE/);
+    expect(parseSchemaFile('catalog.txt', '{"users": ["id"]}').tables).toEqual([{ name: 'users', columns: ['id'] }]);
+  });
+});
+
+describe('classifySqlTokens', () => {
+  const kinds = (sql: string) =>
+    classifySqlTokens(sql, index).filter(token => token.kind !== 'other').map(token => [token.text, token.kind]);
+
+  it('labels tables, columns, aliases and keywords case-insensitively', () => {
+    expect(kinds('SELECT u.Name AS n FROM Users u WHERE age > 30')).toEqual([
+      ['SELECT', 'keyword'],
+      ['u', 'alias'],
+      ['Name', 'column'],
+      ['AS', 'keyword'],
+      ['n', 'alias'],
+      ['FROM', 'keyword'],
+      ['Users', 'table'],
+      ['u', 'alias'],
+      ['WHERE', 'keyword'],
+      ['age', 'column'],
+      ['30', 'literal'],
+    ]);
+  });
+});
+
+describe('findHallucinatedIdentifiers', () => {
+  it('reports unknown tables and columns, including columns of the wrong table', () => {
+    expect(findHallucinatedIdentifiers('SELECT u.total, email FROM users u JOIN payments p ON p.id = u.id', index))
+      .toEqual(['total', 'email', 'payments']);
+  });
+
+  it('accepts names the query defines itself', () => {
+    const sql = 'WITH big AS (SELECT user_id, SUM(total) AS spent FROM orders GROUP BY user_id) SELECT spent FROM big';
+    expect(findHallucinatedIdentifiers(sql, index)).toEqual([]);
+  });
+});
+
+describe('rankHallucinatedIdentifiers', () => {
+  it('counts the cases using each identifier, most widespread first', () => {
+    const rows = [
+      makeTestCase({ generated_sql: 'SELECT email FROM users' }),
+      makeTestCase({ generated_sql: 'SELECT email, phone FROM users' }),
+      makeTestCase({ generated_sql: 'SELECT name FROM users' }),
+    ];
+    expect(rankHallucinatedIdentifiers(rows, index)).toEqual({
+      affectedCases: 2,
+      identifiers: [{ identifier: 'email', cases: 2 }, { identifier: 'phone', cases: 1 }],
+    });
+  });
+});
+
+describe('stored schema', () => {
+  let restore: () => void;
+  afterEach(() => restore());
+
+  it('round-trips and removes the stored schema', () => {
+    restore = installMemoryStorage();
+    expect(saveSchemaCatalog(catalog)).toBe(true);
+    expect(loadSchemaCatalog()).toEqual(catalog);
+    expect(saveSchemaCatalog(null)).toBe(true);
+    expect(loadSchemaCatalog()).toBeNull();
+  });
+
+  it('reports a schema too large to store and drops the older one', () => {
+    restore = installMemoryStorage(JSON.stringify(catalog).length);
+    saveSchemaCatalog(catalog);
+    const larger = { ...catalog, tables: [...catalog.tables, { name: 'payments', columns: ['id'] }] };
+    expect(saveSchemaCatalog(larger)).toBe(false);
+    expect(loadSchemaCatalog()).toBeNull();
+  });
+});
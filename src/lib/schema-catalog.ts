@@ -0,0 +1,319 @@
+import { z } from 'zod';
+import {
+  ClassifiedToken,
+  HallucinatedIdentifierCount,
+  SQLTestCase,
+  SchemaCatalog,
+  SchemaTable,
+  SqlTokenKind
+} from '@/types/validation';
+import { SQL_KEYWORDS, tokenizeSql } from '@/lib/sql-diff';
+
+const STORAGE_KEY = 'sql-validation:schema';
+
+// Words that are not in SQL_KEYWORDS but are never schema identifiers: types, date parts,
+// window frames, DDL and dialect-specific keywords
+const SQL_EXTRA_KEYWORDS = new Set([
+  'date', 'time', 'timestamp', 'interval', 'year', 'quarter', 'month', 'week', 'day', 'hour', 'minute', 'second',
+  'int', 'integer', 'bigint', 'smallint', 'text', 'varchar', 'char', 'string', 'real', 'float', 'double',
+  'precision', 'numeric', 'decimal', 'boolean', 'bool', 'current_date', 'current_time', 'current_timestamp',
+  'any', 'some', 'lateral', 'window', 'range', 'rows', 'preceding', 'following', 'unbounded', 'current', 'row',
+  'returning', 'conflict', 'do', 'nothing', 'if', 'replace', 'primary', 'key', 'foreign', 'references',
+  'default', 'unique', 'check', 'constraint', 'collate', 'glob', 'regexp', 'similar', 'escape', 'ties',
+  'percent', 'unnest', 'at', 'zone', 'epoch', 'dow', 'doy', 'ignore', 'respect', 'qualify', 'struct', 'array',
+]);
+
+// Leading words of CREATE TABLE entries that declare constraints rather than columns
+const CONSTRAINT_WORDS = new Set([
+  'constraint', 'primary', 'foreign', 'unique', 'check', 'key', 'index', 'fulltext', 'spatial', 'exclude', 'period',
+]);
+
+const CREATE_PATTERN = /\bcreate\s+(?:or\s+replace\s+)?(?:(?:temp|temporary|virtual|materialized)\s+)?(table|view)\s+(?:if\s+not\s+exists\s+)?((?:[\w$]+|"[^"]+"|`[^`]+`|\[[^\]]+\])(?:\s*\.\s*(?:[\w$]+|"[^"]+"|`[^`]+`|\[[^\]]+\]))*)/gi;
+
+const unquote = (name: string) => name.replace(/^["`[]|["`\]]$/g, '');
+
+// "main"."users" -> users
+const lastNamePart = (name: string) => unquote(name.split(/\s*\.\s*(?=[\w$"`[])/).pop() ?? name);
+
+// Text between the parenthesis at `open` and its match, skipping quoted text
+const readParenthesized = (sql: string, open: number): string | null => {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = open; i < sql.length; i++) {
+    const char = sql[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return sql.slice(open + 1, i);
+    }
+  }
+  return null;
+};
+
+const splitTopLevel = (body: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '(') depth++;
+    else if (body[i] === ')') depth--;
+    else if (body[i] === ',' && depth === 0) {
+      parts.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(body.slice(start));
+  return parts;
+};
+
+// Reads table and column names from CREATE TABLE and CREATE VIEW statements. Everything
+// else in the script (INSERTs, indexes, ALTERs) is ignored.
+export const parseSchemaDdl = (ddl: string): SchemaTable[] => {
+  const sql = ddl.replace(/--[^\n]*|\/\*[\s\S]*?\*\//g, ' ');
+  const tables: SchemaTable[] = [];
+  for (const match of sql.matchAll(CREATE_PATTERN)) {
+    const name = lastNamePart(match[2]);
+    const rest = sql.slice(match.index + match[0].length);
+    const open = rest.search(/\S/);
+    const body = match[1].toLowerCase() === 'table' && rest[open] === '('
+      ? readParenthesized(rest, open)
+      : null;
+    const columns = body === null ? [] : splitTopLevel(body).flatMap(part => {
+      const first = part.trim().match(/^(?:[\w$]+|"[^"]+"|`[^`]+`|\[[^\]]+\])/)?.[0];
+      return first && !CONSTRAINT_WORDS.has(first.toLowerCase()) ? [unquote(first)] : [];
+    });
+    tables.push({ name, columns });
+  }
+  return tables;
+};
+
+const columnListSchema = z.array(z.union([z.string(), z.object({ name: z.string() }).passthrough()]))
+  .transform(columns => columns.map(column => (typeof column === 'string' ? column : column.name)));
+
+const tableListSchema = z.array(z.object({ name: z.string(), columns: columnListSchema.default([]) }).passthrough());
+
+// Accepted catalogs: { "tables": [{ "name", "columns" }] }, a bare array of those tables,
+// or a map of table name to column names (or to a { column: type } object)
+const catalogJsonSchema = z.union([
+  z.object({ tables: tableListSchema }).passthrough().transform(catalog => catalog.tables),
+  tableListSchema,
+  z.record(z.union([columnListSchema, z.record(z.unknown()).transform(columns => Object.keys(columns))]))
+    .transform(map => Object.entries(map).map(([name, columns]) => ({ name, columns }))),
+]);
+
+export const parseSchemaJson = (json: string): SchemaTable[] => {
+  const result = catalogJsonSchema.safeParse(JSON.parse(json));
+  if (!result.success) {
+    throw new Error('Expected {"tables": [{"name", "columns"}]}, an array of tables, or a map of table name to columns');
+  }
+  return result.data.map(table => ({ name: table.name, columns: table.columns }));
+};
+
+// Reads a schema upload: JSON catalogs by extension or leading bracket, DDL otherwise
+export const parseSchemaFile = (fileName: string, text: string): SchemaCatalog => {
+  const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+  const tables = isJson ? parseSchemaJson(text) : parseSchemaDdl(text);
+  if (tables.length === 0) {
+    throw new Error(isJson ? 'The catalog lists no tables' : 'No CREATE TABLE or CREATE VIEW statements found');
+  }
+  return { source: fileName, tables };
+};
+
+const schemaCatalogSchema = z.object({
+  source: z.string(),
+  tables: z.array(z.object({ name: z.string(), columns: z.array(z.string()) })),
+});
+
+export const loadSchemaCatalog = (): SchemaCatalog | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    const result = schemaCatalogSchema.safeParse(JSON.parse(stored));
+    return result.success ? result.data as SchemaCatalog : null;
+  } catch {
+    return null;
+  }
+};
+
+// Returns false when the schema does not fit in localStorage. The previously stored schema
+// is removed then, so a reload does not bring back a different one.
+export const saveSchemaCatalog = (schema: SchemaCatalog | null): boolean => {
+  try {
+    if (schema) localStorage.setItem(STORAGE_KEY, JSON.stringify(schema));
+    else localStorage.removeItem(STORAGE_KEY);
+    return true;
+  } catch {
+    localStorage.removeItem(STORAGE_KEY);
+    return false;
+  }
+};
+
+// Case-insensitive lookups built once per schema
+export interface SchemaIndex {
+  // Lower-cased table name -> lower-cased column names (empty when unknown)
+  tables: Map<string, Set<string>>;
+  columns: Set<string>;
+}
+
+export const buildSchemaIndex = (schema: SchemaCatalog): SchemaIndex => {
+  const tables = new Map<string, Set<string>>();
+  const columns = new Set<string>();
+  schema.tables.forEach(table => {
+    const names = new Set(table.columns.map(column => column.toLowerCase()));
+    const existing = tables.get(table.name.toLowerCase());
+    tables.set(table.name.toLowerCase(), existing ? new Set([...existing, ...names]) : names);
+    names.forEach(name => columns.add(name));
+  });
+  return { tables, columns };
+};
+
+const isTrivia = (token: string) => /^\s/.test(token) || token.startsWith('--') || token.startsWith('/*');
+
+const isQuotedIdentifier = (token: string) => /^["`]/.test(token);
+
+const isWord = (token: string) => /^[A-Za-z_]/.test(token);
+
+const isKeyword = (token: string) =>
+  isWord(token) && (SQL_KEYWORDS.has(token.toLowerCase()) || SQL_EXTRA_KEYWORDS.has(token.toLowerCase()));
+
+const isIdentifier = (token: string) => isQuotedIdentifier(token) || (isWord(token) && !isKeyword(token));
+
+const identifierName = (token: string) => unquote(token).toLowerCase();
+
+// Labels every token of a query against the schema. Names the query defines itself (CTEs,
+// table aliases, column aliases after AS) are aliases; a qualified column must exist in
+// the table its qualifier resolves to. Calls to functions not in the keyword list count
+// as keywords, so only tables and columns can be hallucinated.
+export const classifySqlTokens = (sql: string, index: SchemaIndex): ClassifiedToken[] => {
+  const tokens = tokenizeSql(sql);
+  const kinds: SqlTokenKind[] = tokens.map(() => 'other');
+  // Positions below count significant tokens only; each is inspected several times
+  const significant: number[] = [];
+  tokens.forEach((token, i) => {
+    if (!isTrivia(token)) significant.push(i);
+  });
+  const texts = significant.map(i => tokens[i]);
+  const lowers = texts.map(text => text.toLowerCase());
+  const identifiers = texts.map(isIdentifier);
+  const names = texts.map((text, p) => (identifiers[p] ? identifierName(text) : ''));
+  const at = (position: number) => lowers[position] ?? '';
+
+  // Alias -> the table it stands for, or null for CTEs, subqueries and column aliases
+  const aliases = new Map<string, string | null>();
+  const resolveTable = (name: string) => (index.tables.has(name) ? name : aliases.get(name) ?? null);
+  names.forEach((name, p) => {
+    if (!identifiers[p]) return;
+    // WITH name AS (
+    if (at(p + 1) === 'as' && at(p + 2) === '(' && !index.tables.has(name)) {
+      aliases.set(name, null);
+      return;
+    }
+    if (at(p - 1) === 'as') {
+      const target = identifiers[p - 2] ? resolveTable(names[p - 2]) : null;
+      aliases.set(name, at(p - 3) === '.' ? null : target);
+      return;
+    }
+    // FROM users u, JOIN (SELECT ...) t
+    const previous = at(p - 1) === ')' ? null : identifiers[p - 1] && at(p - 2) !== '.' ? resolveTable(names[p - 1]) : undefined;
+    if (previous !== undefined && at(p + 1) !== '.' && at(p + 1) !== '(') aliases.set(name, previous);
+  });
+
+  significant.forEach((tokenIndex, p) => {
+    const token = texts[p];
+    if (/^['\d]/.test(token)) {
+      kinds[tokenIndex] = 'literal';
+      return;
+    }
+    if (!identifiers[p]) {
+      if (isKeyword(token)) kinds[tokenIndex] = 'keyword';
+      return;
+    }
+    const name = names[p];
+    const qualified = at(p - 1) === '.' && identifiers[p - 2];
+    if (qualified) {
+      const qualifier = names[p - 2];
+      const table = resolveTable(qualifier);
+      const columns = table ? index.tables.get(table) : undefined;
+      if (columns && columns.size > 0) {
+        kinds[tokenIndex] = columns.has(name) ? 'column' : 'hallucinated';
+        return;
+      }
+      // Derived tables and tables without known columns can expose any name
+      if (aliases.has(qualifier) || columns) {
+        kinds[tokenIndex] = index.columns.has(name) ? 'column' : 'alias';
+        return;
+      }
+      // schema.table
+      if (index.tables.has(name)) {
+        kinds[tokenIndex] = 'table';
+        return;
+      }
+    }
+    if (at(p + 1) === '.' && !qualified && !index.tables.has(name) && !aliases.has(name) && index.tables.has(names[p + 2] ?? '')) {
+      // The schema part of schema.table
+      kinds[tokenIndex] = 'other';
+    } else if (index.tables.has(name)) {
+      kinds[tokenIndex] = 'table';
+    } else if (aliases.has(name)) {
+      kinds[tokenIndex] = 'alias';
+    } else if (index.columns.has(name)) {
+      kinds[tokenIndex] = 'column';
+    } else if (at(p + 1) === '(' && !isQuotedIdentifier(token)) {
+      kinds[tokenIndex] = 'keyword';
+    } else {
+      kinds[tokenIndex] = 'hallucinated';
+    }
+  });
+
+  return tokens.map((text, i) => ({ text, kind: kinds[i] }));
+};
+
+// Rankings are recomputed whenever rows change (merges, execution checks), so each query's
+// result is kept for as long as its schema index lives
+const hallucinationCache = new WeakMap<SchemaIndex, Map<string, string[]>>();
+
+// Distinct hallucinated identifiers of a query, in order of first use
+export const findHallucinatedIdentifiers = (sql: string, index: SchemaIndex): string[] => {
+  let cache = hallucinationCache.get(index);
+  if (!cache) {
+    cache = new Map();
+    hallucinationCache.set(index, cache);
+  }
+  const cached = cache.get(sql);
+  if (cached) return cached;
+
+  const seen = new Map<string, string>();
+  classifySqlTokens(sql, index).forEach(token => {
+    if (token.kind !== 'hallucinated') return;
+    const name = unquote(token.text);
+    if (!seen.has(name.toLowerCase())) seen.set(name.toLowerCase(), name);
+  });
+  const identifiers = Array.from(seen.values());
+  cache.set(sql, identifiers);
+  return identifiers;
+};
+
+// Hallucinated identifiers across the generated SQL of all rows, most widespread first
+export const rankHallucinatedIdentifiers = (
+  rows: SQLTestCase[],
+  index: SchemaIndex
+): { affectedCases: number; identifiers: HallucinatedIdentifierCount[] } => {
+  const counts = new Map<string, HallucinatedIdentifierCount>();
+  let affectedCases = 0;
+  rows.forEach(row => {
+    const identifiers = findHallucinatedIdentifiers(row.generated_sql, index);
+    if (identifiers.length > 0) affectedCases++;
+    identifiers.forEach(identifier => {
+      const entry = counts.get(identifier.toLowerCase());
+      if (entry) entry.cases++;
+      else counts.set(identifier.toLowerCase(), { identifier, cases: 1 });
+    });
+  });
+  const identifiers = Array.from(counts.values())
+    .sort((a, b) => b.cases - a.cases || a.identifier.localeCompare(b.identifier));
+  return { affectedCases, identifiers };
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { validateTestCases } from './schema';
+
+// A row as a CSV parser hands it over, with every value a string
+const csvRow = (overrides: Record<string, string> = {}) => ({
+  id: '1',
+  user_prompt: 'List users',
+  expected_sql: 'SELECT * FROM users',
+  generated_sql: 'SELECT * FROM users',
+  syntax_score: '1',
+  semantic_score: '0.8',
+  codebert_match: 'true',
+  flane5_match: '0',
+  true_label: 'select',
+  ...overrides,
+});
+
+describe('validateTestCases', () => {
+  it('coerces CSV strings into typed values', () => {
+    const report = validateTestCases([csvRow({ has_join: 'yes', unknown_tokens: "['foo', 'bar']" })], 'run.csv');
+    expect(report).toMatchObject({ fileName: 'run.csv', totalRows: 1, rejectedRows: 0, issues: [] });
+    expect(report.accepted[0]).toMatchObject({
+      syntax_score: 1,
+      semantic_score: 0.8,
+      codebert_match: true,
+      flane5_match: false,
+      has_join: true,
+      unknown_tokens: ['foo', 'bar'],
+    });
+  });
+
+  it('reports missing required columns once and rejects every row', () => {
+    const { semantic_score: _, ...row } = csvRow();
+    const report = validateTestCases([row, row]);
+    expect(report.missingColumns).toEqual(['semantic_score']);
+    expect(report.rejectedRows).toBe(2);
+    expect(report.issues).toEqual([]);
+  });
+
+  it('rejects rows with a blank or unparseable required value', () => {
+    const report = validateTestCases([csvRow({ semantic_score: '' }), csvRow({ id: '2', syntax_score: 'high' })]);
+    expect(report.rejectedRows).toBe(2);
+    expect(report.issues.map(issue => [issue.id, issue.field, issue.kind])).toEqual([
+      ['1', 'semantic_score', 'missing-value'],
+      ['2', 'syntax_score', 'unparseable'],
+    ]);
+  });
+
+  it('accepts a blank syntax score when the generated query is blank', () => {
+    const report = validateTestCases([csvRow({ generated_sql: '', syntax_score: '' })]);
+    expect(report.rejectedRows).toBe(0);
+    expect(report.accepted[0].syntax_score).toBe(0);
+  });
+
+  it('still requires a syntax score for a generated query', () => {
+    const report = validateTestCases([csvRow({ syntax_score: '' })]);
+    expect(report.rejectedRows).toBe(1);
+  });
+
+  it('drops invalid optional values and keeps out-of-range scores with a warning', () => {
+    const report = validateTestCases([csvRow({ bleu_score: 'n/a', rouge_score: '1.5' })]);
+    expect(report.rejectedRows).toBe(0);
+    expect(report.accepted[0].bleu_score).toBeUndefined();
+    expect(report.accepted[0].rouge_score).toBe(1.5);
+    expect(report.issues.map(issue => [issue.field, issue.kind, issue.rejected])).toEqual([
+      ['bleu_score', 'unparseable', false],
+      ['rouge_score', 'out-of-range', false],
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { ImportIssue, ImportReport, SQLTestCase } from '@/types/validation';
+import { BOOLEAN_FIELDS, NUMERIC_FIELDS, UNBOUNDED_FIELDS } from '@/lib/fields';
+
+// Columns every upload must contain (see "Required Fields" in the README)
+export const REQUIRED_FIELDS: (keyof SQLTestCase)[] = [
+  'id',
+  'user_prompt',
+  'expected_sql',
+  'generated_sql',
+  'syntax_score',
+  'semantic_score',
+  'codebert_match',
+  'flane5_match',
+  'true_label',
+];
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const blankToUndefined = (value: unknown) => (isBlank(value) ? undefined : value);
+
+const toNumber = (value: unknown) =>
+  typeof value === 'string' ? Number(value.trim()) : value;
+
+const toBoolean = (value: unknown) => {
+  if (typeof value === 'number' && (value === 0 || value === 1)) return value === 1;
+  if (typeof value !== 'string') return value;
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes'].includes(normalized)) return true;
+  if (['false', '0', 'no'].includes(normalized)) return false;
+  return value;
+};
+
+// Accepts a JSON array, "a;b" or a Python-style "['a', 'b']" list
+const toTokenList = (value: unknown) => {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== 'string') return value;
+  return value
+    .replace(/^\s*\[|\]\s*$/g, '')
+    .split(/[;,]/)
+    .map(token => token.trim().replace(/^['"]|['"]$/g, ''))
+    .filter(Boolean);
+};
+
+const MISSING = 'Missing value';
+
+const numberField = (isRequired: boolean) => {
+  const value = z.number({ required_error: MISSING, invalid_type_error: 'Not a number' });
+  return z.preprocess(v => toNumber(blankToUndefined(v)), isRequired ? value : value.optional());
+};
+
+const booleanField = (isRequired: boolean) => {
+  const value = z.boolean({ required_error: MISSING, invalid_type_error: 'Not a boolean (true/false/1/0)' });
+  return z.preprocess(v => toBoolean(blankToUndefined(v)), isRequired ? value : value.optional());
+};
+
+const requiredText = z.preprocess(v => (isBlank(v) ? undefined : String(v)), z.string({ required_error: MISSING }));
+const optionalText = z.preprocess(v => (v === undefined || v === null ? '' : String(v)), z.string());
+const optionalTag = z.preprocess(v => (isBlank(v) ? undefined : String(v)), z.string().optional());
+
+const fieldSchemas: Partial<Record<keyof SQLTestCase, z.ZodTypeAny>> = {
+  id: requiredText,
+  user_prompt: requiredText,
+  expected_sql: requiredText,
+  // A blank generated_sql is a valid (failed) generation, not a missing value
+  generated_sql: optionalText,
+  true_label: optionalText,
+  run_id: optionalTag,
+  model_label: optionalTag,
+  unknown_tokens: z.preprocess(v => toTokenList(blankToUndefined(v)), z.array(z.string()).optional()),
+};
+NUMERIC_FIELDS.forEach(field => {
+  fieldSchemas[field] = numberField(REQUIRED_FIELDS.includes(field));
+});
+BOOLEAN_FIELDS.forEach(field => {
+  fieldSchemas[field] = booleanField(REQUIRED_FIELDS.includes(field));
+});
+
+export const testCaseSchema = z.object(fieldSchemas as Record<keyof SQLTestCase, z.ZodTypeAny>);
+
+const SCHEMA_FIELDS = Object.keys(fieldSchemas) as (keyof SQLTestCase)[];
+const RANGE_CHECKED_FIELDS: (keyof SQLTestCase)[] = NUMERIC_FIELDS.filter(field => !UNBOUNDED_FIELDS.includes(field));
+
+const formatValue = (value: unknown): string | undefined =>
+  value === undefined || value === null ? undefined : String(value).slice(0, 80);
+
+// Validate raw parsed rows field by field so one bad cell does not hide the others.
+// Invalid required values reject the row; invalid optional values are dropped and
+// out-of-range scores are kept but reported.
+export const validateTestCases = (rows: unknown[], fileName?: string): ImportReport => {
+  const records = rows.map(row => (row && typeof row === 'object' ? row as Record<string, unknown> : {}));
+  const presentColumns = new Set(records.flatMap(record => Object.keys(record)));
+  const missingColumns = REQUIRED_FIELDS.filter(field => !presentColumns.has(field));
+
+  const issues: ImportIssue[] = [];
+  const accepted: SQLTestCase[] = [];
+  let rejectedRows = 0;
+
+  records.forEach((record, index) => {
+    const row = index + 1;
+    const id = isBlank(record.id) ? undefined : String(record.id);
+    const parsed: Record<string, unknown> = { ...record };
+    let rejected = missingColumns.length > 0;
+
+    SCHEMA_FIELDS.forEach(field => {
+      // Missing columns are reported once at file level, not per row
+      if (missingColumns.includes(field)) return;
+      // A failed generation has no syntax to score; normalization zeroes it anyway
+      if (field === 'syntax_score' && isBlank(record.generated_sql) && isBlank(record.syntax_score)) {
+        parsed.syntax_score = 0;
+        return;
+      }
+      const result = fieldSchemas[field].safeParse(record[field]);
+      const isRequired = REQUIRED_FIELDS.includes(field);
+
+      if (!result.success) {
+        const issue = result.error.issues[0];
+        const kind = issue.code === 'invalid_type' && issue.received === 'undefined' ? 'missing-value' : 'unparseable';
+        issues.push({ row, id, field, kind, value: formatValue(record[field]), message: issue.message, rejected: isRequired });
+        if (isRequired) rejected = true;
+        delete parsed[field];
+        return;
+      }
+
+      const value = result.data;
+      if (value === undefined) delete parsed[field];
+      else parsed[field] = value;
+      if (RANGE_CHECKED_FIELDS.includes(field) && (value < 0 || value > 1)) {
+        issues.push({ row, id, field, kind: 'out-of-range', value: String(value), message: 'Outside the 0-1 range', rejected: false });
+      }
+    });
+
+    if (rejected) rejectedRows++;
+    else accepted.push(parsed as unknown as SQLTestCase);
+  });
+
+  return { fileName, totalRows: records.length, accepted, rejectedRows, missingColumns, issues };
+};
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ScoringProfile } from '@/types/validation';
+import { DEFAULT_SCORING_PROFILE } from './scoring';
+import { loadScoringProfiles, parseScoringProfiles, saveScoringProfiles, serializeScoringProfiles } from './scoring-profiles';
+import { installMemoryStorage } from '@/test/storage';
+
+const profile = (overrides: Partial<ScoringProfile> = {}): ScoringProfile => ({
+  ...DEFAULT_SCORING_PROFILE,
+  id: 'strict',
+  name: 'Strict',
+  passThreshold: 0.9,
+  ...overrides,
+});
+
+describe('parseScoringProfiles', () => {
+  it('accepts a single profile or an array', () => {
+    expect(parseScoringProfiles(JSON.stringify(profile()))).toHaveLength(1);
+    expect(parseScoringProfiles(serializeScoringProfiles([profile(), profile({ id: 'b' })]))).toHaveLength(2);
+  });
+
+  it('reports the first invalid field', () => {
+    expect(() => parseScoringProfiles(JSON.stringify(profile({ passThreshold: 2 })))).toThrow(/passThreshold/);
+    expect(() => parseScoringProfiles(JSON.stringify(profile({ name: '  ' })))).toThrow(/name/);
+  });
+});
+
+describe('stored profiles', () => {
+  let restore: () => void;
+  beforeEach(() => {
+    restore = installMemoryStorage();
+  });
+  afterEach(() => restore());
+
+  it('round-trips saved profiles after the built-in default', () => {
+    saveScoringProfiles([DEFAULT_SCORING_PROFILE, profile()]);
+    expect(loadScoringProfiles().map(p => p.id)).toEqual(['default', 'strict']);
+  });
+
+  it('does not save profiles with an empty name', () => {
+    saveScoringProfiles([profile(), profile({ id: 'blank', name: '' })]);
+    expect(loadScoringProfiles().map(p => p.id)).toEqual(['default', 'strict']);
+  });
+
+  it('drops only the invalid entry of a corrupted store', () => {
+    localStorage.setItem('sql-validation:scoring-profiles', JSON.stringify([profile(), { ...profile({ id: 'bad' }), name: '' }]));
+    expect(loadScoringProfiles().map(p => p.id)).toEqual(['default', 'strict']);
+  });
+
+  it('falls back to the default profile on unreadable JSON', () => {
+    localStorage.setItem('sql-validation:scoring-profiles', '{');
+    expect(loadScoringProfiles()).toEqual([DEFAULT_SCORING_PROFILE]);
+  });
+});
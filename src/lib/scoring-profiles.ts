@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { ScoringProfile } from '@/types/validation';
+import { DEFAULT_SCORING_PROFILE } from '@/lib/scoring';
+
+const STORAGE_KEY = 'sql-validation:scoring-profiles';
+const ACTIVE_KEY = 'sql-validation:active-scoring-profile';
+
+const weight = z.number().min(0).max(1);
+
+const scoringProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  models: z.array(z.enum(['codebert', 'flane5'])).min(1),
+  aggregation: z.enum(['max', 'mean']),
+  intentWeight: weight,
+  sqlsimWeight: weight,
+  passThreshold: weight,
+  reviewThreshold: weight,
+  requireNonZeroOverlap: z.boolean(),
+  confidenceWeights: z.object({
+    intent: weight,
+    sqlsim: weight,
+    vocab: weight,
+    syntax: weight,
+    f1: weight,
+  }),
+});
+
+export const createProfileId = () =>
+  `profile_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Parse an exported profile file. Accepts a single profile or an array and
+// throws with a readable message when the shape does not match.
+export const parseScoringProfiles = (json: string): ScoringProfile[] => {
+  const raw = JSON.parse(json);
+  const result = z.array(scoringProfileSchema).safeParse(Array.isArray(raw) ? raw : [raw]);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid scoring profile at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+  return result.data as ScoringProfile[];
+};
+
+export const serializeScoringProfiles = (profiles: ScoringProfile[]): string =>
+  JSON.stringify(profiles, null, 2);
+
+// Stored profiles are validated one at a time, so a single bad entry is dropped instead of
+// discarding every saved profile
+export const loadScoringProfiles = (): ScoringProfile[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const raw: unknown = stored ? JSON.parse(stored) : [];
+    const profiles = (Array.isArray(raw) ? raw : [raw]).flatMap(entry => {
+      const result = scoringProfileSchema.safeParse(entry);
+      return result.success ? [result.data as ScoringProfile] : [];
+    });
+    return [DEFAULT_SCORING_PROFILE, ...profiles.filter(p => p.id !== DEFAULT_SCORING_PROFILE.id)];
+  } catch {
+    return [DEFAULT_SCORING_PROFILE];
+  }
+};
+
+// The built-in default profile is never written; it always comes from code. Profiles
+// without a name are skipped too.
+export const saveScoringProfiles = (profiles: ScoringProfile[]) => {
+  localStorage.setItem(
+    STORAGE_KEY,
+    serializeScoringProfiles(profiles.filter(p => p.id !== DEFAULT_SCORING_PROFILE.id && p.name.trim() !== ''))
+  );
+};
+
+export const loadActiveProfileId = (): string =>
+  localStorage.getItem(ACTIVE_KEY) || DEFAULT_SCORING_PROFILE.id;
+
+export const saveActiveProfileId = (id: string) => {
+  localStorage.setItem(ACTIVE_KEY, id);
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { ScoringProfile } from '@/types/validation';
+import { makeTestCase } from '@/test/factories';
+import {
+  DEFAULT_SCORING_PROFILE,
+  buildPassFailMatrix,
+  getConfidenceScore,
+  getPassRate,
+  getScoreGrade,
+  getSemanticScore,
+  isPassing,
+  scoreTestCase,
+  summarizeResults
+} from './scoring';
+
+describe('getSemanticScore', () => {
+  it('takes the best weighted model score by default', () => {
+    expect(getSemanticScore(makeTestCase())).toBeCloseTo(0.9);
+  });
+
+  it('averages models with mean aggregation', () => {
+    const profile: ScoringProfile = { ...DEFAULT_SCORING_PROFILE, aggregation: 'mean' };
+    expect(getSemanticScore(makeTestCase(), profile)).toBeCloseTo(0.8);
+  });
+
+  it('only uses the models in the profile', () => {
+    const profile: ScoringProfile = { ...DEFAULT_SCORING_PROFILE, models: ['codebert'] };
+    expect(getSemanticScore(makeTestCase(), profile)).toBeCloseTo(0.7);
+  });
+
+  it('is undefined when no model has both scores', () => {
+    expect(getSemanticScore(makeTestCase({ codebert_sqlsim_score: undefined, flane5_intent_score: undefined }))).toBeUndefined();
+  });
+});
+
+describe('scoreTestCase', () => {
+  it('passes above the threshold', () => {
+    const score = scoreTestCase(makeTestCase());
+    expect(score.passed).toBe(true);
+    expect(score.flane5Pass).toBe(true);
+    expect(score.codebertPass).toBe(false);
+  });
+
+  it('fails when precision, recall and F1 are all zero', () => {
+    const testCase = makeTestCase({ precision: 0, recall: 0, f1_score: 0 });
+    expect(scoreTestCase(testCase).passed).toBe(false);
+    expect(isPassing(testCase)).toBe(false);
+    expect(isPassing(testCase, { ...DEFAULT_SCORING_PROFILE, requireNonZeroOverlap: false })).toBe(true);
+  });
+
+  it('agrees with isPassing', () => {
+    const cases = [makeTestCase(), makeTestCase({ flane5_sqlsim_score: 0.1 }), makeTestCase({ flane5_intent_score: undefined })];
+    cases.forEach(testCase => expect(isPassing(testCase)).toBe(scoreTestCase(testCase).passed));
+  });
+});
+
+describe('getConfidenceScore', () => {
+  it('weights every signal and treats missing ones as 0', () => {
+    const confidence = getConfidenceScore(makeTestCase({ vocab_unknown_count: 1, vocab_unknown_ratio: 0.5, f1_score: 1 }));
+    expect(confidence).toBeCloseTo(0.25 * 0.9 + 0.25 * 0.9 + 0.2 * 0.5 + 0.15 * 1 + 0.15 * 1);
+    expect(getConfidenceScore(makeTestCase({ syntax_score: undefined }))).toBeCloseTo(0.25 * 0.9 + 0.25 * 0.9);
+  });
+});
+
+describe('summaries', () => {
+  const data = [makeTestCase(), makeTestCase({ id: '2', flane5_sqlsim_score: 0.1, codebert_intent_score: 0.1 })];
+
+  it('computes pass rates and grades', () => {
+    expect(getPassRate(data)).toBe(50);
+    expect(getPassRate([])).toBe(0);
+    expect(summarizeResults(data).passRate).toBe(50);
+    expect(getScoreGrade(0.95)).toBe('Excellent');
+    expect(getScoreGrade(0.4)).toBe('Poor');
+  });
+
+  it('builds the pass/fail matrix', () => {
+    expect(buildPassFailMatrix(data).matrix).toEqual([[1, 0], [0, 1]]);
+  });
+});
@@ -0,0 +1,212 @@
+import {
+  SQLTestCase,
+  TestCaseScore,
+  ScoreGrade,
+  ScoringModel,
+  ScoringProfile,
+  ValidationSummary,
+  ConfusionMatrixData
+} from '@/types/validation';
+
+// Shared scoring rules. Every component that reports a semantic score, a
+// pass/fail verdict or a confidence value must go through this module so the
+// banner, table, summary, modal and exports agree for the same file.
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  id: 'default',
+  name: 'Default',
+  models: ['codebert', 'flane5'],
+  aggregation: 'max',
+  intentWeight: 0.5,
+  sqlsimWeight: 0.5,
+  passThreshold: 0.7,
+  // Confidence below this value flags a test case for manual review
+  reviewThreshold: 0.6,
+  requireNonZeroOverlap: true,
+  confidenceWeights: {
+    intent: 0.25,
+    sqlsim: 0.25,
+    vocab: 0.20,
+    syntax: 0.15,
+    f1: 0.15,
+  },
+};
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && !Number.isNaN(value);
+
+const aggregate = (values: (number | undefined)[], aggregation: ScoringProfile['aggregation']): number | undefined => {
+  const present = values.filter(isNumber);
+  if (present.length === 0) return undefined;
+  return aggregation === 'max'
+    ? Math.max(...present)
+    : present.reduce((sum, v) => sum + v, 0) / present.length;
+};
+
+const getModelScore = (intent: number | undefined, sqlsim: number | undefined, profile: ScoringProfile): number | undefined => {
+  if (!isNumber(intent) || !isNumber(sqlsim)) return undefined;
+  const totalWeight = profile.intentWeight + profile.sqlsimWeight;
+  if (totalWeight <= 0) return undefined;
+  return (intent * profile.intentWeight + sqlsim * profile.sqlsimWeight) / totalWeight;
+};
+
+const getModelScores = (testCase: SQLTestCase, profile: ScoringProfile): Record<ScoringModel, number | undefined> => ({
+  codebert: getModelScore(testCase.codebert_intent_score, testCase.codebert_sqlsim_score, profile),
+  flane5: getModelScore(testCase.flane5_intent_score, testCase.flane5_sqlsim_score, profile),
+});
+
+// Precision, recall and F1 all reported as exactly 0 means the generated
+// query produced nothing comparable, regardless of the embedding scores.
+const hasAllZeroOverlap = (testCase: SQLTestCase): boolean =>
+  testCase.precision === 0 && testCase.recall === 0 && testCase.f1_score === 0;
+
+export const getSemanticScore = (
+  testCase: SQLTestCase,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): number | undefined => {
+  const modelScores = getModelScores(testCase, profile);
+  return aggregate(profile.models.map(model => modelScores[model]), profile.aggregation);
+};
+
+export const getConfidenceScore = (
+  testCase: SQLTestCase,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): number => {
+  const intents = { codebert: testCase.codebert_intent_score, flane5: testCase.flane5_intent_score };
+  const sims = { codebert: testCase.codebert_sqlsim_score, flane5: testCase.flane5_sqlsim_score };
+  const bestIntent = aggregate(profile.models.map(model => intents[model]), profile.aggregation) ?? 0;
+  const bestSim = aggregate(profile.models.map(model => sims[model]), profile.aggregation) ?? 0;
+  const vocabScore = isNumber(testCase.vocab_unknown_count) && isNumber(testCase.vocab_unknown_ratio)
+    ? Math.max(0, 1 - testCase.vocab_unknown_ratio)
+    : 0;
+  const syntaxScore = isNumber(testCase.syntax_score) ? testCase.syntax_score : 0;
+  const f1Score = isNumber(testCase.f1_score) ? testCase.f1_score : 0;
+  const weights = profile.confidenceWeights;
+
+  return (
+    weights.intent * bestIntent +
+    weights.sqlsim * bestSim +
+    weights.vocab * vocabScore +
+    weights.syntax * syntaxScore +
+    weights.f1 * f1Score
+  );
+};
+
+export const scoreTestCase = (
+  testCase: SQLTestCase,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): TestCaseScore => {
+  const modelScores = getModelScores(testCase, profile);
+  const semantic = aggregate(profile.models.map(model => modelScores[model]), profile.aggregation);
+  const semanticScore = semantic ?? 0;
+  const modelPasses = (model: ScoringModel) => {
+    const score = modelScores[model];
+    return profile.models.includes(model) && isNumber(score) && score > profile.passThreshold;
+  };
+
+  return {
+    codebertScore: modelScores.codebert,
+    flane5Score: modelScores.flane5,
+    semanticScore,
+    hasSemanticScore: semantic !== undefined,
+    codebertPass: modelPasses('codebert'),
+    flane5Pass: modelPasses('flane5'),
+    passed: !(profile.requireNonZeroOverlap && hasAllZeroOverlap(testCase)) && semanticScore > profile.passThreshold,
+    confidence: getConfidenceScore(testCase, profile),
+  };
+};
+
+// Same verdict as scoreTestCase(...).passed without the confidence math, since
+// filters call this for every row
+export const isPassing = (
+  testCase: SQLTestCase,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): boolean =>
+  !(profile.requireNonZeroOverlap && hasAllZeroOverlap(testCase)) &&
+  (getSemanticScore(testCase, profile) ?? 0) > profile.passThreshold;
+
+export const getScoreGrade = (score: number): ScoreGrade => {
+  if (score >= 0.9) return 'Excellent';
+  if (score >= 0.7) return 'Good';
+  if (score >= 0.5) return 'Fair';
+  return 'Poor';
+};
+
+export const getPassRate = (
+  data: SQLTestCase[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): number =>
+  data.length === 0 ? 0 : (data.filter(d => isPassing(d, profile)).length / data.length) * 100;
+
+export const summarizeResults = (
+  data: SQLTestCase[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): ValidationSummary => {
+  if (data.length === 0) {
+    return {
+      totalTests: 0,
+      passRate: 0,
+      averageSemanticScore: 0,
+      averageSyntaxScore: 0,
+      codebertPassRate: 0,
+      flane5PassRate: 0,
+      commonErrors: [],
+      topUnknownTokens: []
+    };
+  }
+
+  const totalTests = data.length;
+  const scores = data.map(d => scoreTestCase(d, profile));
+
+  // Collect unknown tokens
+  const unknownTokenCounts = data
+    .flatMap(d => d.unknown_tokens || [])
+    .reduce((acc, token) => {
+      acc[token] = (acc[token] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+
+  const topUnknownTokens = Object.entries(unknownTokenCounts)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 5)
+    .map(([token]) => token);
+
+  return {
+    totalTests,
+    passRate: (scores.filter(s => s.passed).length / totalTests) * 100,
+    averageSemanticScore: scores.reduce((sum, s) => sum + s.semanticScore, 0) / totalTests,
+    averageSyntaxScore: data.reduce((sum, d) => sum + (d.syntax_score || 0), 0) / totalTests,
+    codebertPassRate: (scores.filter(s => s.codebertPass).length / totalTests) * 100,
+    flane5PassRate: (scores.filter(s => s.flane5Pass).length / totalTests) * 100,
+    commonErrors: [],
+    topUnknownTokens
+  };
+};
+
+export const buildPassFailMatrix = (
+  data: SQLTestCase[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): ConfusionMatrixData => {
+  const matrix = [
+    [0, 0], // Actual Pass vs Predicted Pass/Fail
+    [0, 0]  // Actual Fail vs Predicted Pass/Fail
+  ];
+
+  data.forEach(testCase => {
+    const score = scoreTestCase(testCase, profile);
+    // Prediction uses the semantic threshold alone; the actual verdict also
+    // applies the overlap check, so the off-diagonal shows where they diverge.
+    const actualPass = score.passed;
+    const predictedPass = score.semanticScore > profile.passThreshold;
+    if (actualPass && predictedPass) matrix[0][0]++; // True Positive
+    else if (actualPass && !predictedPass) matrix[0][1]++; // False Negative
+    else if (!actualPass && predictedPass) matrix[1][0]++; // False Positive
+    else matrix[1][1]++; // True Negative
+  });
+
+  return {
+    matrix,
+    labels: ['Pass', 'Fail'],
+    title: 'Pass/Fail Classification'
+  };
+};
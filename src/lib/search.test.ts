@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { makeTestCase } from '@/test/factories';
+import { compileSearch, findMatchRanges, matchesSearch } from './search';
+
+const row = makeTestCase({
+  user_prompt: 'Total sales per region',
+  expected_sql: 'SELECT region, SUM(amount) FROM sales GROUP BY region',
+  generated_sql: 'SELECT region, amount FROM sales',
+  true_label: 'aggregation',
+  unknown_tokens: ['amount_usd'],
+});
+
+const matches = (query: string, mode: 'text' | 'regex' = 'text') => matchesSearch(row, compileSearch(query, mode));
+
+describe('compileSearch and matchesSearch', () => {
+  it('requires every term, case-insensitively, in any searchable field', () => {
+    expect(matches('SALES aggregation')).toBe(true);
+    expect(matches('sales orders')).toBe(false);
+  });
+
+  it('limits scoped terms to their fields', () => {
+    expect(matches('exp:"GROUP BY"')).toBe(true);
+    expect(matches('gen:"GROUP BY"')).toBe(false);
+    expect(matches('tokens:amount_usd label:agg')).toBe(true);
+  });
+
+  it('excludes rows matching a negated term', () => {
+    expect(matches('-gen:"GROUP BY"')).toBe(true);
+    expect(matches('-region')).toBe(false);
+  });
+
+  it('searches an unknown scope as plain text', () => {
+    expect(matches('schema:sales')).toBe(false);
+    expect(matches('region,')).toBe(true);
+  });
+
+  it('treats regex characters literally in text mode', () => {
+    expect(matches('SUM(amount)')).toBe(true);
+    expect(matches('S.M')).toBe(false);
+    expect(matches('S.M', 'regex')).toBe(true);
+  });
+
+  it('reports an invalid regex and leaves that term out', () => {
+    const search = compileSearch('region (', 'regex');
+    expect(search.error).toMatch(/^Invalid regular expression "\("/);
+    expect(search.terms).toHaveLength(1);
+  });
+});
+
+describe('findMatchRanges', () => {
+  it('merges overlapping matches of the terms that apply to the field', () => {
+    const search = compileSearch('reg region exp:sales');
+    expect(findMatchRanges('region and regions', search, 'generated_sql')).toEqual([[0, 6], [11, 17]]);
+    expect(findMatchRanges('sales', search, 'generated_sql')).toEqual([]);
+    expect(findMatchRanges('sales', search, 'expected_sql')).toEqual([[0, 5]]);
+  });
+
+  it('skips negated terms', () => {
+    expect(findMatchRanges('region', compileSearch('-region'), 'generated_sql')).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+import { SQLTestCase } from '@/types/validation';
+
+export type SearchMode = 'text' | 'regex';
+
+// Prefixes for field-scoped terms, e.g. `gen:"GROUP BY" label:aggregation`
+export const SEARCH_SCOPES: Record<string, (keyof SQLTestCase)[]> = {
+  id: ['id'],
+  prompt: ['user_prompt'],
+  exp: ['expected_sql'],
+  expected: ['expected_sql'],
+  gen: ['generated_sql'],
+  generated: ['generated_sql'],
+  sql: ['expected_sql', 'generated_sql'],
+  label: ['true_label'],
+  tokens: ['unknown_tokens'],
+  run: ['run_id'],
+};
+
+// Fields an unscoped term is matched against
+export const SEARCHABLE_FIELDS: (keyof SQLTestCase)[] = [
+  'id',
+  'user_prompt',
+  'true_label',
+  'expected_sql',
+  'generated_sql',
+  'unknown_tokens',
+  'run_id',
+];
+
+export interface SearchTerm {
+  fields: (keyof SQLTestCase)[];
+  // Case-insensitive and non-global, so test() keeps no state between rows
+  pattern: RegExp;
+  // Written with a leading "-": rows must not match
+  negated: boolean;
+}
+
+export interface CompiledSearch {
+  terms: SearchTerm[];
+  // Set when a regex term does not compile; that term is left out
+  error?: string;
+}
+
+// Optional "-", optional "scope:", then a quoted phrase or a bare word
+const TERM_PATTERN = /(-?)(?:([a-z]+):)?("(?:[^"\\]|\\.)*"?|\S+)/gi;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const unquote = (value: string) =>
+  value.startsWith('"') ? value.slice(1, value.endsWith('"') && value.length > 1 ? -1 : undefined).replace(/\\"/g, '"') : value;
+
+const parseSearch = (query: string, mode: SearchMode): CompiledSearch => {
+  const terms: SearchTerm[] = [];
+  let error: string | undefined;
+
+  for (const match of query.matchAll(TERM_PATTERN)) {
+    const [raw, dash, scope, rawValue] = match;
+    const fields = scope ? SEARCH_SCOPES[scope.toLowerCase()] : SEARCHABLE_FIELDS;
+    // An unknown prefix such as "schema:orders" is searched as plain text
+    const value = fields ? unquote(rawValue) : unquote(raw.slice(dash.length));
+    if (!value) continue;
+    try {
+      terms.push({
+        fields: fields ?? SEARCHABLE_FIELDS,
+        pattern: new RegExp(mode === 'regex' ? value : escapeRegExp(value), 'i'),
+        negated: dash === '-',
+      });
+    } catch (e) {
+      error = `Invalid regular expression "${value}": ${e instanceof Error ? e.message : 'syntax error'}`;
+    }
+  }
+  return { terms, error };
+};
+
+// Filters call this for every row, so the last compiled query is reused
+let cached: { key: string; search: CompiledSearch } | undefined;
+
+export const compileSearch = (query: string, mode: SearchMode = 'text'): CompiledSearch => {
+  const key = `${mode}\u0000${query}`;
+  if (cached?.key !== key) cached = { key, search: parseSearch(query.trim(), mode) };
+  return cached.search;
+};
+
+export const getSearchableText = (row: SQLTestCase, field: keyof SQLTestCase): string => {
+  const value = row[field];
+  if (Array.isArray(value)) return value.join('; ');
+  return value === undefined || value === null ? '' : String(value);
+};
+
+// Every term must hold: a plain term matches in any of its fields, a negated one in none
+export const matchesSearch = (row: SQLTestCase, search: CompiledSearch): boolean =>
+  search.terms.every(term => {
+    const hit = term.fields.some(field => term.pattern.test(getSearchableText(row, field)));
+    return term.negated ? !hit : hit;
+  });
+
+// Sorted, non-overlapping [start, end) ranges of text matched by terms that apply to the field
+export const findMatchRanges = (
+  text: string,
+  search: CompiledSearch,
+  field: keyof SQLTestCase
+): [number, number][] => {
+  const ranges: [number, number][] = [];
+  search.terms
+    .filter(term => !term.negated && term.fields.includes(field))
+    .forEach(term => {
+      const pattern = new RegExp(term.pattern.source, 'gi');
+      for (const match of text.matchAll(pattern)) {
+        if (match[0].length > 0) ranges.push([match.index, match.index + match[0].length]);
+      }
+    });
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<[number, number][]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([range[0], range[1]]);
+    return merged;
+  }, []);
+};
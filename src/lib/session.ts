@@ -0,0 +1,44 @@
+import { SessionSnapshot, SQLTestCase } from '@/types/validation';
+import { getItem, putItem, deleteItem, STORES } from '@/lib/db';
+import { getDataset, loadDatasetRows } from '@/lib/datasets';
+import { getRun, loadRunRows } from '@/lib/runs';
+
+// Only the last session is kept, so a single fixed key is enough
+const SESSION_KEY = 'last';
+
+export interface RestoredSession {
+  name: string;
+  rows: SQLTestCase[];
+  baselineRows: SQLTestCase[] | null;
+}
+
+export const loadSession = (): Promise<SessionSnapshot | undefined> =>
+  getItem<SessionSnapshot>(STORES.session, SESSION_KEY);
+
+export const saveSession = (snapshot: SessionSnapshot): Promise<void> =>
+  putItem(STORES.session, snapshot, SESSION_KEY);
+
+export const clearSession = (): Promise<void> =>
+  deleteItem(STORES.session, SESSION_KEY);
+
+// Name of the dataset or run a snapshot points at, or undefined if it was deleted since
+export const getSessionSourceName = async (snapshot: SessionSnapshot): Promise<string | undefined> => {
+  const source = snapshot.source.kind === 'run'
+    ? await getRun(snapshot.source.id)
+    : await getDataset(snapshot.source.id);
+  return source?.name;
+};
+
+export const restoreSession = async (snapshot: SessionSnapshot): Promise<RestoredSession | undefined> => {
+  const name = await getSessionSourceName(snapshot);
+  if (name === undefined) return undefined;
+
+  const rows = snapshot.source.kind === 'run'
+    ? await loadRunRows(snapshot.source.id)
+    : await loadDatasetRows(snapshot.source.id);
+  const baselineRows = snapshot.baselineDatasetId && await getDataset(snapshot.baselineDatasetId)
+    ? await loadDatasetRows(snapshot.baselineDatasetId)
+    : null;
+
+  return { name, rows, baselineRows };
+};
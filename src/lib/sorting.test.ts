@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { SortState } from '@/types/validation';
+import { makeTestCase } from '@/test/factories';
+import { DEFAULT_SCORING_PROFILE } from './scoring';
+import { DEFAULT_SORT_STATE, normalizeSortState, sortTestCases, toggleSortColumn } from './sorting';
+
+const context = { profile: DEFAULT_SCORING_PROFILE };
+const ids = (rows: { id: string }[]) => rows.map(row => row.id);
+
+describe('sortTestCases', () => {
+  const rows = [
+    makeTestCase({ id: 'a', true_label: 'join', bleu_score: 0.5 }),
+    makeTestCase({ id: 'b', true_label: 'agg' }),
+    makeTestCase({ id: 'c', true_label: 'join', bleu_score: 0.2 }),
+  ];
+
+  it('breaks ties with later keys and returns a copy', () => {
+    const sortState: SortState = {
+      keys: [{ column: 'true_label', direction: 'desc' }, { column: 'bleu_score', direction: 'asc' }],
+      nulls: 'last',
+    };
+    expect(ids(sortTestCases(rows, sortState, context))).toEqual(['c', 'a', 'b']);
+    expect(ids(rows)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('places missing values by the nulls setting in either direction', () => {
+    const keys: SortState['keys'] = [{ column: 'bleu_score', direction: 'desc' }];
+    expect(ids(sortTestCases(rows, { keys, nulls: 'last' }, context))).toEqual(['a', 'c', 'b']);
+    expect(ids(sortTestCases(rows, { keys, nulls: 'first' }, context))).toEqual(['b', 'a', 'c']);
+  });
+
+  it('sorts by the delta against the baseline, matched on id within each run', () => {
+    const baseline = [makeTestCase({ id: '1' }), makeTestCase({ id: '2', flane5_intent_score: 0.5 })];
+    const candidate = [
+      makeTestCase({ id: '1', run_id: 'x', flane5_intent_score: 0.5 }),
+      makeTestCase({ id: '2', run_id: 'x' }),
+      makeTestCase({ id: '1', run_id: 'y' }),
+      makeTestCase({ id: '3', run_id: 'y' }),
+    ];
+    const sortState: SortState = { keys: [{ column: 'baseline_delta', direction: 'asc' }], nulls: 'last' };
+    const sorted = sortTestCases(candidate, sortState, { ...context, baseline });
+    expect(sorted.map(row => `${row.run_id}/${row.id}`)).toEqual(['x/1', 'y/1', 'x/2', 'y/3']);
+  });
+
+  it('gives no delta to ids the baseline repeats', () => {
+    const baseline = [makeTestCase({ id: '1' }), makeTestCase({ id: '1', flane5_intent_score: 0.1 }), makeTestCase({ id: '2' })];
+    const candidate = [makeTestCase({ id: '1' }), makeTestCase({ id: '2', flane5_intent_score: 0.5 })];
+    const sortState: SortState = { keys: [{ column: 'baseline_delta', direction: 'desc' }], nulls: 'last' };
+    expect(ids(sortTestCases(candidate, sortState, { ...context, baseline }))).toEqual(['2', '1']);
+  });
+});
+
+describe('toggleSortColumn', () => {
+  it('toggles the direction of a single-column sort', () => {
+    const sorted = toggleSortColumn(DEFAULT_SORT_STATE, 'id', false);
+    expect(sorted.keys).toEqual([{ column: 'id', direction: 'desc' }]);
+    expect(toggleSortColumn(sorted, 'id', false).keys).toEqual([{ column: 'id', direction: 'asc' }]);
+  });
+
+  it('cycles an additional key through asc, desc and removed', () => {
+    const added = toggleSortColumn(DEFAULT_SORT_STATE, 'bleu_score', true);
+    expect(added.keys).toEqual([{ column: 'id', direction: 'asc' }, { column: 'bleu_score', direction: 'asc' }]);
+    const flipped = toggleSortColumn(added, 'bleu_score', true);
+    expect(flipped.keys[1].direction).toBe('desc');
+    expect(toggleSortColumn(flipped, 'bleu_score', true).keys).toEqual(DEFAULT_SORT_STATE.keys);
+  });
+});
+
+describe('normalizeSortState', () => {
+  it('upgrades single-column sorts from older sessions', () => {
+    expect(normalizeSortState({ column: 'bleu_score', direction: 'desc' })).toEqual({
+      keys: [{ column: 'bleu_score', direction: 'desc' }],
+      nulls: 'last',
+    });
+    expect(normalizeSortState(undefined)).toEqual(DEFAULT_SORT_STATE);
+  });
+});
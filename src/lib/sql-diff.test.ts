@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { DiffOptions, diffSqlLines, diffSqlTokens, tokenizeSql } from './sql-diff';
+
+const strict: DiffOptions = { ignoreWhitespace: false, ignoreKeywordCase: false };
+const lenient: DiffOptions = { ignoreWhitespace: true, ignoreKeywordCase: true };
+
+describe('tokenizeSql', () => {
+  it('keeps literals, comments and multi-character operators whole', () => {
+    expect(tokenizeSql("a <> 'it''s' -- note\n")).toEqual(['a', ' ', '<>', ' ', "'it''s'", ' ', '-- note', '\n']);
+  });
+});
+
+describe('diffSqlTokens', () => {
+  it('marks removed and added tokens', () => {
+    expect(diffSqlTokens('SELECT a FROM t', 'SELECT b FROM t', strict)).toEqual([
+      { op: 'equal', left: 'SELECT ', right: 'SELECT ' },
+      { op: 'delete', left: 'a' },
+      { op: 'insert', right: 'b' },
+      { op: 'equal', left: ' FROM t', right: ' FROM t' },
+    ]);
+  });
+
+  it('can ignore whitespace and keyword case but not identifier case', () => {
+    expect(diffSqlTokens('SELECT a\nFROM t', 'select  a from t', lenient).map(segment => segment.op)).toEqual(['equal']);
+    expect(diffSqlTokens('SELECT a FROM t', 'SELECT A FROM t', lenient).map(segment => segment.op))
+      .toEqual(['equal', 'delete', 'insert', 'equal']);
+  });
+
+  it('keeps the original text of segments that compare equal', () => {
+    const [segment] = diffSqlTokens('SELECT a', 'select a', lenient);
+    expect(segment).toEqual({ op: 'equal', left: 'SELECT a', right: 'select a' });
+  });
+});
+
+describe('diffSqlLines', () => {
+  it('aligns lines and pairs replaced lines as changes', () => {
+    const rows = diffSqlLines('SELECT a\nFROM t\nWHERE x = 1', 'SELECT a\nFROM u\nWHERE x = 1\nLIMIT 5', strict);
+    expect(rows.map(row => [row.op, row.left?.number, row.right?.number])).toEqual([
+      ['equal', 1, 1],
+      ['change', 2, 2],
+      ['equal', 3, 3],
+      ['insert', undefined, 4],
+    ]);
+    expect(rows[1].left.segments).toEqual([
+      { op: 'equal', left: 'FROM ', right: 'FROM ' },
+      { op: 'delete', left: 't' },
+    ]);
+  });
+
+  it('reports unpaired removed lines as deletions', () => {
+    const rows = diffSqlLines('SELECT a\nFROM t\nWHERE x = 1', 'SELECT a\nWHERE x = 1', strict);
+    expect(rows.map(row => row.op)).toEqual(['equal', 'delete', 'equal']);
+  });
+});
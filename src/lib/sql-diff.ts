@@ -0,0 +1,216 @@
+// Line- and token-level diffs between the expected and generated SQL
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffOptions {
+  // Whitespace and line breaks never count as a difference
+  ignoreWhitespace: boolean;
+  // `select` and `SELECT` compare equal; identifiers and literals stay case-sensitive
+  ignoreKeywordCase: boolean;
+}
+
+// `left` is expected-side text, `right` generated-side text; equal segments carry both
+// because normalization can make different text compare equal
+export interface DiffSegment {
+  op: DiffOp;
+  left?: string;
+  right?: string;
+}
+
+export interface DiffLineSide {
+  number: number;
+  segments: DiffSegment[];
+}
+
+// One aligned line pair; 'change' rows have both sides with token-level segments
+export interface DiffRow {
+  op: DiffOp | 'change';
+  left?: DiffLineSide;
+  right?: DiffLineSide;
+}
+
+export const SQL_KEYWORDS = new Set([
+  'select', 'from', 'where', 'and', 'or', 'not', 'in', 'is', 'null', 'like', 'ilike', 'between', 'exists',
+  'join', 'inner', 'left', 'right', 'full', 'outer', 'cross', 'on', 'using', 'natural',
+  'group', 'by', 'order', 'having', 'limit', 'offset', 'fetch', 'first', 'next', 'rows', 'only', 'top',
+  'union', 'all', 'intersect', 'except', 'distinct', 'as', 'with', 'recursive',
+  'case', 'when', 'then', 'else', 'end', 'asc', 'desc', 'nulls', 'last',
+  'insert', 'into', 'values', 'update', 'set', 'delete', 'create', 'table', 'view', 'index', 'drop', 'alter',
+  'count', 'sum', 'avg', 'min', 'max', 'cast', 'coalesce', 'over', 'partition', 'filter', 'true', 'false',
+]);
+
+// Whitespace, comments, string/identifier literals, numbers, words, multi-char operators, then any single character
+const TOKEN_PATTERN = /\s+|--[^\n]*|\/\*[\s\S]*?\*\/|'(?:[^']|'')*'?|"(?:[^"]|"")*"?|`[^`]*`?|\d+(?:\.\d+)?|[A-Za-z_][\w$]*|<>|!=|<=|>=|\|\||::|[\s\S]/g;
+
+export const tokenizeSql = (sql: string): string[] => sql.match(TOKEN_PATTERN) ?? [];
+
+const isWhitespace = (token: string) => /^\s+$/.test(token);
+
+const normalizeToken = (token: string, options: DiffOptions): string =>
+  options.ignoreKeywordCase && SQL_KEYWORDS.has(token.toLowerCase()) ? token.toUpperCase() : token;
+
+// Past this many comparisons the queries are treated as wholly different instead
+const MAX_DIFF_CELLS = 4_000_000;
+
+// LCS over comparison keys, after trimming the common prefix and suffix
+const diffKeys = (a: string[], b: string[]): DiffOp[] => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+  const ops: DiffOp[] = Array(prefix).fill('equal');
+
+  if (n * m > MAX_DIFF_CELLS) {
+    ops.push(...Array(n).fill('delete'), ...Array(m).fill('insert'));
+  } else {
+    // lengths[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        ops.push('equal');
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+        ops.push('delete');
+        i++;
+      } else {
+        ops.push('insert');
+        j++;
+      }
+    }
+    while (i++ < n) ops.push('delete');
+    while (j++ < m) ops.push('insert');
+  }
+
+  ops.push(...Array(suffix).fill('equal'));
+  return ops;
+};
+
+// Tokens to diff; when whitespace is ignored it rides along with the token that follows it
+const toUnits = (sql: string, options: DiffOptions): { text: string; key: string }[] => {
+  const tokens = tokenizeSql(sql);
+  if (!options.ignoreWhitespace) return tokens.map(token => ({ text: token, key: normalizeToken(token, options) }));
+
+  const units: { text: string; key: string }[] = [];
+  let pending = '';
+  tokens.forEach(token => {
+    if (isWhitespace(token)) {
+      pending += token;
+    } else {
+      units.push({ text: pending + token, key: normalizeToken(token, options) });
+      pending = '';
+    }
+  });
+  if (pending) {
+    if (units.length > 0) units[units.length - 1].text += pending;
+    else units.push({ text: pending, key: '' });
+  }
+  return units;
+};
+
+// Adjacent segments with the same op are merged so the view renders fewer spans
+const pushSegment = (segments: DiffSegment[], segment: DiffSegment) => {
+  const last = segments[segments.length - 1];
+  if (last && last.op === segment.op) {
+    if (segment.left !== undefined) last.left = (last.left ?? '') + segment.left;
+    if (segment.right !== undefined) last.right = (last.right ?? '') + segment.right;
+  } else {
+    segments.push({ ...segment });
+  }
+};
+
+export const diffSqlTokens = (expected: string, generated: string, options: DiffOptions): DiffSegment[] => {
+  const left = toUnits(expected, options);
+  const right = toUnits(generated, options);
+  const ops = diffKeys(left.map(unit => unit.key), right.map(unit => unit.key));
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  ops.forEach(op => {
+    if (op === 'equal') pushSegment(segments, { op, left: left[i++].text, right: right[j++].text });
+    else if (op === 'delete') pushSegment(segments, { op, left: left[i++].text });
+    else pushSegment(segments, { op, right: right[j++].text });
+  });
+  return segments;
+};
+
+const lineKey = (line: string, options: DiffOptions): string =>
+  toUnits(line, options).map(unit => unit.key).join(options.ignoreWhitespace ? ' ' : '');
+
+const splitLines = (sql: string) => sql.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+
+// Lines are aligned first; a run of removed lines followed by added lines is paired up line by
+// line as changes, each with a token-level diff
+export const diffSqlLines = (expected: string, generated: string, options: DiffOptions): DiffRow[] => {
+  const leftLines = splitLines(expected);
+  const rightLines = splitLines(generated);
+  const ops = diffKeys(
+    leftLines.map(line => lineKey(line, options)),
+    rightLines.map(line => lineKey(line, options))
+  );
+
+  const rows: DiffRow[] = [];
+  let i = 0;
+  let j = 0;
+  let deleted: number[] = [];
+  let inserted: number[] = [];
+
+  const flush = () => {
+    const paired = Math.min(deleted.length, inserted.length);
+    for (let k = 0; k < Math.max(deleted.length, inserted.length); k++) {
+      const leftIndex = deleted[k];
+      const rightIndex = inserted[k];
+      if (k < paired) {
+        const segments = diffSqlTokens(leftLines[leftIndex], rightLines[rightIndex], options);
+        rows.push({
+          op: 'change',
+          left: { number: leftIndex + 1, segments: segments.filter(segment => segment.op !== 'insert') },
+          right: { number: rightIndex + 1, segments: segments.filter(segment => segment.op !== 'delete') },
+        });
+      } else if (leftIndex !== undefined) {
+        rows.push({ op: 'delete', left: { number: leftIndex + 1, segments: [{ op: 'delete', left: leftLines[leftIndex] }] } });
+      } else {
+        rows.push({ op: 'insert', right: { number: rightIndex + 1, segments: [{ op: 'insert', right: rightLines[rightIndex] }] } });
+      }
+    }
+    deleted = [];
+    inserted = [];
+  };
+
+  ops.forEach(op => {
+    if (op === 'delete') {
+      deleted.push(i++);
+    } else if (op === 'insert') {
+      inserted.push(j++);
+    } else {
+      flush();
+      rows.push({
+        op: 'equal',
+        left: { number: i + 1, segments: [{ op: 'equal', left: leftLines[i], right: rightLines[j] }] },
+        right: { number: j + 1, segments: [{ op: 'equal', left: leftLines[i], right: rightLines[j] }] },
+      });
+      i++;
+      j++;
+    }
+  });
+  flush();
+  return rows;
+};
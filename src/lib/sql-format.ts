@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { DialectOptions, bigquery, formatDialect, mysql, postgresql, sqlite } from 'sql-formatter';
+import { SqlDialect, SqlFormatSettings } from '@/types/validation';
+
+const STORAGE_KEY = 'sql-validation:sql-format';
+
+// Importing dialects one by one keeps the formatter's other grammars out of the bundle
+const FORMATTER_DIALECTS: Record<SqlDialect, DialectOptions> = { postgresql, mysql, sqlite, bigquery };
+
+export const SQL_DIALECTS: { id: SqlDialect; label: string }[] = [
+  { id: 'postgresql', label: 'PostgreSQL' },
+  { id: 'mysql', label: 'MySQL' },
+  { id: 'sqlite', label: 'SQLite' },
+  { id: 'bigquery', label: 'BigQuery' },
+];
+
+export const DEFAULT_SQL_FORMAT_SETTINGS: SqlFormatSettings = {
+  dialect: 'postgresql',
+  formatDisplay: false,
+  compareFormatted: false,
+};
+
+const sqlFormatSettingsSchema = z.object({
+  dialect: z.enum(['postgresql', 'mysql', 'sqlite', 'bigquery']),
+  formatDisplay: z.boolean(),
+  compareFormatted: z.boolean(),
+});
+
+export const loadSqlFormatSettings = (): SqlFormatSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_SQL_FORMAT_SETTINGS;
+    const result = sqlFormatSettingsSchema.partial().safeParse(JSON.parse(stored));
+    return result.success ? { ...DEFAULT_SQL_FORMAT_SETTINGS, ...result.data } : DEFAULT_SQL_FORMAT_SETTINGS;
+  } catch {
+    return DEFAULT_SQL_FORMAT_SETTINGS;
+  }
+};
+
+export const saveSqlFormatSettings = (settings: SqlFormatSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Table rows re-render while scrolling, so formatted queries are cached. The cache is
+// simply dropped when it fills up.
+const MAX_CACHED_QUERIES = 2000;
+const formatCache = new Map<string, string>();
+
+// Pretty-prints with upper-case keywords and functions and two-space indentation. Queries the formatter
+// cannot parse for the dialect are returned unchanged.
+export const formatSql = (sql: string, dialect: SqlDialect): string => {
+  if (!sql || !sql.trim()) return sql;
+  const cacheKey = `${dialect}\u0000${sql}`;
+  const cached = formatCache.get(cacheKey);
+  if (cached !== undefined) return cached;
+
+  let formatted: string;
+  try {
+    formatted = formatDialect(sql, {
+      dialect: FORMATTER_DIALECTS[dialect],
+      keywordCase: 'upper',
+      functionCase: 'upper',
+      tabWidth: 2,
+    });
+  } catch {
+    formatted = sql;
+  }
+  if (formatCache.size >= MAX_CACHED_QUERIES) formatCache.clear();
+  formatCache.set(cacheKey, formatted);
+  return formatted;
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { checkSqlSyntax } from './sql-syntax';
+import { analyzeSqlPair, analyzeSqlStructure, compareSqlStructure } from './sql-structure';
+
+const texts = (items: { text: string }[]) => items.map(item => item.text);
+
+describe('analyzeSqlStructure', () => {
+  it('resolves aliases and collects each clause', () => {
+    const structure = analyzeSqlStructure(
+      'SELECT u.name, COUNT(*) AS n FROM users u JOIN orders o ON o.user_id = u.id ' +
+      'WHERE u.age > 30 AND o.total > 5 GROUP BY u.name ORDER BY n DESC'
+    );
+    expect(texts(structure.tables)).toEqual(['users', 'orders']);
+    expect(texts(structure.columns)).toEqual(['users.name', 'COUNT(*)']);
+    expect(texts(structure.joins)).toEqual(['INNER JOIN orders ON orders.user_id = users.id']);
+    expect(texts(structure.predicates)).toEqual(['users.age > 30', 'orders.total > 5']);
+    expect(texts(structure.aggregates)).toEqual(['COUNT(*)']);
+    expect(texts(structure.groupBy)).toEqual(['users.name']);
+    // ORDER BY names the output alias, which resolves to its expression
+    expect(texts(structure.orderBy)).toEqual(['COUNT(*) DESC']);
+  });
+
+  it('is null for SQL no dialect can parse', () => {
+    expect(analyzeSqlStructure('SELEC nope')).toBeNull();
+    expect(analyzeSqlStructure('   ')).toBeNull();
+  });
+
+  it('falls back to other dialects', () => {
+    expect(analyzeSqlStructure('SELECT `a` FROM t', 'postgresql')).not.toBeNull();
+  });
+});
+
+describe('compareSqlStructure', () => {
+  it('ignores keyword case, conjunct order and operand order', () => {
+    const comparison = compareSqlStructure('SELECT a FROM t WHERE x = 1 AND y = 2', 'select a from t where y = 2 and 1 = x');
+    expect(comparison.similarity).toBe(1);
+  });
+
+  it('reports a changed comparison on the same column as a half match', () => {
+    const comparison = compareSqlStructure('SELECT name FROM users WHERE age > 30', 'SELECT name FROM users WHERE age >= 30');
+    const predicates = comparison.categories.find(diff => diff.category === 'predicates');
+    expect(predicates.changed).toEqual([{ expected: 'users.age > 30', generated: 'users.age >= 30' }]);
+    expect(comparison.similarity).toBeCloseTo(2.5 / 3);
+  });
+
+  it('reports missing and extra elements', () => {
+    const comparison = compareSqlStructure('SELECT a, b FROM t', 'SELECT a, c FROM t');
+    const columns = comparison.categories.find(diff => diff.category === 'columns');
+    expect(columns).toMatchObject({ matched: ['t.a'], missing: ['t.b'], extra: ['t.c'] });
+  });
+
+  it('is null when either query does not parse', () => {
+    expect(compareSqlStructure('SELECT a FROM t', 'SELEC nope')).toBeNull();
+  });
+});
+
+describe('analyzeSqlPair', () => {
+  const expectedSql = "SELECT name FROM users WHERE name ILIKE 'a%'";
+
+  it('checks the generated SQL in the given dialect, as the modal does', () => {
+    (['postgresql', 'mysql'] as const).forEach(dialect => {
+      const analysis = analyzeSqlPair(expectedSql, expectedSql, dialect);
+      expect(analysis.parses).toBe(checkSqlSyntax(expectedSql, dialect).parses);
+    });
+    expect(analyzeSqlPair(expectedSql, expectedSql, 'postgresql').parses).toBe(true);
+    expect(analyzeSqlPair(expectedSql, expectedSql, 'mysql').parses).toBe(false);
+  });
+
+  it('compares structure in any dialect that parses both queries', () => {
+    expect(analyzeSqlPair(expectedSql, expectedSql, 'mysql').similarity).toBe(1);
+    expect(analyzeSqlPair('SELECT a, b FROM t', 'SELECT a FROM t', 'sqlite').similarity).toBeCloseTo(0.6667);
+  });
+
+  it('has no similarity when the generated SQL does not parse', () => {
+    expect(analyzeSqlPair('SELECT a FROM t', 'SELEC nope', 'postgresql')).toEqual({ parses: false, similarity: undefined });
+  });
+});
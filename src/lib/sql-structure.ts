@@ -0,0 +1,375 @@
+// Parses SQL into an AST and compares the structure of expected and generated queries
+import {
+  SqlAnalysis,
+  SqlDialect,
+  SqlStructure,
+  StructuralComparison,
+  StructureCategory,
+  StructureCategoryDiff,
+  StructureItem,
+} from '@/types/validation';
+import { SQL_PARSERS, SqlParser, checkSqlSyntax } from '@/lib/sql-syntax';
+
+export const STRUCTURE_CATEGORIES: StructureCategory[] = [
+  'tables',
+  'columns',
+  'joins',
+  'predicates',
+  'aggregates',
+  'groupBy',
+  'orderBy',
+];
+
+export const STRUCTURE_CATEGORY_LABELS: Record<StructureCategory, string> = {
+  tables: 'Tables',
+  columns: 'Selected columns',
+  joins: 'Joins',
+  predicates: 'Predicates',
+  aggregates: 'Aggregates',
+  groupBy: 'GROUP BY',
+  orderBy: 'ORDER BY',
+};
+
+// Tried in this order after the preferred dialect
+const FALLBACK_DIALECTS: SqlDialect[] = ['postgresql', 'mysql', 'sqlite', 'bigquery'];
+
+// The parser's published types cover only part of its output, so nodes are read loosely
+interface AstNode {
+  type?: string;
+  [key: string]: unknown;
+}
+
+const asNode = (value: unknown): AstNode | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as AstNode : null;
+
+const asNodes = (value: unknown): AstNode[] =>
+  Array.isArray(value) ? value.map(asNode).filter((node): node is AstNode => node !== null) : [];
+
+const lower = (value: unknown) => String(value ?? '').toLowerCase();
+
+// Name lookups for one SELECT: table aliases resolve to table names and, in ORDER BY,
+// output aliases resolve to the expression they name
+interface Scope {
+  tables: Map<string, string>;
+  outputs: Map<string, string>;
+  // Unqualified columns belong to this table when the query reads only one
+  soleTable?: string;
+}
+
+const COMMUTATIVE_OPERATORS = new Set(['=', '<>', '!=', 'AND', 'OR']);
+const MIRRORED_OPERATORS: Record<string, string> = { '<': '>', '>': '<', '<=': '>=', '>=': '<=' };
+const LITERAL_TYPES = new Set(['number', 'single_quote_string', 'double_quote_string', 'string', 'bool', 'boolean', 'null']);
+
+const isLiteral = (value: unknown) => LITERAL_TYPES.has(asNode(value)?.type);
+
+const columnName = (node: AstNode): string => {
+  const column = node.column;
+  if (typeof column === 'string') return lower(column);
+  return lower(asNode(asNode(column)?.expr)?.value);
+};
+
+const functionName = (node: AstNode): string => {
+  if (typeof node.name === 'string') return node.name.toUpperCase();
+  return asNodes(asNode(node.name)?.name).map(part => String(part.value)).join('.').toUpperCase();
+};
+
+// Renders an expression in a canonical form: aliases resolved, keywords upper-cased, operands
+// of commutative operators sorted and literals moved to the right, so that equivalent
+// conditions written differently render the same
+const renderExpr = (value: unknown, scope: Scope, parser: SqlParser): string => {
+  const node = asNode(value);
+  if (!node) return Array.isArray(value) ? value.map(item => renderExpr(item, scope, parser)).join(', ') : String(value ?? '');
+  if (node.ast) return '(subquery)';
+
+  switch (node.type) {
+    case 'column_ref': {
+      const name = columnName(node);
+      if (name === '*') return '*';
+      if (!node.table) {
+        if (scope.outputs.has(name)) return scope.outputs.get(name);
+        return scope.soleTable ? `${scope.soleTable}.${name}` : name;
+      }
+      const table = lower(node.table);
+      return `${scope.tables.get(table) ?? table}.${name}`;
+    }
+    case 'binary_expr': {
+      let operator = String(node.operator).toUpperCase();
+      let left = node.left;
+      let right = node.right;
+      if (isLiteral(left) && !isLiteral(right) && (MIRRORED_OPERATORS[operator] || COMMUTATIVE_OPERATORS.has(operator))) {
+        [left, right] = [right, left];
+        operator = MIRRORED_OPERATORS[operator] ?? operator;
+      }
+      const operands = [renderExpr(left, scope, parser), renderExpr(right, scope, parser)];
+      if (operator === 'BETWEEN' || operator === 'NOT BETWEEN') {
+        const bounds = asNodes(asNode(right)?.value).map(bound => renderExpr(bound, scope, parser));
+        return `${operands[0]} ${operator} ${bounds.join(' AND ')}`;
+      }
+      if (COMMUTATIVE_OPERATORS.has(operator) && isLiteral(left) === isLiteral(right)) operands.sort();
+      return `${operands[0]} ${operator === '!=' ? '<>' : operator} ${operands[1]}`;
+    }
+    case 'unary_expr':
+      return `${String(node.operator).toUpperCase()} ${renderExpr(node.expr, scope, parser)}`;
+    case 'aggr_func': {
+      const args = asNode(node.args);
+      return `${functionName(node)}(${args?.distinct ? 'DISTINCT ' : ''}${renderExpr(args?.expr, scope, parser)})`;
+    }
+    case 'function':
+      return `${functionName(node)}(${asNodes(asNode(node.args)?.value).map(arg => renderExpr(arg, scope, parser)).join(', ')})`;
+    case 'expr_list':
+      return `(${asNodes(node.value).map(item => renderExpr(item, scope, parser)).join(', ')})`;
+    case 'number':
+      return String(node.value);
+    case 'single_quote_string':
+    case 'string':
+      return `'${String(node.value)}'`;
+    case 'bool':
+    case 'boolean':
+      return String(node.value).toUpperCase();
+    case 'null':
+      return 'NULL';
+    case 'star':
+      return '*';
+  }
+
+  try {
+    return parser.exprToSQL(node);
+  } catch {
+    return JSON.stringify(node);
+  }
+};
+
+// Splits a condition into its top-level AND terms
+const conjuncts = (value: unknown): AstNode[] => {
+  const node = asNode(value);
+  if (!node) return [];
+  if (node.type === 'binary_expr' && String(node.operator).toUpperCase() === 'AND') {
+    return [...conjuncts(node.left), ...conjuncts(node.right)];
+  }
+  return [node];
+};
+
+// Visits every node below value, without descending into subqueries
+const walk = (value: unknown, visit: (node: AstNode) => void) => {
+  if (Array.isArray(value)) {
+    value.forEach(item => walk(item, visit));
+    return;
+  }
+  const node = asNode(value);
+  if (!node || node.ast) return;
+  visit(node);
+  Object.values(node).forEach(child => walk(child, visit));
+};
+
+// Subquery statements directly below value: FROM/WHERE subqueries and EXISTS/IN lists
+const findSubqueries = (value: unknown): AstNode[] => {
+  const found: AstNode[] = [];
+  const search = (item: unknown) => {
+    if (Array.isArray(item)) {
+      item.forEach(search);
+      return;
+    }
+    const node = asNode(item);
+    if (!node) return;
+    const ast = asNode(node.ast);
+    if (ast) {
+      found.push(ast);
+      return;
+    }
+    Object.values(node).forEach(search);
+  };
+  search(value);
+  return found;
+};
+
+const emptyStructure = (): SqlStructure => ({
+  tables: [],
+  columns: [],
+  joins: [],
+  predicates: [],
+  aggregates: [],
+  groupBy: [],
+  orderBy: [],
+});
+
+const collectStatement = (statement: AstNode, structure: SqlStructure, parser: SqlParser) => {
+  asNodes(statement.with).forEach(cte => {
+    const stmt = asNode(asNode(cte.stmt)?.ast) ?? asNode(cte.stmt);
+    if (stmt) collectStatement(stmt, structure, parser);
+  });
+
+  const from = asNodes(statement.from ?? statement.table);
+  const scope: Scope = { tables: new Map(), outputs: new Map() };
+  const tableNames = from.filter(source => typeof source.table === 'string').map(source => lower(source.table));
+  from.forEach(source => {
+    if (typeof source.table === 'string') {
+      scope.tables.set(lower(source.table), lower(source.table));
+      if (source.as) scope.tables.set(lower(source.as), lower(source.table));
+    }
+  });
+  if (new Set(tableNames).size === 1 && from.length === 1) scope.soleTable = tableNames[0];
+
+  tableNames.forEach(table => structure.tables.push({ key: table, text: table }));
+
+  from.forEach(source => {
+    if (!source.join) return;
+    const target = typeof source.table === 'string' ? lower(source.table) : '(subquery)';
+    const joinType = String(source.join).toUpperCase();
+    const condition = source.using
+      ? ` USING (${(source.using as unknown[]).map(lower).join(', ')})`
+      : source.on ? ` ON ${renderExpr(source.on, scope, parser)}` : '';
+    structure.joins.push({ key: target, text: `${joinType} ${target}${condition}` });
+  });
+
+  const columns = Array.isArray(statement.columns) ? asNodes(statement.columns) : [];
+  columns.forEach(column => {
+    const text = renderExpr(column.expr ?? column, scope, parser);
+    structure.columns.push({ key: text, text });
+  });
+  if (statement.columns === '*') structure.columns.push({ key: '*', text: '*' });
+
+  [statement.where, statement.having].forEach(condition => {
+    conjuncts(condition).forEach(term => {
+      const text = renderExpr(term, scope, parser);
+      // Comparisons key on their column side so `age > 30` vs `age >= 30` reads as a change
+      const key = term.type === 'binary_expr' && String(term.operator).toUpperCase() !== 'OR'
+        ? renderExpr(isLiteral(term.left) ? term.right : term.left, scope, parser)
+        : text;
+      structure.predicates.push({ key, text });
+    });
+  });
+
+  // The same aggregate repeated in SELECT, HAVING and ORDER BY counts once
+  const aggregates = new Set<string>();
+  walk([statement.columns, statement.having, statement.orderby], node => {
+    if (node.type === 'aggr_func') aggregates.add(renderExpr(node, scope, parser));
+  });
+  aggregates.forEach(text => structure.aggregates.push({ key: text, text }));
+
+  const groupBy = asNode(statement.groupby);
+  const groupByColumns = groupBy ? asNodes(groupBy.columns) : asNodes(statement.groupby);
+  groupByColumns.forEach(column => {
+    const text = renderExpr(column, scope, parser);
+    structure.groupBy.push({ key: text, text });
+  });
+
+  // ORDER BY may name output columns by alias
+  columns.forEach(column => {
+    if (column.as) scope.outputs.set(lower(column.as), renderExpr(column.expr, { ...scope, outputs: new Map() }, parser));
+  });
+  asNodes(statement.orderby).forEach(order => {
+    const key = renderExpr(order.expr, scope, parser);
+    structure.orderBy.push({ key, text: `${key} ${String(order.type ?? 'ASC').toUpperCase()}` });
+  });
+
+  findSubqueries([statement.from, statement.where, statement.having, statement.columns])
+    .forEach(subquery => collectStatement(subquery, structure, parser));
+
+  const next = asNode(statement._next);
+  if (next) collectStatement(next, structure, parser);
+};
+
+// Results are cached per dialect and query since expected SQL repeats across runs. The
+// cache is simply dropped when it fills up.
+const MAX_CACHED_STRUCTURES = 5000;
+const structureCache = new Map<string, ParsedStructure | null>();
+
+interface ParsedStructure {
+  structure: SqlStructure;
+  // The dialect whose grammar accepted the query
+  dialect: SqlDialect;
+}
+
+// Tries the preferred dialect first and falls back to the others; null when none can parse it
+const parseStructure = (sql: string, dialect: SqlDialect): ParsedStructure | null => {
+  if (!sql || !sql.trim()) return null;
+  const cacheKey = `${dialect}\u0000${sql}`;
+  if (structureCache.has(cacheKey)) return structureCache.get(cacheKey);
+
+  let parsed: ParsedStructure | null = null;
+  for (const candidate of [dialect, ...FALLBACK_DIALECTS.filter(other => other !== dialect)]) {
+    const parser = SQL_PARSERS[candidate];
+    try {
+      const ast = parser.astify(sql, { database: candidate });
+      const structure = emptyStructure();
+      const statements = Array.isArray(ast) ? ast : [ast];
+      statements.forEach(statement => collectStatement(statement as unknown as AstNode, structure, parser));
+      parsed = { structure, dialect: candidate };
+      break;
+    } catch {
+      parsed = null;
+    }
+  }
+
+  if (structureCache.size >= MAX_CACHED_STRUCTURES) structureCache.clear();
+  structureCache.set(cacheKey, parsed);
+  return parsed;
+};
+
+export const analyzeSqlStructure = (sql: string, dialect: SqlDialect = 'postgresql'): SqlStructure | null =>
+  parseStructure(sql, dialect)?.structure ?? null;
+
+const compareItems = (category: StructureCategory, expected: StructureItem[], generated: StructureItem[]): StructureCategoryDiff => {
+  const diff: StructureCategoryDiff = { category, matched: [], missing: [], extra: [], changed: [] };
+  const remaining = [...generated];
+  const unmatched: StructureItem[] = [];
+
+  expected.forEach(item => {
+    const index = remaining.findIndex(other => other.text === item.text);
+    if (index === -1) {
+      unmatched.push(item);
+      return;
+    }
+    diff.matched.push(item.text);
+    remaining.splice(index, 1);
+  });
+  unmatched.forEach(item => {
+    const index = remaining.findIndex(other => other.key === item.key);
+    if (index === -1) {
+      diff.missing.push(item.text);
+      return;
+    }
+    diff.changed.push({ expected: item.text, generated: remaining[index].text });
+    remaining.splice(index, 1);
+  });
+  diff.extra = remaining.map(item => item.text);
+  return diff;
+};
+
+export const compareSqlStructures = (expected: SqlStructure, generated: SqlStructure): StructuralComparison => {
+  const categories = STRUCTURE_CATEGORIES.map(category => compareItems(category, expected[category], generated[category]));
+  let score = 0;
+  let total = 0;
+  categories.forEach(diff => {
+    score += diff.matched.length + diff.changed.length * 0.5;
+    total += diff.matched.length + diff.changed.length + diff.missing.length + diff.extra.length;
+  });
+  return { categories, similarity: total === 0 ? 1 : score / total };
+};
+
+// Null when either query cannot be parsed in any supported dialect
+export const compareSqlStructure = (
+  expectedSql: string,
+  generatedSql: string,
+  dialect?: SqlDialect
+): StructuralComparison | null => {
+  const expected = analyzeSqlStructure(expectedSql, dialect);
+  const generated = analyzeSqlStructure(generatedSql, dialect);
+  return expected && generated ? compareSqlStructures(expected, generated) : null;
+};
+
+// Structural similarity and the syntax check of one expected/generated pair in a dialect.
+// Each query is parsed once: the preferred dialect is tried first, so the generated query
+// parses in that dialect when it was the one that accepted it. Queries it did not accept are
+// checked again on their own so the result always agrees with checkSqlSyntax.
+export const analyzeSqlPair = (expectedSql: string, generatedSql: string, dialect: SqlDialect): SqlAnalysis => {
+  const expected = parseStructure(expectedSql, dialect);
+  const generated = parseStructure(generatedSql, dialect);
+  const similarity = expected && generated
+    ? compareSqlStructures(expected.structure, generated.structure).similarity
+    : undefined;
+  return {
+    parses: generated?.dialect === dialect || checkSqlSyntax(generatedSql, dialect).parses,
+    similarity: similarity === undefined ? undefined : Number(similarity.toFixed(4)),
+  };
+};
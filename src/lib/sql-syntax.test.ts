@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { makeTestCase } from '@/test/factories';
+import { DEFAULT_SCORING_PROFILE } from './scoring';
+import { matchesFilterGroups } from './filters';
+import { checkSqlSyntax, createSyntaxDisagreementGroup, hasSyntaxDisagreement } from './sql-syntax';
+
+describe('checkSqlSyntax', () => {
+  it('accepts SQL the dialect parses', () => {
+    expect(checkSqlSyntax('SELECT id FROM users WHERE age > 30', 'postgresql')).toEqual({ parses: true });
+  });
+
+  it('locates the error and lists the expected keywords', () => {
+    const { parses, error } = checkSqlSyntax('SELECT id\nFROM users WHER age > 30', 'postgresql');
+    expect(parses).toBe(false);
+    expect(error).toMatchObject({ line: 2, column: 17 });
+    expect(error.message).toMatch(/^Unexpected "a"; expected .*\bJOIN\b/);
+  });
+
+  it('depends on the dialect', () => {
+    expect(checkSqlSyntax("SELECT * FROM t WHERE a ILIKE 'x'", 'postgresql').parses).toBe(true);
+    expect(checkSqlSyntax("SELECT * FROM t WHERE a ILIKE 'x'", 'mysql').parses).toBe(false);
+  });
+
+  it('rejects an empty query', () => {
+    expect(checkSqlSyntax('  ', 'sqlite')).toMatchObject({ parses: false, error: { message: 'The query is empty' } });
+  });
+});
+
+describe('createSyntaxDisagreementGroup', () => {
+  const rows = [
+    makeTestCase({ id: 'flagged', generated_sql_parses: false, syntax_score: 0.9 }),
+    makeTestCase({ id: 'low-score', generated_sql_parses: false, syntax_score: 0.2 }),
+    makeTestCase({ id: 'parses', generated_sql_parses: true, syntax_score: 0.9 }),
+    makeTestCase({ id: 'not-checked', syntax_score: 0.9 }),
+  ];
+
+  it('matches exactly the rows hasSyntaxDisagreement flags', () => {
+    const group = createSyntaxDisagreementGroup();
+    const filtered = rows.filter(row => matchesFilterGroups(row, [group], 'and', DEFAULT_SCORING_PROFILE));
+    expect(filtered.map(row => row.id)).toEqual(['flagged']);
+    expect(rows.filter(hasSyntaxDisagreement)).toEqual(filtered);
+  });
+});
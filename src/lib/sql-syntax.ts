@@ -0,0 +1,86 @@
+// Client-side syntax checks of SQL against the supported dialects' grammars
+import { Parser as PostgresParser } from 'node-sql-parser/build/postgresql';
+import { Parser as MySqlParser } from 'node-sql-parser/build/mysql';
+import { Parser as SqliteParser } from 'node-sql-parser/build/sqlite';
+import { Parser as BigQueryParser } from 'node-sql-parser/build/bigquery';
+import { FilterGroup, SQLTestCase, SqlDialect } from '@/types/validation';
+import { createFilterGroup, createFilterId } from '@/lib/filters';
+
+export type SqlParser = PostgresParser;
+
+export const SQL_PARSERS: Record<SqlDialect, SqlParser> = {
+  postgresql: new PostgresParser(),
+  mysql: new MySqlParser(),
+  sqlite: new SqliteParser(),
+  bigquery: new BigQueryParser(),
+};
+
+// An uploaded syntax_score at or above this for a query that does not parse is flagged
+export const SYNTAX_DISAGREEMENT_THRESHOLD = 0.8;
+
+export interface SqlSyntaxError {
+  message: string;
+  // 1-based, as editors count
+  line: number;
+  column: number;
+}
+
+export interface SqlSyntaxCheck {
+  parses: boolean;
+  error?: SqlSyntaxError;
+}
+
+// Shape of the grammar's SyntaxError
+interface ParserError {
+  message?: string;
+  found?: string | null;
+  expected?: { type: string; text?: string }[];
+  location?: { start: { line: number; column: number } };
+}
+
+const MAX_EXPECTED_KEYWORDS = 6;
+
+// The grammar lists every acceptable token; only the keywords are worth showing
+const describeError = (error: ParserError): string => {
+  if (!error.location) return error.message ?? 'Could not parse the query';
+  const found = error.found ? `Unexpected "${error.found}"` : 'Unexpected end of query';
+  const keywords = [...new Set(
+    (error.expected ?? [])
+      .filter(item => item.type === 'literal' && /^[A-Z][A-Z_ ]*$/.test(item.text ?? ''))
+      .map(item => item.text)
+  )];
+  if (keywords.length === 0) return found;
+  const shown = keywords.slice(0, MAX_EXPECTED_KEYWORDS).join(', ');
+  return `${found}; expected ${shown}${keywords.length > MAX_EXPECTED_KEYWORDS ? ', …' : ''}`;
+};
+
+export const checkSqlSyntax = (sql: string, dialect: SqlDialect): SqlSyntaxCheck => {
+  if (!sql || !sql.trim()) return { parses: false, error: { message: 'The query is empty', line: 1, column: 1 } };
+  try {
+    SQL_PARSERS[dialect].astify(sql, { database: dialect });
+    return { parses: true };
+  } catch (caught) {
+    const error = caught as ParserError;
+    return {
+      parses: false,
+      error: {
+        message: describeError(error),
+        line: error.location?.start.line ?? 1,
+        column: error.location?.start.column ?? 1,
+      },
+    };
+  }
+};
+
+// The upload scores the query as valid SQL but it does not parse in the chosen dialect
+export const hasSyntaxDisagreement = (row: SQLTestCase): boolean =>
+  row.generated_sql_parses === false && row.syntax_score >= SYNTAX_DISAGREEMENT_THRESHOLD;
+
+// Filter builder group matching exactly the rows hasSyntaxDisagreement flags
+export const createSyntaxDisagreementGroup = (): FilterGroup => ({
+  ...createFilterGroup(),
+  conditions: [
+    { id: createFilterId(), kind: 'boolean', field: 'generated_sql_parses', value: false },
+    { id: createFilterId(), kind: 'numeric', field: 'syntax_score', min: SYNTAX_DISAGREEMENT_THRESHOLD, max: 1 },
+  ],
+});
@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { SQLTestCase, TableLayout } from '@/types/validation';
+import { TABLE_COLUMNS } from '@/lib/fields';
+
+const STORAGE_KEY = 'sql-validation:table-layouts';
+const ACTIVE_KEY = 'sql-validation:active-table-layout';
+// The layout on screen, including edits not yet saved to a named layout
+const CURRENT_KEY = 'sql-validation:current-table-layout';
+
+export const MIN_COLUMN_WIDTH = 60;
+
+export const DEFAULT_TABLE_LAYOUT: TableLayout = {
+  id: 'default',
+  name: 'All columns',
+  columns: TABLE_COLUMNS,
+  widths: {},
+};
+
+// Shipped with the dashboard and never written to storage
+export const BUILT_IN_TABLE_LAYOUTS: TableLayout[] = [
+  DEFAULT_TABLE_LAYOUT,
+  {
+    id: 'semantic-review',
+    name: 'Semantic review',
+    columns: [
+      'id',
+      'run_id',
+      'user_prompt',
+      'expected_sql',
+      'generated_sql',
+      'semantic_score',
+      'codebert_intent_score',
+      'codebert_sqlsim_score',
+      'flane5_intent_score',
+      'flane5_sqlsim_score',
+      'codebert_match',
+      'flane5_match',
+      'true_label',
+    ],
+    widths: {},
+  },
+  {
+    id: 'ngram-debug',
+    name: 'N-gram debug',
+    columns: [
+      'id',
+      'run_id',
+      'expected_sql',
+      'generated_sql',
+      'ngram1_precision',
+      'ngram1_recall',
+      'ngram1_f1',
+      'ngram2_precision',
+      'ngram2_recall',
+      'ngram2_f1',
+      'edit_similarity',
+      'precision',
+      'recall',
+      'f1_score',
+    ],
+    widths: {},
+  },
+];
+
+export const isBuiltInLayout = (id: string) => BUILT_IN_TABLE_LAYOUTS.some(layout => layout.id === id);
+
+const isTableColumn = (column: string): column is keyof SQLTestCase =>
+  TABLE_COLUMNS.includes(column as keyof SQLTestCase);
+
+const tableLayoutSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  columns: z.array(z.string()),
+  widths: z.record(z.number()),
+});
+
+// Drops columns that no longer exist so a layout saved by an older version still loads
+const sanitizeLayout = (layout: z.infer<typeof tableLayoutSchema>): TableLayout => {
+  const columns = layout.columns.filter(isTableColumn);
+  return {
+    id: layout.id,
+    name: layout.name,
+    columns: ['id', ...columns.filter(column => column !== 'id')],
+    widths: Object.fromEntries(
+      Object.entries(layout.widths).filter(([column]) => isTableColumn(column))
+    ),
+  };
+};
+
+const readLayouts = (key: string): TableLayout[] => {
+  try {
+    const stored = localStorage.getItem(key);
+    if (!stored) return [];
+    const raw = JSON.parse(stored);
+    const result = z.array(tableLayoutSchema).safeParse(Array.isArray(raw) ? raw : [raw]);
+    return result.success ? result.data.map(sanitizeLayout) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const createLayoutId = () =>
+  `layout_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const loadTableLayouts = (): TableLayout[] => [
+  ...BUILT_IN_TABLE_LAYOUTS,
+  ...readLayouts(STORAGE_KEY).filter(layout => !isBuiltInLayout(layout.id)),
+];
+
+export const saveTableLayouts = (layouts: TableLayout[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(layouts.filter(layout => !isBuiltInLayout(layout.id))));
+};
+
+export const loadActiveLayoutId = (): string =>
+  localStorage.getItem(ACTIVE_KEY) || DEFAULT_TABLE_LAYOUT.id;
+
+export const saveActiveLayoutId = (id: string) => {
+  localStorage.setItem(ACTIVE_KEY, id);
+};
+
+export const loadCurrentLayout = (): TableLayout | undefined => readLayouts(CURRENT_KEY)[0];
+
+export const saveCurrentLayout = (layout: TableLayout) => {
+  localStorage.setItem(CURRENT_KEY, JSON.stringify(layout));
+};
+
+export const isSameLayout = (a: TableLayout, b: TableLayout): boolean =>
+  a.columns.join() === b.columns.join() &&
+  JSON.stringify(a.widths) === JSON.stringify(b.widths);
+
+// Moves a column into `target`'s place, like dragging a tab; 'id' stays pinned first
+export const moveColumn = (
+  columns: (keyof SQLTestCase)[],
+  column: keyof SQLTestCase,
+  target: keyof SQLTestCase
+): (keyof SQLTestCase)[] => {
+  if (column === 'id' || target === 'id' || column === target) return columns;
+  const from = columns.indexOf(column);
+  const to = columns.indexOf(target);
+  if (from === -1 || to === -1) return columns;
+  const result = columns.filter(c => c !== column);
+  result.splice(to, 0, column);
+  return result;
+};
+
+// A column shown again goes back next to the visible column that precedes it in the default order
+export const setColumnVisible = (
+  columns: (keyof SQLTestCase)[],
+  column: keyof SQLTestCase,
+  visible: boolean
+): (keyof SQLTestCase)[] => {
+  if (column === 'id') return columns;
+  if (!visible) return columns.filter(c => c !== column);
+  if (columns.includes(column)) return columns;
+  const preceding = TABLE_COLUMNS.slice(0, TABLE_COLUMNS.indexOf(column)).reverse();
+  const anchor = preceding.find(c => columns.includes(c));
+  const index = anchor ? columns.indexOf(anchor) + 1 : columns.length;
+  return [...columns.slice(0, index), column, ...columns.slice(index)];
+};
@@ -0,0 +1,19 @@
+import { SQLTestCase } from '@/types/validation';
+
+// A passing test case under the default scoring profile; override what a test needs
+export const makeTestCase = (overrides: Partial<SQLTestCase> = {}): SQLTestCase => ({
+  id: '1',
+  user_prompt: 'List users',
+  expected_sql: 'SELECT * FROM users',
+  generated_sql: 'SELECT * FROM users',
+  syntax_score: 1,
+  semantic_score: 0.9,
+  codebert_match: true,
+  flane5_match: true,
+  true_label: 'select',
+  codebert_intent_score: 0.8,
+  codebert_sqlsim_score: 0.6,
+  flane5_intent_score: 0.9,
+  flane5_sqlsim_score: 0.9,
+  ...overrides,
+});
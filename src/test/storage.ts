@@ -0,0 +1,26 @@
+// In-memory localStorage for modules that persist settings; returns a function that removes it
+export const installMemoryStorage = (quota = Infinity): (() => void) => {
+  const items = new Map<string, string>();
+  const storage: Storage = {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      const used = Array.from(items.values()).reduce((sum, item) => sum + item.length, 0);
+      if (used + value.length > quota) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      items.set(key, String(value));
+    },
+  };
+  const previous = Object.getOwnPropertyDescriptor(globalThis, 'localStorage');
+  Object.defineProperty(globalThis, 'localStorage', { value: storage, configurable: true });
+  return () => {
+    if (previous) Object.defineProperty(globalThis, 'localStorage', previous);
+    else delete (globalThis as { localStorage?: Storage }).localStorage;
+  };
+};
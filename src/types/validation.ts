@@ -41,6 +41,14 @@ export interface SQLTestCase {
   recall?: number;
   f1_score?: number;
   execution_accuracy?: number;
+  // Computed for the dialect chosen under "SQL Format" from the parsed expected and generated
+  // SQL; unset when either fails to parse, and while the dashboard is still analyzing
+  structural_similarity?: number;
+  // Computed like structural_similarity: whether generated_sql parses in the chosen dialect
+  generated_sql_parses?: boolean;
+  // Set when files are tagged on upload so rows from several runs can share one dataset
+  run_id?: string;
+  model_label?: string;
 }
 
 export interface ValidationSummary {
@@ -54,20 +62,354 @@ export interface ValidationSummary {
   topUnknownTokens: string[];
 }
 
+// Derived scores computed by the shared scoring engine (src/lib/scoring.ts)
+export interface TestCaseScore {
+  codebertScore?: number;
+  flane5Score?: number;
+  semanticScore: number;
+  hasSemanticScore: boolean;
+  codebertPass: boolean;
+  flane5Pass: boolean;
+  passed: boolean;
+  confidence: number;
+}
+
+export type ScoreGrade = 'Excellent' | 'Good' | 'Fair' | 'Poor';
+
+export type ScoringModel = 'codebert' | 'flane5';
+
+// Named, user-editable set of weights and thresholds used by the scoring engine
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  models: ScoringModel[];
+  aggregation: 'max' | 'mean';
+  intentWeight: number;
+  sqlsimWeight: number;
+  passThreshold: number;
+  reviewThreshold: number;
+  requireNonZeroOverlap: boolean;
+  confidenceWeights: {
+    intent: number;
+    sqlsim: number;
+    vocab: number;
+    syntax: number;
+    f1: number;
+  };
+}
+
 export interface ConfusionMatrixData {
   matrix: number[][];
   labels: string[];
   title: string;
 }
 
+// Keys of SQLTestCase whose values are numeric or boolean, used by the filter builder
+export type NumericField = {
+  [K in keyof SQLTestCase]-?: NonNullable<SQLTestCase[K]> extends number ? K : never
+}[keyof SQLTestCase];
+
+export type BooleanField = {
+  [K in keyof SQLTestCase]-?: NonNullable<SQLTestCase[K]> extends boolean ? K : never
+}[keyof SQLTestCase];
+
+export type FilterCondition =
+  | { id: string; kind: 'numeric'; field: NumericField; min: number; max: number }
+  | { id: string; kind: 'boolean'; field: BooleanField; value: boolean }
+  | { id: string; kind: 'outcome'; value: 'pass' | 'fail' };
+
+export type FilterCombinator = 'and' | 'or';
+
+export interface FilterGroup {
+  id: string;
+  combinator: FilterCombinator;
+  conditions: FilterCondition[];
+}
+
 export interface FilterState {
+  // Search box query; see src/lib/search.ts for the field-scoped syntax
   searchTerm: string;
+  searchMode: 'text' | 'regex';
   passFailFilter: 'all' | 'pass' | 'fail';
   scoreRange: [number, number];
-  selectedMetrics: string[];
+  groups: FilterGroup[];
+  groupCombinator: FilterCombinator;
 }
 
-export interface SortState {
-  column: keyof SQLTestCase;
+// Sortable values computed from a row rather than read from it
+export type DerivedSortColumn = 'computed_semantic' | 'confidence' | 'baseline_delta';
+
+export type SortColumn = keyof SQLTestCase | DerivedSortColumn;
+
+export interface SortKey {
+  column: SortColumn;
   direction: 'asc' | 'desc';
-}
\ No newline at end of file
+}
+
+export interface SortState {
+  // Applied in order; each key breaks ties left by the ones before it
+  keys: SortKey[];
+  // Where rows without a value go, whichever direction a key sorts
+  nulls: 'first' | 'last';
+}
+
+export interface TableLayout {
+  id: string;
+  name: string;
+  // Visible data columns in display order; 'id' is always first
+  columns: (keyof SQLTestCase)[];
+  // Pixel widths set by resizing; other columns size to their content
+  widths: Partial<Record<keyof SQLTestCase, number>>;
+}
+
+export type SqlDialect = 'postgresql' | 'mysql' | 'sqlite' | 'bigquery';
+
+export interface SqlFormatSettings {
+  dialect: SqlDialect;
+  // Pretty-print SQL in the table, detail rows and modal instead of showing it as stored
+  formatDisplay: boolean;
+  // Diff the pretty-printed forms so casing and indentation differences drop out
+  compareFormatted: boolean;
+}
+// Per-dialect analysis of one expected/generated SQL pair
+export interface SqlAnalysis {
+  parses: boolean;
+  similarity?: number;
+}
+
+export type StructureCategory = 'tables' | 'columns' | 'joins' | 'predicates' | 'aggregates' | 'groupBy' | 'orderBy';
+
+// One structural element of a query. Items with the same key but different text are the
+// "same" element written differently, e.g. a join on the same table with another condition.
+export interface StructureItem {
+  key: string;
+  text: string;
+}
+
+export type SqlStructure = Record<StructureCategory, StructureItem[]>;
+
+export interface StructureCategoryDiff {
+  category: StructureCategory;
+  matched: string[];
+  // In the expected SQL only
+  missing: string[];
+  // In the generated SQL only
+  extra: string[];
+  changed: { expected: string; generated: string }[];
+}
+
+export interface StructuralComparison {
+  categories: StructureCategoryDiff[];
+  // 0-1; matched elements count fully, changed ones half
+  similarity: number;
+}
+
+// Blobs are shown as hex literals
+export type ResultValue = string | number | null;
+
+export interface QueryResult {
+  columns: string[];
+  // May be cut short for display; rowCount is the full count
+  rows: ResultValue[][];
+  rowCount: number;
+}
+
+export type QueryOutcome = { ok: true; result: QueryResult } | { ok: false; error: string };
+
+export interface ExecutionOptions {
+  // Compare rows in order; otherwise result sets are compared as multisets
+  orderSensitive: boolean;
+  // Largest difference at which two numbers still count as equal
+  floatTolerance: number;
+}
+
+export interface ExecutionResult {
+  // The queries that were run, so results are not shown against edited or replaced rows
+  expectedSql: string;
+  generatedSql: string;
+  options: ExecutionOptions;
+  expected: QueryOutcome;
+  generated: QueryOutcome;
+  // Null when the expected query fails, since there is nothing to compare against
+  match: boolean | null;
+}
+
+export type ResultRowStatus = 'match' | 'changed' | 'missing' | 'extra';
+
+export interface ResultRowDiff {
+  status: ResultRowStatus;
+  // Per column of this side's result: true where the cell differs from its paired row
+  cells: boolean[];
+  // Index of the paired row in the other result, for matched and changed rows
+  pairedIndex?: number;
+}
+
+export interface ResultSetDiff {
+  // For each expected column, the generated column it is compared with (-1 for none)
+  columnMap: number[];
+  expectedRows: ResultRowDiff[];
+  generatedRows: ResultRowDiff[];
+  // Matched and changed count row pairs; missing and extra count unpaired rows
+  counts: Record<ResultRowStatus, number>;
+}
+
+export interface SchemaTable {
+  name: string;
+  // Empty when the columns are unknown (views, CREATE TABLE ... AS SELECT)
+  columns: string[];
+}
+
+export interface SchemaCatalog {
+  // File the schema was read from
+  source: string;
+  tables: SchemaTable[];
+}
+
+// 'alias' covers table, column and CTE aliases the query defines itself; 'other' is
+// whitespace, comments, punctuation and operators
+export type SqlTokenKind = 'table' | 'column' | 'alias' | 'keyword' | 'literal' | 'hallucinated' | 'other';
+
+export interface ClassifiedToken {
+  text: string;
+  kind: SqlTokenKind;
+}
+
+export interface HallucinatedIdentifierCount {
+  identifier: string;
+  // Test cases whose generated SQL uses it
+  cases: number;
+}
+
+export type ComparisonStatus = 'regression' | 'improvement' | 'unchanged' | 'added' | 'removed';
+
+// Score fields compared between runs, including the derived scoring-engine values
+export type ComparedMetric = NumericField | 'computed_semantic' | 'confidence';
+
+export interface CaseComparison {
+  // Unique per case: a candidate with several runs compares each of them
+  key: string;
+  id: string;
+  runId?: string;
+  baseline?: SQLTestCase;
+  candidate?: SQLTestCase;
+  baselinePassed?: boolean;
+  candidatePassed?: boolean;
+  status: ComparisonStatus;
+  deltas: Partial<Record<ComparedMetric, number>>;
+}
+
+// Counts of pass/fail outcomes for cases present in both runs
+export interface PassFlipMatrix {
+  passToPass: number;
+  passToFail: number;
+  failToPass: number;
+  failToFail: number;
+}
+
+export interface RunComparison {
+  cases: CaseComparison[];
+  flips: PassFlipMatrix;
+  comparedMetrics: ComparedMetric[];
+  averageDeltas: Partial<Record<ComparedMetric, number>>;
+  baselineSummary: ValidationSummary;
+  candidateSummary: ValidationSummary;
+}
+
+// Saved evaluation run; rows are stored separately so listing runs stays cheap
+export interface EvaluationRun {
+  id: string;
+  name: string;
+  date: string;
+  modelLabel: string;
+  sourceFile: string;
+  rowCount: number;
+  createdAt: string;
+}
+
+export type ConstructField = Extract<BooleanField, `has_${string}`>;
+
+export interface RunTrendPoint {
+  runId: string;
+  name: string;
+  date: string;
+  modelLabel: string;
+  passRate: number;
+  averageSemanticScore: number;
+  averageSyntaxScore: number;
+  executionAccuracy?: number;
+  constructPassRates: Partial<Record<ConstructField, number>>;
+}
+
+// Dataset persisted locally on load; rows live in their own store like runs
+export interface StoredDataset {
+  id: string;
+  name: string;
+  rowCount: number;
+  createdAt: string;
+  // Content hash used to avoid storing the same rows twice; missing on older entries
+  fingerprint?: string;
+}
+
+export interface SessionSource {
+  kind: 'dataset' | 'run';
+  id: string;
+}
+
+export interface SessionSnapshot {
+  source: SessionSource;
+  baselineDatasetId?: string;
+  sourceFile: string;
+  activeProfileId: string;
+  filters: FilterState;
+  sortState: SortState;
+  savedAt: string;
+}
+
+// How merging an upload treats rows whose id already exists
+export type MergePolicy = 'keep-existing' | 'overwrite' | 'keep-both';
+
+export interface MergeResult {
+  rows: SQLTestCase[];
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+export type ImportIssueKind = 'missing-value' | 'unparseable' | 'out-of-range';
+
+// Row is 1-based over the data records (CSV header excluded)
+export interface ImportIssue {
+  row: number;
+  id?: string;
+  field: keyof SQLTestCase;
+  kind: ImportIssueKind;
+  value?: string;
+  message: string;
+  // Rejected issues drop the whole row; the rest only drop or flag the value
+  rejected: boolean;
+}
+
+export interface ImportReport {
+  fileName?: string;
+  totalRows: number;
+  accepted: SQLTestCase[];
+  rejectedRows: number;
+  missingColumns: (keyof SQLTestCase)[];
+  issues: ImportIssue[];
+}
+
+// Source header -> SQLTestCase key; null ignores the column
+export type ColumnMapping = Record<string, keyof SQLTestCase | null>;
+
+export interface ColumnMappingPreset {
+  signature: string;
+  name: string;
+  mapping: ColumnMapping;
+  updatedAt: string;
+}
+
+export interface RunGroupSummary {
+  runId: string;
+  modelLabel?: string;
+  summary: ValidationSummary;
+}
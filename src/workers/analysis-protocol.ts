@@ -0,0 +1,13 @@
+import { SqlAnalysis, SqlDialect } from '@/types/validation';
+
+// Each pair is [expected_sql, generated_sql]; results come back in the same order
+export type AnalysisWorkerRequest = {
+  type: 'analyze';
+  dialect: SqlDialect;
+  pairs: [string, string][];
+};
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; fraction: number }
+  | { type: 'results'; results: SqlAnalysis[] }
+  | { type: 'error'; message: string };
@@ -0,0 +1,25 @@
+// Parses expected and generated SQL off the main thread for the structural similarity and
+// syntax check columns. One worker handles one batch; a new dialect or new rows start another.
+import { analyzeSqlPair } from '@/lib/sql-structure';
+import { AnalysisWorkerRequest, AnalysisWorkerResponse } from './analysis-protocol';
+
+const respond = (message: AnalysisWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const { dialect, pairs } = event.data;
+  try {
+    let lastPercent = -1;
+    const results = pairs.map(([expectedSql, generatedSql], index) => {
+      // Only post whole-percent changes; parsing takes a few milliseconds per pair
+      const percent = Math.floor((index / pairs.length) * 100);
+      if (percent !== lastPercent) {
+        lastPercent = percent;
+        respond({ type: 'progress', fraction: index / pairs.length });
+      }
+      return analyzeSqlPair(expectedSql, generatedSql, dialect);
+    });
+    respond({ type: 'results', results });
+  } catch (error) {
+    respond({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
@@ -0,0 +1,25 @@
+import { ExecutionOptions, ExecutionResult } from '@/types/validation';
+
+// Schema and seed data: a SQL script to run on an empty database, or a SQLite database file
+export type ExecutionDatabase =
+  | { kind: 'script'; name: string; script: string }
+  | { kind: 'file'; name: string; bytes: ArrayBuffer };
+
+export interface ExecutionCase {
+  // Row key from getRowKey
+  key: string;
+  expectedSql: string;
+  generatedSql: string;
+}
+
+export type ExecutionWorkerRequest = {
+  type: 'run';
+  database: ExecutionDatabase;
+  cases: ExecutionCase[];
+  options: ExecutionOptions;
+};
+
+export type ExecutionWorkerResponse =
+  | { type: 'progress'; fraction: number }
+  | { type: 'results'; results: [string, ExecutionResult][] }
+  | { type: 'error'; message: string };
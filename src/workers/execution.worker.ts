@@ -0,0 +1,82 @@
+// Runs expected and generated SQL against an in-memory SQLite database (sql.js) and compares
+// the result sets. One worker handles one run; cancelling terminates it.
+import initSqlJs, { Database } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+import { ExecutionResult, QueryOutcome, QueryResult } from '@/types/validation';
+import { MAX_DISPLAYED_RESULT_ROWS, compareResultSets, toResultValue } from '@/lib/result-sets';
+import { ExecutionDatabase, ExecutionWorkerRequest, ExecutionWorkerResponse } from './execution-protocol';
+
+const respond = (message: ExecutionWorkerResponse) => self.postMessage(message);
+
+const openDatabase = async (database: ExecutionDatabase): Promise<Database> => {
+  const SQL = await initSqlJs({ locateFile: () => sqlWasmUrl });
+  if (database.kind === 'file') return new SQL.Database(new Uint8Array(database.bytes));
+  const db = new SQL.Database();
+  try {
+    db.exec(database.script);
+  } catch (error) {
+    db.close();
+    throw new Error(`Could not run "${database.name}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  return db;
+};
+
+// Each query runs inside a savepoint that is rolled back, so a generated UPDATE or DROP
+// cannot change what later queries see. The last statement's rows are the result.
+const runQuery = (db: Database, sql: string): { outcome: QueryOutcome; full?: QueryResult } => {
+  if (!sql || !sql.trim()) return { outcome: { ok: false, error: 'The query is empty' } };
+  db.exec('SAVEPOINT execution_check');
+  try {
+    const sets = db.exec(sql);
+    const last = sets[sets.length - 1];
+    const full: QueryResult = {
+      columns: last?.columns ?? [],
+      rows: (last?.values ?? []).map(row => row.map(toResultValue)),
+      rowCount: last?.values.length ?? 0,
+    };
+    return {
+      outcome: { ok: true, result: { ...full, rows: full.rows.slice(0, MAX_DISPLAYED_RESULT_ROWS) } },
+      full,
+    };
+  } catch (error) {
+    return { outcome: { ok: false, error: error instanceof Error ? error.message : 'Unknown error' } };
+  } finally {
+    try {
+      db.exec('ROLLBACK TO execution_check; RELEASE execution_check');
+    } catch {
+      // The query ended the transaction itself (e.g. COMMIT), so there is no savepoint left
+    }
+  }
+};
+
+self.onmessage = async (event: MessageEvent<ExecutionWorkerRequest>) => {
+  const { database, cases, options } = event.data;
+  let db: Database | undefined;
+  try {
+    db = await openDatabase(database);
+    let lastPercent = -1;
+    const results = cases.map(({ key, expectedSql, generatedSql }, index): [string, ExecutionResult] => {
+      const percent = Math.floor((index / cases.length) * 100);
+      if (percent !== lastPercent) {
+        lastPercent = percent;
+        respond({ type: 'progress', fraction: index / cases.length });
+      }
+      const expected = runQuery(db, expectedSql);
+      const generated = runQuery(db, generatedSql);
+      const match = !expected.full ? null : !generated.full ? false : compareResultSets(expected.full, generated.full, options);
+      return [key, {
+        expectedSql,
+        generatedSql,
+        options,
+        expected: expected.outcome,
+        generated: generated.outcome,
+        match,
+      }];
+    });
+    respond({ type: 'results', results });
+  } catch (error) {
+    respond({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  } finally {
+    db?.close();
+  }
+};
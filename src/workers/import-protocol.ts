@@ -0,0 +1,14 @@
+import { ColumnMapping, ImportReport } from '@/types/validation';
+
+export type ImportPhase = 'reading' | 'validating';
+
+export type ImportWorkerRequest =
+  | { type: 'parse'; file: File }
+  // Sent after a needs-mapping response; null keeps the file's own headers
+  | { type: 'map'; mapping: ColumnMapping | null };
+
+export type ImportWorkerResponse =
+  | { type: 'progress'; phase: ImportPhase; fraction?: number }
+  | { type: 'needs-mapping'; headers: string[]; sampleRow: Record<string, unknown> }
+  | { type: 'report'; report: ImportReport }
+  | { type: 'error'; message: string };
@@ -0,0 +1,65 @@
+// Parses, validates and normalizes uploads off the main thread. One worker handles one
+// import; the parsed rows stay here while the user reviews the column mapping.
+import { getParserForFile, getRegisteredParsers } from '@/lib/parsers';
+import { applyColumnMapping, getHeaders, hasRequiredHeaders } from '@/lib/column-mapping';
+import { validateTestCases } from '@/lib/schema';
+import { normalizeTestCases } from '@/lib/normalize';
+import { ImportPhase, ImportWorkerRequest, ImportWorkerResponse } from './import-protocol';
+
+let parsedRows: unknown[] = [];
+let parsedFileName = '';
+
+const respond = (message: ImportWorkerResponse) => self.postMessage(message);
+
+// Only post whole-percent changes; streaming parsers call back for every chunk
+const createProgressReporter = (phase: ImportPhase) => {
+  let lastPercent = -1;
+  return (fraction: number) => {
+    const percent = Math.floor(fraction * 100);
+    if (percent === lastPercent) return;
+    lastPercent = percent;
+    respond({ type: 'progress', phase, fraction });
+  };
+};
+
+const finishImport = (rows: unknown[]) => {
+  respond({ type: 'progress', phase: 'validating' });
+  const report = validateTestCases(rows, parsedFileName);
+  respond({ type: 'report', report: { ...report, accepted: normalizeTestCases(report.accepted) } });
+};
+
+const handleParse = async (file: File) => {
+  const parser = getParserForFile(file.name);
+  if (!parser) {
+    const supported = getRegisteredParsers().map(p => p.label).join(', ');
+    throw new Error(`Unsupported file type. Please upload one of: ${supported}.`);
+  }
+
+  const reportProgress = createProgressReporter('reading');
+
+  reportProgress(0);
+  const { rows, headers = getHeaders(rows) } = await parser.parse(file, reportProgress);
+  parsedRows = rows;
+  parsedFileName = file.name;
+
+  // Files that already use our field names skip the mapping step
+  if (hasRequiredHeaders(headers)) {
+    finishImport(rows);
+    return;
+  }
+  const sampleRow = rows.find(row => row && typeof row === 'object') as Record<string, unknown> | undefined;
+  respond({ type: 'needs-mapping', headers, sampleRow: sampleRow ?? {} });
+};
+
+self.onmessage = async (event: MessageEvent<ImportWorkerRequest>) => {
+  try {
+    if (event.data.type === 'parse') {
+      await handleParse(event.data.file);
+    } else {
+      const { mapping } = event.data;
+      finishImport(mapping ? applyColumnMapping(parsedRows, mapping) : parsedRows);
+    }
+  } catch (error) {
+    respond({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};